@@ -0,0 +1,77 @@
+/**
+ * @file generate-search-sql.ts
+ * @description Generates the database's search normalization function.
+ * 
+ * Writes supabase/normalize_search.sql from the same ORTHOGRAPHY table
+ * that normalizeForSearch uses, so the search_text trigger and the
+ * TypeScript search code always fold the same letters.
+ * 
+ * Usage:
+ *   npm run generate-search-sql             # rewrite the SQL file
+ *   npm run generate-search-sql -- --check  # fail if the file is out of date
+ * 
+ * After regenerating, run the file in the Supabase SQL Editor.
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import { SEARCH_FOLDS } from "@/utils/normalize";
+
+/** Where the generated SQL is written */
+const OUTPUT_FILE = "supabase/normalize_search.sql";
+
+/**
+ * Builds the SQL for normalize_search() and the search_text trigger.
+ * Mirrors normalizeForSearch step by step: lowercase, NFD, strip
+ * combining marks (U+0300–U+036F), then translate() the special letters.
+ */
+function buildSql(): string {
+    const letters = Object.keys(SEARCH_FOLDS);
+    const from = letters.join("");
+    const to = letters.map((letter) => SEARCH_FOLDS[letter]).join("");
+
+    return `-- Generated by scripts/generate-search-sql.ts from src/lib/languages.ts.
+-- Do not edit by hand: change ORTHOGRAPHY and run \`npm run generate-search-sql\`.
+-- Requires PostgreSQL 13+ (for normalize()).
+
+create or replace function normalize_search(input text)
+returns text as $$
+  select translate(
+    regexp_replace(normalize(lower(input), NFD), '[\\u0300-\\u036f]', '', 'g'),
+    '${from}',
+    '${to}'
+  );
+$$ language sql immutable;
+
+create or replace function update_search_text()
+returns trigger as $$
+begin
+  new.search_text := normalize_search(new.title || ' ' || coalesce(new.artist, '') || ' ' || new.lyrics);
+  return new;
+end;
+$$ language plpgsql;
+
+-- Recompute search_text for songs stored before this version
+update songs set search_text = normalize_search(title || ' ' || coalesce(artist, '') || ' ' || lyrics);
+`;
+}
+
+async function main() {
+    const sql = buildSql();
+
+    if (process.argv.includes("--check")) {
+        const current = await readFile(OUTPUT_FILE, "utf-8").catch(() => "");
+        if (current !== sql) {
+            console.error(`${OUTPUT_FILE} is out of date. Run \`npm run generate-search-sql\`.`);
+            process.exitCode = 1;
+        }
+        return;
+    }
+
+    await writeFile(OUTPUT_FILE, sql, "utf-8");
+    console.log(`Wrote ${OUTPUT_FILE}`);
+}
+
+main().catch((error) => {
+    console.error("Generating search SQL failed:", error);
+    process.exitCode = 1;
+});
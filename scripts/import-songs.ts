@@ -0,0 +1,64 @@
+/**
+ * @file import-songs.ts
+ * @description Command-line import of songs from a CSV file.
+ * 
+ * Usage:
+ *   npm run import-songs                       # import data/songs.csv
+ *   npm run import-songs -- --dry-run          # report only, insert nothing
+ *   npm run import-songs -- --unverified       # send the songs to the moderation queue
+ *   npm run import-songs -- path/to/file.csv   # import another file
+ * 
+ * Songs are written to the backend selected by SONGS_BACKEND
+ * (see src/lib/repository.ts), verified unless --unverified is given.
+ * Environment variables are loaded from .env.local the same way
+ * `next dev` does.
+ * 
+ * Exits with code 1 if any row was invalid or failed to insert.
+ */
+
+import { readFile } from "fs/promises";
+import { loadEnvConfig } from "@next/env";
+import { importSongsFromCsv, SongImportResult } from "@/lib/songImport";
+
+/** Default CSV file to import */
+const DEFAULT_FILE = "data/songs.csv";
+
+/**
+ * Formats one report line, e.g. "  row 12  duplicate  Aseda — Already stored as song #3".
+ */
+function formatResult(result: SongImportResult): string {
+    const details = result.messages.length > 0 ? ` — ${result.messages.join("; ")}` : "";
+    return `  row ${String(result.row.row).padEnd(4)} ${result.status.padEnd(9)} ${result.row.title || "(no title)"}${details}`;
+}
+
+async function main() {
+    loadEnvConfig(process.cwd());
+
+    const args = process.argv.slice(2);
+    const dryRun = args.includes("--dry-run");
+    const verified = !args.includes("--unverified");
+    const file = args.find((arg) => !arg.startsWith("--")) ?? DEFAULT_FILE;
+
+    const report = await importSongsFromCsv(await readFile(file, "utf-8"), { dryRun, verified });
+
+    console.log(`${dryRun ? "Dry run: " : ""}${report.results.length} rows in ${file}\n`);
+    for (const result of report.results) {
+        console.log(formatResult(result));
+    }
+
+    const { counts } = report;
+    console.log(
+        `\n${dryRun ? `${counts.new} would be added` : `${counts.inserted} added`}, ` +
+        `${counts.duplicate} duplicate, ${counts.invalid} invalid` +
+        (counts.failed > 0 ? `, ${counts.failed} failed` : "")
+    );
+
+    if (counts.invalid > 0 || counts.failed > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error("Import failed:", error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,444 @@
+/**
+ * @file actions.ts
+ * @description Server actions called from client components.
+ * 
+ * Client components can't talk to the song repository directly
+ * (the local backend reads files on the server), so they call
+ * these thin wrappers around the functions in songs.ts instead.
+ * 
+ * Server actions can be called with any payload, not just what the
+ * forms send, so the song actions re-validate everything they receive.
+ */
+
+"use server";
+
+import {
+    addSong,
+    findDuplicateSongs,
+    getSongById,
+    searchHighlightText,
+    searchSongsSuggestions,
+    Song,
+} from "@/lib/songs";
+import {
+    HONEYPOT_FIELD,
+    IMPORT_BATCH_LIMIT,
+    SongSubmission,
+    SUBMISSION_LIMITS,
+    validateSongSubmission,
+} from "@/lib/songSubmission";
+import type { DuplicateMatch } from "@/lib/duplicates";
+import { suggestCorrection } from "@/lib/revisions";
+import { ArrangementResult, deleteArrangement, getArrangements, saveArrangement } from "@/lib/arrangements";
+import { createSetlist, SetlistResult, updateSetlist } from "@/lib/setlists";
+import { SETLIST_LIMITS, validateSetlist } from "@/lib/setlistSubmission";
+import type { SongArrangement } from "@/lib/repository";
+import { clientIp, createRateLimiter, RateLimiter } from "@/lib/rateLimit";
+import { isModerator } from "@/lib/adminAuth";
+import {
+    endLiveSession,
+    LiveSessionResult,
+    startLiveSession,
+    updateLiveSession,
+    validatePosition,
+} from "@/lib/liveSessions";
+
+/**
+ * Rate limits per client IP, one per kind of action, so that using one
+ * feature doesn't lock a visitor out of another.
+ */
+const limiters = {
+    /** Song submissions, imports and corrections: 5 every 10 minutes */
+    songs: createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 }),
+    /** Arrangement saves and deletes: 20 every 10 minutes */
+    arrangements: createRateLimiter({ limit: 20, windowMs: 10 * 60 * 1000 }),
+    /** New setlists: 10 every 10 minutes */
+    setlists: createRateLimiter({ limit: 10, windowMs: 10 * 60 * 1000 }),
+    /** Live sessions started: 10 an hour */
+    liveSessions: createRateLimiter({ limit: 10, windowMs: 60 * 60 * 1000 }),
+};
+
+/**
+ * Fetches live search suggestions for the SearchBar dropdown.
+ * 
+ * @param query - The search query string (may use advanced syntax)
+ * @returns Up to 5 matching songs, plus the query text to highlight in them
+ */
+export async function searchSuggestionsAction(
+    query: string
+): Promise<{ songs: Song[]; highlight: string }> {
+    return {
+        songs: await searchSongsSuggestions(query),
+        highlight: searchHighlightText(query),
+    };
+}
+
+/**
+ * Checks a song being typed into the AddSongForm for likely duplicates.
+ * 
+ * @param draft - The title and lyrics entered so far (untrusted)
+ * @returns Existing songs that look like the same song, closest first
+ */
+export async function findDuplicatesAction(draft: { title: string; lyrics: string }): Promise<DuplicateMatch[]> {
+    if (typeof draft?.title !== "string" || typeof draft?.lyrics !== "string") return [];
+
+    return findDuplicateSongs({
+        title: draft.title.slice(0, SUBMISSION_LIMITS.title),
+        lyrics: draft.lyrics.slice(0, SUBMISSION_LIMITS.lyrics),
+    });
+}
+
+/** Song fields sent by the Add Song and Suggest a Correction forms */
+interface SongFormInput {
+    title: string;
+    artist: string;
+    lyrics: string;
+    language: string;
+    [HONEYPOT_FIELD]?: string;
+}
+
+/** Response to a song form, with the likely duplicates when there are any */
+type SubmissionResponse = { success: boolean; error?: string; duplicates?: DuplicateMatch[] };
+
+/** Whether a bot filled in the form's honeypot field */
+function filledHoneypot(input: unknown): boolean {
+    return Boolean(input && typeof input === "object" && (input as Record<string, unknown>)[HONEYPOT_FIELD]);
+}
+
+/**
+ * Checks who is submitting, before looking at what they sent:
+ * 1. The honeypot field is empty (bots get a fake success and nothing is stored)
+ * 2. The client IP is under the rate limit for this kind of action
+ * 
+ * @param input - The form data (untrusted)
+ * @param limiter - The rate limit to count this request towards (one of `limiters`)
+ * @returns The response to send back instead, or null to carry on
+ */
+async function checkSender(input: unknown, limiter: RateLimiter): Promise<{ success: boolean; error?: string } | null> {
+    // Honeypot filled in: pretend it worked so the bot doesn't retry
+    if (filledHoneypot(input)) return { success: true };
+
+    const { allowed, retryAfter } = limiter.check(await clientIp());
+    if (!allowed) {
+        return {
+            success: false,
+            error: `Too many submissions. Please try again in ${Math.ceil(retryAfter / 60)} minute(s).`,
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Runs the checks shared by every public song form: the honeypot, that
+ * the fields have the right types, lengths and language, any checks
+ * of the form's own, and only then the rate limit (see checkSender), so
+ * a submission that is sent back to be fixed doesn't use up the limit.
+ * 
+ * @param input - The form data (untrusted)
+ * @param check - The form's own checks on the validated submission
+ *   (returns the response to send back instead, or null to carry on)
+ * @returns The validated submission, or the response to send back instead
+ */
+async function checkSubmission(
+    input: unknown,
+    check?: (submission: SongSubmission) => Promise<SubmissionResponse | null>
+): Promise<{ submission: SongSubmission } | { response: SubmissionResponse }> {
+    if (filledHoneypot(input)) return { response: { success: true } };
+
+    const { submission, errors } = validateSongSubmission(input);
+    if (!submission) {
+        return { response: { success: false, error: errors.join(". ") } };
+    }
+
+    const checked = check && (await check(submission));
+    if (checked) return { response: checked };
+
+    const response = await checkSender(input, limiters.songs);
+    if (response) return { response };
+
+    return { submission };
+}
+
+/**
+ * Submits a new song from the AddSongForm.
+ * 
+ * Likely duplicates are checked again here, in case the form's check
+ * while typing was skipped or is out of date. The song is only stored
+ * once the contributor has confirmed every match is a different song;
+ * until then, the submission doesn't count towards the rate limit.
+ * 
+ * @param song - The song data entered in the form (untrusted)
+ * @param confirmedDifferent - IDs of the matches the contributor confirmed are different songs
+ * @returns Object with success status and optional error message;
+ *   when unconfirmed duplicates are found, they are returned too
+ */
+export async function addSongAction(
+    song: SongFormInput,
+    confirmedDifferent: number[] = []
+): Promise<{ success: boolean; error?: string; duplicates?: DuplicateMatch[] }> {
+    const checked = await checkSubmission(song, (submission) => unconfirmedDuplicates(submission, confirmedDifferent));
+    if ("response" in checked) return checked.response;
+
+    return addSong(checked.submission);
+}
+
+/**
+ * Looks for songs already in the library that a submission may duplicate
+ * and the contributor hasn't confirmed are different.
+ * 
+ * @param submission - The validated song
+ * @param confirmedDifferent - IDs of matches confirmed as different songs (untrusted)
+ * @returns The response listing the duplicates, or null if there are none
+ */
+async function unconfirmedDuplicates(
+    submission: SongSubmission,
+    confirmedDifferent: unknown
+): Promise<{ success: false; error: string; duplicates: DuplicateMatch[] } | null> {
+    const confirmed = Array.isArray(confirmedDifferent) ? confirmedDifferent : [];
+    const duplicates = await findDuplicateSongs(submission);
+    if (!duplicates.some((match) => !confirmed.includes(match.song.id))) return null;
+
+    return {
+        success: false,
+        error: "This song may already be in the library. Check the similar songs below.",
+        duplicates,
+    };
+}
+
+/**
+ * Adds a validated song unless it looks like a song already in the
+ * library that the contributor hasn't confirmed is different.
+ * 
+ * @param submission - The validated song
+ * @param confirmedDifferent - IDs of matches confirmed as different songs (untrusted)
+ * @returns The addSong result, or the unconfirmed duplicates
+ */
+async function addUnlessDuplicate(
+    submission: SongSubmission,
+    confirmedDifferent: unknown
+): Promise<{ success: boolean; error?: string; duplicates?: DuplicateMatch[] }> {
+    return (await unconfirmedDuplicates(submission, confirmedDifferent)) ?? addSong(submission);
+}
+
+/**
+ * Submits the songs read from files on the import page.
+ * 
+ * Each song goes through the same validation and duplicate check as
+ * the Add Song form, but the whole import counts as one submission
+ * towards the rate limit (up to IMPORT_BATCH_LIMIT songs).
+ * 
+ * @param songs - The songs to add, each with the matches confirmed as different (untrusted)
+ * @param honeypot - The import form's honeypot field
+ * @returns Overall success, plus one result per song in the same order
+ */
+export async function importSongsAction(
+    songs: Array<{ song: SongFormInput; confirmedDifferent: number[] }>,
+    honeypot = ""
+): Promise<{
+    success: boolean;
+    error?: string;
+    results?: Array<{ success: boolean; error?: string; duplicates?: DuplicateMatch[] }>;
+}> {
+    if (!Array.isArray(songs) || songs.length === 0) {
+        return { success: false, error: "No songs to import" };
+    }
+    if (songs.length > IMPORT_BATCH_LIMIT) {
+        return { success: false, error: `Too many songs: import up to ${IMPORT_BATCH_LIMIT} at a time` };
+    }
+
+    const response = await checkSender({ [HONEYPOT_FIELD]: honeypot }, limiters.songs);
+    if (response) return response.success ? { success: true, results: songs.map(() => response) } : response;
+
+    // One at a time, so a later song is checked against the ones just added
+    const results = [];
+    for (const entry of songs) {
+        const { submission, errors } = validateSongSubmission(entry?.song);
+        results.push(
+            submission
+                ? await addUnlessDuplicate(submission, entry.confirmedDifferent)
+                : { success: false, error: errors.join(". ") }
+        );
+    }
+
+    return { success: true, results };
+}
+
+/**
+ * Submits a suggested correction from the SuggestCorrectionForm.
+ * It's stored as a pending revision for moderators to review.
+ * 
+ * @param songId - The song being corrected
+ * @param song - The corrected song data (untrusted)
+ * @param summary - What was changed, in the contributor's words
+ * @returns Object with success status and optional error message
+ */
+export async function suggestCorrectionAction(
+    songId: number,
+    song: SongFormInput,
+    summary: string
+): Promise<{ success: boolean; error?: string }> {
+    const checked = await checkSubmission(song);
+    if ("response" in checked) return checked.response;
+
+    if (!Number.isInteger(songId) || typeof summary !== "string") {
+        return { success: false, error: "Invalid correction" };
+    }
+
+    return suggestCorrection(songId, checked.submission, summary);
+}
+
+/**
+ * Saves a named arrangement from the ArrangementEditor on the song page.
+ * Replacing an existing arrangement needs its edit key, or a moderator.
+ * 
+ * @param songId - The song being arranged
+ * @param name - The arrangement's name (untrusted)
+ * @param text - The arrangement as typed, e.g. "V1 C V2 C x2" (untrusted)
+ * @param editKey - The key this device saved the arrangement with, if any (untrusted)
+ * @param honeypot - The editor's honeypot field
+ * @returns Object with success status and optional error message;
+ *   a new arrangement's edit key is returned too
+ */
+export async function saveArrangementAction(
+    songId: number,
+    name: string,
+    text: string,
+    editKey: string | null,
+    honeypot = ""
+): Promise<ArrangementResult> {
+    if (!Number.isInteger(songId) || typeof name !== "string" || typeof text !== "string") {
+        return { success: false, error: "Invalid arrangement" };
+    }
+
+    const response = await checkSender({ [HONEYPOT_FIELD]: honeypot }, limiters.arrangements);
+    if (response) return response;
+
+    return saveArrangement(songId, name, text.slice(0, SUBMISSION_LIMITS.lyrics), {
+        editKey,
+        moderator: await isModerator(),
+    });
+}
+
+/**
+ * Deletes a named arrangement from the ArrangementEditor on the song page.
+ * Needs the arrangement's edit key, or a moderator.
+ * 
+ * @param songId - The song
+ * @param name - The arrangement's name (untrusted)
+ * @param editKey - The key this device saved the arrangement with, if any (untrusted)
+ * @param honeypot - The editor's honeypot field
+ * @returns Object with success status and optional error message
+ */
+export async function deleteArrangementAction(
+    songId: number,
+    name: string,
+    editKey: string | null,
+    honeypot = ""
+): Promise<ArrangementResult> {
+    if (!Number.isInteger(songId) || typeof name !== "string") {
+        return { success: false, error: "Invalid arrangement" };
+    }
+
+    const response = await checkSender({ [HONEYPOT_FIELD]: honeypot }, limiters.arrangements);
+    if (response) return response;
+
+    return deleteArrangement(songId, name, { editKey, moderator: await isModerator() });
+}
+
+/**
+ * Fetches songs for the setlist builder, with their arrangements.
+ * Songs that don't exist are left out.
+ * 
+ * @param songIds - The songs in the setlist (untrusted)
+ * @returns The songs found, in the same order
+ */
+export async function getSetlistSongsAction(
+    songIds: number[]
+): Promise<Array<{ song: Song; arrangements: SongArrangement[] }>> {
+    if (!Array.isArray(songIds)) return [];
+
+    const results = [];
+    for (const id of songIds.filter(Number.isInteger).slice(0, SETLIST_LIMITS.items)) {
+        const song = await getSongById(String(id));
+        if (song) results.push({ song, arrangements: await getArrangements(song.id) });
+    }
+    return results;
+}
+
+/**
+ * Saves a setlist from the setlist builder.
+ * 
+ * A new setlist counts towards the setlist rate limit; saving
+ * changes to one with its edit key doesn't.
+ * 
+ * @param setlist - The setlist (untrusted)
+ * @param saved - The ID and edit key of the setlist being changed, or null to save a new one
+ * @param honeypot - The builder's honeypot field
+ * @returns The setlist's ID (and, when new, its edit key), or an error message
+ */
+export async function saveSetlistAction(
+    setlist: unknown,
+    saved: { id: string; editKey: string } | null,
+    honeypot = ""
+): Promise<SetlistResult> {
+    const { setlist: submission, errors } = validateSetlist(setlist);
+    if (!submission) return { success: false, error: errors.join(". ") };
+
+    if (saved) {
+        if (typeof saved.id !== "string" || typeof saved.editKey !== "string") {
+            return { success: false, error: "Invalid setlist" };
+        }
+        return updateSetlist(saved.id, saved.editKey, submission);
+    }
+
+    const response = await checkSender({ [HONEYPOT_FIELD]: honeypot }, limiters.setlists);
+    if (response) return response;
+
+    return createSetlist(submission);
+}
+
+/**
+ * Starts a live session from presenter mode.
+ * Starting one counts towards the live session rate limit.
+ * 
+ * @returns The session's ID and control key, or an error message
+ */
+export async function startLiveSessionAction(): Promise<LiveSessionResult> {
+    const response = await checkSender({}, limiters.liveSessions);
+    if (response) return response;
+
+    return startLiveSession();
+}
+
+/**
+ * Sends the presenter's position to the phones following a live session.
+ * 
+ * @param id - The session
+ * @param controlKey - The key returned when the session started
+ * @param position - Where the presenter is (untrusted)
+ * @returns Object with success status and optional error message
+ */
+export async function updateLiveSessionAction(
+    id: string,
+    controlKey: string,
+    position: unknown
+): Promise<LiveSessionResult> {
+    const valid = validatePosition(position);
+    if (typeof id !== "string" || !valid) return { success: false, error: "Invalid position" };
+
+    return updateLiveSession(id, controlKey, valid);
+}
+
+/**
+ * Ends a live session.
+ * 
+ * @param id - The session
+ * @param controlKey - The key returned when the session started
+ * @returns Object with success status and optional error message
+ */
+export async function endLiveSessionAction(id: string, controlKey: string): Promise<LiveSessionResult> {
+    if (typeof id !== "string") return { success: false, error: "Invalid session" };
+
+    return endLiveSession(id, controlKey);
+}
@@ -7,8 +7,8 @@
  * This page allows community members to contribute worship lyrics.
  * Submitted songs are marked as unverified by default.
  * 
- * The form includes special character buttons for Twi (ɛ, ɔ, ŋ)
- * to help users without Twi keyboards.
+ * The form includes special character buttons for the selected language
+ * (e.g. ɛ, ɔ, ŋ for Twi) to help users without those keyboards.
  */
 
 import Link from "next/link";
@@ -63,6 +63,14 @@ export default function AddSongPage() {
                 <div className="card p-6 md:p-8">
                     <AddSongForm />
                 </div>
+
+                {/* Link to bulk import */}
+                <p className="text-sm text-center text-[var(--muted)] mt-6">
+                    Have songs in OpenLP or FreeShow?{" "}
+                    <Link href="/import" className="text-[var(--accent)] hover:underline">
+                        Import OpenLyrics files
+                    </Link>
+                </p>
             </main>
         </div>
     );
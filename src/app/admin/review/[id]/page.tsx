@@ -0,0 +1,172 @@
+/**
+ * @file page.tsx (Review Song)
+ * @description Moderator view of one submitted song.
+ * 
+ * Route: /admin/review/[id]
+ * 
+ * The moderator can correct the title, artist, language and lyrics,
+ * then approve the song (which publishes it as verified), or reject
+ * it with a reason (which hides it from the site). Rejected songs
+ * can be reopened here and approved later.
+ */
+
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { isModerator } from "@/lib/adminAuth";
+import { getSongForReview } from "@/lib/moderation";
+import { getReviewStatus } from "@/lib/songs";
+import { LANGUAGES } from "@/lib/languages";
+import { approveAction, rejectAction } from "../actions";
+
+/** Keep the admin area out of search engines */
+export const metadata: Metadata = {
+    title: "Review Song",
+    robots: { index: false, follow: false },
+};
+
+/** Page props with dynamic route parameter and error message */
+interface PageProps {
+    params: Promise<{ id: string }>;
+    searchParams: Promise<{ error?: string }>;
+}
+
+/** Shared classes for the form inputs */
+const inputClassName =
+    "w-full px-4 py-3 rounded-lg bg-[var(--background)] border border-[var(--border)] focus:border-[var(--accent)] focus:outline-none transition-colors";
+
+/**
+ * Review song page component.
+ * 
+ * This is a Server Component that:
+ * 1. Sends signed-out visitors back to the sign-in form
+ * 2. Fetches the song (404 if not found)
+ * 3. Renders the edit + approve form and the reject form
+ * 
+ * @param params - Route parameters (contains 'id')
+ * @param searchParams - URL search parameters (contains 'error' after a failed action)
+ */
+export default async function ReviewSongPage({ params, searchParams }: PageProps) {
+    if (!(await isModerator())) {
+        redirect("/admin/review");
+    }
+
+    const { id } = await params;
+    const { error } = await searchParams;
+    const song = await getSongForReview(id);
+
+    if (!song) {
+        notFound();
+    }
+
+    const status = getReviewStatus(song);
+
+    return (
+        <div className="min-h-screen gradient-bg">
+            {/* Header with Logo and Theme Toggle */}
+            <header className="flex items-center justify-between p-4 md:p-6">
+                <Link
+                    href="/"
+                    className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+                >
+                    <span
+                        className="text-2xl font-bold"
+                        style={{ fontFamily: "var(--font-outfit)" }}
+                    >
+                        <span className="text-[var(--accent)]">1</span>co18
+                    </span>
+                </Link>
+                <ThemeToggle />
+            </header>
+
+            <main className="max-w-2xl mx-auto px-4 md:px-6 pb-12">
+                {/* Back to Queue */}
+                <Link
+                    href="/admin/review"
+                    className="inline-block text-sm text-[var(--muted)] hover:text-[var(--accent)] mb-4"
+                >
+                    ← Review queue
+                </Link>
+
+                {/* Song Status */}
+                <h1
+                    className="text-3xl font-bold mb-2"
+                    style={{ fontFamily: "var(--font-outfit)" }}
+                >
+                    Review song #{song.id}
+                </h1>
+                <p className="text-[var(--muted)] mb-6">
+                    Submitted {new Date(song.created_at).toLocaleString()} · <span className="capitalize">{status}</span>
+                    {song.rejection_reason && <> · Reason: {song.rejection_reason}</>}
+                </p>
+
+                {/* Error from the last action */}
+                {error && (
+                    <p className="card p-4 mb-6 text-sm text-red-500">{error}</p>
+                )}
+
+                {/* Edit and Approve */}
+                <form action={approveAction} className="card p-6 space-y-4 mb-6">
+                    <input type="hidden" name="id" value={song.id} />
+
+                    <div>
+                        <label htmlFor="title" className="block text-sm font-medium mb-2">Title</label>
+                        <input id="title" name="title" defaultValue={song.title} required className={inputClassName} />
+                    </div>
+
+                    <div>
+                        <label htmlFor="artist" className="block text-sm font-medium mb-2">Artist</label>
+                        <input id="artist" name="artist" defaultValue={song.artist ?? ""} className={inputClassName} />
+                    </div>
+
+                    <div>
+                        <label htmlFor="language" className="block text-sm font-medium mb-2">Language</label>
+                        <select id="language" name="language" defaultValue={song.language} className={inputClassName}>
+                            {LANGUAGES.map((language) => (
+                                <option key={language} value={language}>{language}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label htmlFor="lyrics" className="block text-sm font-medium mb-2">Lyrics</label>
+                        <textarea
+                            id="lyrics"
+                            name="lyrics"
+                            defaultValue={song.lyrics}
+                            required
+                            rows={16}
+                            className={`${inputClassName} font-mono text-sm`}
+                        />
+                    </div>
+
+                    <button type="submit" className="btn-primary w-full py-3 rounded-lg font-medium">
+                        {status === "approved" ? "Save changes" : "Approve and publish"}
+                    </button>
+                </form>
+
+                {/* Reject with Reason */}
+                {status !== "rejected" && (
+                    <form action={rejectAction} className="card p-6 space-y-4">
+                        <input type="hidden" name="id" value={song.id} />
+                        <label htmlFor="reason" className="block text-sm font-medium">
+                            Reason for rejecting
+                        </label>
+                        <textarea
+                            id="reason"
+                            name="reason"
+                            required
+                            rows={2}
+                            placeholder="e.g. Duplicate of an existing song, incomplete lyrics..."
+                            className={inputClassName}
+                        />
+                        <button type="submit" className="btn-secondary w-full py-3 rounded-lg font-medium">
+                            Reject
+                        </button>
+                    </form>
+                )}
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,144 @@
+/**
+ * @file actions.ts (Admin Review)
+ * @description Server actions behind the moderation forms.
+ * 
+ * The review pages are plain HTML forms, so every action reads its
+ * input from FormData and finishes with a redirect. Errors and
+ * confirmations are passed back in the URL (?error=, ?done=).
+ * Every action re-checks the moderator cookie.
+ */
+
+"use server";
+
+import { redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import { isModerator, signInModerator, signOutModerator } from "@/lib/adminAuth";
+import { approveSong, rejectSong } from "@/lib/moderation";
+import { approveCorrection, rejectCorrection, rollbackSong } from "@/lib/revisions";
+
+/** Reads a text field from a submitted form ("" if missing) */
+function field(formData: FormData, name: string): string {
+    const value = formData.get(name);
+    return typeof value === "string" ? value : "";
+}
+
+/** Sends anyone who isn't signed in back to the sign-in form */
+async function requireModerator(): Promise<void> {
+    if (!(await isModerator())) redirect("/admin/review");
+}
+
+/**
+ * Signs a moderator in from the sign-in form.
+ * 
+ * @param formData - Form data with a "password" field
+ */
+export async function signInAction(formData: FormData): Promise<void> {
+    const result = await signInModerator(field(formData, "password"));
+    if (result === "too-many-attempts") redirect("/admin/review?error=attempts");
+    redirect(result === "signed-in" ? "/admin/review" : "/admin/review?error=password");
+}
+
+/** Signs the current moderator out */
+export async function signOutAction(): Promise<void> {
+    await signOutModerator();
+    redirect("/admin/review");
+}
+
+/**
+ * Saves a moderator's corrections and approves the song.
+ * 
+ * @param formData - Form data with id, title, artist, lyrics and language fields
+ */
+export async function approveAction(formData: FormData): Promise<void> {
+    await requireModerator();
+
+    const id = Number(field(formData, "id"));
+    const result = await approveSong(id, {
+        title: field(formData, "title"),
+        artist: field(formData, "artist"),
+        lyrics: field(formData, "lyrics"),
+        language: field(formData, "language"),
+    });
+
+    if (!result.success) {
+        redirect(`/admin/review/${id}?error=${encodeURIComponent(result.error || "Approve failed")}`);
+    }
+
+    revalidatePath("/", "layout");
+    redirect("/admin/review?done=approved");
+}
+
+/**
+ * Rejects a song with the reason given by the moderator.
+ * 
+ * @param formData - Form data with id and reason fields
+ */
+export async function rejectAction(formData: FormData): Promise<void> {
+    await requireModerator();
+
+    const id = Number(field(formData, "id"));
+    const result = await rejectSong(id, field(formData, "reason"));
+
+    if (!result.success) {
+        redirect(`/admin/review/${id}?error=${encodeURIComponent(result.error || "Reject failed")}`);
+    }
+
+    revalidatePath("/", "layout");
+    redirect("/admin/review?done=rejected");
+}
+
+/**
+ * Approves a suggested correction, publishing it to the song.
+ * 
+ * @param formData - Form data with the revision id
+ */
+export async function approveCorrectionAction(formData: FormData): Promise<void> {
+    await requireModerator();
+
+    const id = Number(field(formData, "id"));
+    const result = await approveCorrection(id);
+
+    if (!result.success) {
+        redirect(`/admin/review/corrections/${id}?error=${encodeURIComponent(result.error || "Approve failed")}`);
+    }
+
+    revalidatePath("/", "layout");
+    redirect("/admin/review?status=corrections&done=approved");
+}
+
+/**
+ * Rejects a suggested correction with the moderator's reason.
+ * 
+ * @param formData - Form data with the revision id and reason
+ */
+export async function rejectCorrectionAction(formData: FormData): Promise<void> {
+    await requireModerator();
+
+    const id = Number(field(formData, "id"));
+    const result = await rejectCorrection(id, field(formData, "reason"));
+
+    if (!result.success) {
+        redirect(`/admin/review/corrections/${id}?error=${encodeURIComponent(result.error || "Reject failed")}`);
+    }
+
+    redirect("/admin/review?status=corrections&done=rejected");
+}
+
+/**
+ * Rolls a song back to an earlier version from its history page.
+ * 
+ * @param formData - Form data with songId and revisionId
+ */
+export async function rollbackAction(formData: FormData): Promise<void> {
+    await requireModerator();
+
+    const songId = Number(field(formData, "songId"));
+    const result = await rollbackSong(songId, Number(field(formData, "revisionId")));
+
+    if (!result.success) {
+        redirect(`/song/${songId}/history?error=${encodeURIComponent(result.error || "Rollback failed")}`);
+    }
+
+    revalidatePath("/", "layout");
+    redirect(`/song/${songId}/history?done=rollback`);
+}
@@ -0,0 +1,144 @@
+/**
+ * @file page.tsx (Review Correction)
+ * @description Moderator view of one suggested correction.
+ * 
+ * Route: /admin/review/corrections/[id]
+ * 
+ * Shows a line diff between the song as it is now and the suggested
+ * version. The moderator can approve it (publishing the new version
+ * and adding it to the song's history) or reject it with a reason.
+ */
+
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { LineDiff } from "@/components/LineDiff";
+import { isModerator } from "@/lib/adminAuth";
+import { getCorrection } from "@/lib/revisions";
+import { approveCorrectionAction, rejectCorrectionAction } from "../../actions";
+
+/** Keep the admin area out of search engines */
+export const metadata: Metadata = {
+    title: "Review Correction",
+    robots: { index: false, follow: false },
+};
+
+/** Page props with dynamic route parameter and error message */
+interface PageProps {
+    params: Promise<{ id: string }>;
+    searchParams: Promise<{ error?: string }>;
+}
+
+/**
+ * Review correction page component.
+ * 
+ * This is a Server Component that:
+ * 1. Sends signed-out visitors back to the sign-in form
+ * 2. Fetches the correction and its song (404 if not found)
+ * 3. Renders the diff with approve and reject forms
+ * 
+ * @param params - Route parameters (contains 'id')
+ * @param searchParams - URL search parameters (contains 'error' after a failed action)
+ */
+export default async function ReviewCorrectionPage({ params, searchParams }: PageProps) {
+    if (!(await isModerator())) {
+        redirect("/admin/review");
+    }
+
+    const { id } = await params;
+    const { error } = await searchParams;
+    const correction = await getCorrection(id);
+
+    if (!correction) {
+        notFound();
+    }
+
+    const { revision, song } = correction;
+
+    return (
+        <div className="min-h-screen gradient-bg">
+            {/* Header with Logo and Theme Toggle */}
+            <header className="flex items-center justify-between p-4 md:p-6">
+                <Link
+                    href="/"
+                    className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+                >
+                    <span
+                        className="text-2xl font-bold"
+                        style={{ fontFamily: "var(--font-outfit)" }}
+                    >
+                        <span className="text-[var(--accent)]">1</span>co18
+                    </span>
+                </Link>
+                <ThemeToggle />
+            </header>
+
+            <main className="max-w-3xl mx-auto px-4 md:px-6 pb-12">
+                {/* Back to Queue */}
+                <Link
+                    href="/admin/review?status=corrections"
+                    className="inline-block text-sm text-[var(--muted)] hover:text-[var(--accent)] mb-4"
+                >
+                    ← Corrections
+                </Link>
+
+                {/* Correction Summary */}
+                <h1
+                    className="text-3xl font-bold mb-2"
+                    style={{ fontFamily: "var(--font-outfit)" }}
+                >
+                    Correction to{" "}
+                    <Link href={`/song/${song.id}`} className="hover:text-[var(--accent)]">
+                        {song.title}
+                    </Link>
+                </h1>
+                <p className="text-[var(--muted)] mb-6">
+                    Suggested {new Date(revision.created_at).toLocaleString()} ·{" "}
+                    <span className="capitalize">{revision.status}</span>
+                    {revision.summary && <> · &quot;{revision.summary}&quot;</>}
+                    {revision.rejection_reason && <> · Reason: {revision.rejection_reason}</>}
+                </p>
+
+                {/* Error from the last action */}
+                {error && (
+                    <p className="card p-4 mb-6 text-sm text-red-500">{error}</p>
+                )}
+
+                {/* Diff against the current song */}
+                <div className="card p-4 md:p-6 mb-6">
+                    <LineDiff before={song} after={revision} />
+                </div>
+
+                {/* Approve / Reject (pending corrections only) */}
+                {revision.status === "pending" && (
+                    <div className="grid sm:grid-cols-2 gap-4">
+                        <form action={approveCorrectionAction} className="card p-6 flex flex-col justify-end">
+                            <input type="hidden" name="id" value={revision.id} />
+                            <button type="submit" className="btn-primary w-full py-3 rounded-lg font-medium">
+                                Approve and publish
+                            </button>
+                        </form>
+
+                        <form action={rejectCorrectionAction} className="card p-6 space-y-3">
+                            <input type="hidden" name="id" value={revision.id} />
+                            <label htmlFor="reason" className="block text-sm font-medium">
+                                Reason for rejecting
+                            </label>
+                            <textarea
+                                id="reason"
+                                name="reason"
+                                required
+                                rows={2}
+                                className="w-full px-4 py-3 rounded-lg bg-[var(--background)] border border-[var(--border)] focus:border-[var(--accent)] focus:outline-none transition-colors"
+                            />
+                            <button type="submit" className="btn-secondary w-full py-3 rounded-lg font-medium">
+                                Reject
+                            </button>
+                        </form>
+                    </div>
+                )}
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,218 @@
+/**
+ * @file page.tsx (Review Queue)
+ * @description Moderator queue of songs waiting for review.
+ * 
+ * Route: /admin/review?status=<pending|corrections|rejected>
+ * 
+ * Signed-out visitors see a password form (see adminAuth.ts).
+ * Signed-in moderators see the pending songs, oldest first, and can
+ * switch to suggested corrections or to the rejected songs to
+ * reconsider them. Each song links to /admin/review/[id] where it can
+ * be edited, approved or rejected; each correction links to
+ * /admin/review/corrections/[id] where its diff can be reviewed.
+ */
+
+import Link from "next/link";
+import type { Metadata } from "next";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { isModerationConfigured, isModerator } from "@/lib/adminAuth";
+import { getSongsForReview } from "@/lib/moderation";
+import { getPendingCorrections } from "@/lib/revisions";
+import { signInAction, signOutAction } from "./actions";
+
+/** Keep the admin area out of search engines */
+export const metadata: Metadata = {
+    title: "Review Queue",
+    robots: { index: false, follow: false },
+};
+
+/** Page props with search params from URL */
+interface PageProps {
+    searchParams: Promise<{ status?: string; error?: string; done?: string }>;
+}
+
+/**
+ * Password form shown to visitors who aren't signed in.
+ * 
+ * @param error - Why the last attempt failed ("password" or "attempts"), if it did
+ */
+function SignInForm({ error }: { error?: string }) {
+    if (!isModerationConfigured()) {
+        return (
+            <p className="card p-6 text-[var(--muted)]">
+                Moderation is disabled. Set <code>MODERATOR_PASSWORD</code> on the server to enable it.
+            </p>
+        );
+    }
+
+    return (
+        <form action={signInAction} className="card p-6 space-y-4 max-w-sm">
+            <label htmlFor="password" className="block text-sm font-medium">
+                Moderator password
+            </label>
+            <input
+                id="password"
+                name="password"
+                type="password"
+                required
+                autoFocus
+                className="w-full px-4 py-3 rounded-lg bg-[var(--background)] border border-[var(--border)] focus:border-[var(--accent)] focus:outline-none transition-colors"
+            />
+            {/* Failed Sign-In Message */}
+            {error === "password" && <p className="text-sm text-red-500">Wrong password</p>}
+            {error === "attempts" && (
+                <p className="text-sm text-red-500">Too many sign-in attempts. Please try again in 15 minutes.</p>
+            )}
+            <button type="submit" className="btn-primary w-full py-2 rounded-lg font-medium">
+                Sign in
+            </button>
+        </form>
+    );
+}
+
+/**
+ * Review queue page component.
+ * 
+ * This is a Server Component that:
+ * 1. Checks the moderator cookie (shows the sign-in form if missing)
+ * 2. Lists pending songs, suggested corrections or rejected songs
+ * 3. Shows a confirmation after approving or rejecting a song or correction
+ * 
+ * @param searchParams - URL search parameters
+ */
+export default async function ReviewQueuePage({ searchParams }: PageProps) {
+    const params = await searchParams;
+    const signedIn = await isModerator();
+    const status = params.status === "rejected" || params.status === "corrections" ? params.status : "pending";
+    const songs = signedIn && status !== "corrections" ? await getSongsForReview(status) : [];
+    const corrections = signedIn && status === "corrections" ? await getPendingCorrections() : [];
+
+    return (
+        <div className="min-h-screen gradient-bg">
+            {/* Header with Logo, Sign Out and Theme Toggle */}
+            <header className="flex items-center justify-between p-4 md:p-6">
+                <Link
+                    href="/"
+                    className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+                >
+                    <span
+                        className="text-2xl font-bold"
+                        style={{ fontFamily: "var(--font-outfit)" }}
+                    >
+                        <span className="text-[var(--accent)]">1</span>co18
+                    </span>
+                </Link>
+                <div className="flex items-center gap-3">
+                    {signedIn && (
+                        <form action={signOutAction}>
+                            <button type="submit" className="text-sm text-[var(--muted)] hover:text-[var(--accent)]">
+                                Sign out
+                            </button>
+                        </form>
+                    )}
+                    <ThemeToggle />
+                </div>
+            </header>
+
+            <main className="max-w-3xl mx-auto px-4 md:px-6 pb-12">
+                {/* Page Title */}
+                <h1
+                    className="text-3xl md:text-4xl font-bold mb-6"
+                    style={{ fontFamily: "var(--font-outfit)" }}
+                >
+                    Review queue
+                </h1>
+
+                {!signedIn ? (
+                    <SignInForm error={params.error} />
+                ) : (
+                    <>
+                        {/* Confirmation after a review */}
+                        {params.done && (
+                            <p className="card p-4 mb-6 text-sm">
+                                {status === "corrections" ? "Correction" : "Song"}{" "}
+                                {params.done === "approved" ? "approved and published" : "rejected"}.
+                            </p>
+                        )}
+
+                        {/* Status Tabs */}
+                        <nav className="flex gap-4 mb-6 text-sm font-medium">
+                            {(["pending", "corrections", "rejected"] as const).map((tab) => (
+                                <Link
+                                    key={tab}
+                                    href={tab === "pending" ? "/admin/review" : `/admin/review?status=${tab}`}
+                                    className={`capitalize ${status === tab ? "text-[var(--accent)] underline underline-offset-4" : "text-[var(--muted)] hover:text-[var(--accent)]"}`}
+                                >
+                                    {tab}
+                                </Link>
+                            ))}
+                        </nav>
+
+                        {/* Correction List */}
+                        {status === "corrections" ? (
+                            corrections.length > 0 ? (
+                                <ul className="space-y-3">
+                                    {corrections.map(({ revision, song }) => (
+                                        <li key={revision.id}>
+                                            <Link
+                                                href={`/admin/review/corrections/${revision.id}`}
+                                                className="card block p-4 hover:border-[var(--accent)] transition-colors"
+                                            >
+                                                <div className="flex items-center justify-between gap-3">
+                                                    <span className="font-medium" style={{ fontFamily: "var(--font-outfit)" }}>
+                                                        {song.title}
+                                                    </span>
+                                                    <span className="text-xs text-[var(--muted)] whitespace-nowrap">
+                                                        {new Date(revision.created_at).toLocaleDateString()}
+                                                    </span>
+                                                </div>
+                                                <div className="text-sm text-[var(--muted)]">
+                                                    {revision.summary || "No summary given"}
+                                                </div>
+                                            </Link>
+                                        </li>
+                                    ))}
+                                </ul>
+                            ) : (
+                                // Empty State
+                                <p className="text-center text-[var(--muted)] py-12">No corrections waiting for review 🎉</p>
+                            )
+                        ) : songs.length > 0 ? (
+                            <ul className="space-y-3">
+                                {songs.map((song) => (
+                                    <li key={song.id}>
+                                        <Link
+                                            href={`/admin/review/${song.id}`}
+                                            className="card block p-4 hover:border-[var(--accent)] transition-colors"
+                                        >
+                                            <div className="flex items-center justify-between gap-3">
+                                                <span className="font-medium" style={{ fontFamily: "var(--font-outfit)" }}>
+                                                    {song.title}
+                                                </span>
+                                                <span className="text-xs text-[var(--muted)] whitespace-nowrap">
+                                                    {new Date(song.created_at).toLocaleDateString()}
+                                                </span>
+                                            </div>
+                                            <div className="text-sm text-[var(--muted)]">
+                                                {song.artist || "Unknown artist"} · {song.language}
+                                            </div>
+                                            {/* Rejection Reason */}
+                                            {song.rejection_reason && (
+                                                <div className="text-sm mt-1">Reason: {song.rejection_reason}</div>
+                                            )}
+                                        </Link>
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : (
+                            // Empty State
+                            <p className="text-center text-[var(--muted)] py-12">
+                                {status === "pending" ? "Nothing waiting for review 🎉" : "No rejected songs."}
+                            </p>
+                        )}
+                    </>
+                )}
+            </main>
+        </div>
+    );
+}
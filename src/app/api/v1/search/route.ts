@@ -0,0 +1,49 @@
+/**
+ * @file route.ts
+ * @description GET /api/v1/search - songs matching a search query, best match first.
+ * 
+ * Query parameters:
+ * - q: the search query (required; supports the advanced syntax, see parseSearchQuery)
+ * - language: only songs in this language (name or code, e.g. "Ga" or "gaa")
+ * - page: 1-based page number
+ * - format / slides: add formatted text to each song (see lib/api.ts)
+ * 
+ * Response: { query, songs: Song[], pagination: { page, pageSize, total, pageCount } }
+ */
+
+import { searchSongs, SEARCH_PAGE_SIZE } from "@/lib/songs";
+import {
+    apiError,
+    apiJson,
+    apiOptions,
+    apiPagination,
+    parseApiLanguage,
+    parseApiOutput,
+    parseApiPage,
+    songsForList,
+} from "@/lib/api";
+
+export async function GET(request: Request) {
+    const params = new URL(request.url).searchParams;
+
+    const query = params.get("q")?.trim();
+    if (!query) return apiError(400, 'Missing search query: add "?q=..."');
+
+    const output = parseApiOutput(params);
+    if ("error" in output) return apiError(400, output.error);
+
+    const filter = parseApiLanguage(params);
+    if ("error" in filter) return apiError(400, filter.error);
+
+    const results = await searchSongs(query, { language: filter.language }, parseApiPage(params));
+
+    return apiJson(request, {
+        query,
+        songs: songsForList(results.songs, output),
+        pagination: apiPagination(results, SEARCH_PAGE_SIZE),
+    });
+}
+
+export function OPTIONS() {
+    return apiOptions();
+}
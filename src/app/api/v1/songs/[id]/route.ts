@@ -0,0 +1,33 @@
+/**
+ * @file route.ts
+ * @description GET /api/v1/songs/[id] - one song by ID.
+ * 
+ * Returns the Song as JSON, or with ?format=projection / ?format=openlyrics
+ * the projection text or OpenLyrics XML on its own (see lib/api.ts).
+ * Rejected songs and unknown IDs are 404s.
+ */
+
+import { getSongById } from "@/lib/songs";
+import { apiError, apiJson, apiOptions, apiResponse, apiSong, formatSong, parseApiOutput } from "@/lib/api";
+
+/** Route props with dynamic route parameter */
+interface RouteProps {
+    params: Promise<{ id: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteProps) {
+    const output = parseApiOutput(new URL(request.url).searchParams);
+    if ("error" in output) return apiError(400, output.error);
+
+    const { id } = await params;
+    const song = await getSongById(id);
+    if (!song) return apiError(404, "Song not found");
+
+    return output.format === "json"
+        ? apiJson(request, apiSong(song))
+        : apiResponse(request, formatSong(song, output), output.format);
+}
+
+export function OPTIONS() {
+    return apiOptions();
+}
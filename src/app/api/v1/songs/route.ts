@@ -0,0 +1,44 @@
+/**
+ * @file route.ts
+ * @description GET /api/v1/songs - every song, A–Z by title, one page at a time.
+ * 
+ * Query parameters (all optional):
+ * - language: only songs in this language (name or code, e.g. "Ga" or "gaa")
+ * - page: 1-based page number
+ * - format / slides: add formatted text to each song (see lib/api.ts)
+ * 
+ * Response: { songs: Song[], pagination: { page, pageSize, total, pageCount } }
+ */
+
+import { browseSongs, BROWSE_PAGE_SIZE } from "@/lib/songs";
+import {
+    apiError,
+    apiJson,
+    apiOptions,
+    apiPagination,
+    parseApiLanguage,
+    parseApiOutput,
+    parseApiPage,
+    songsForList,
+} from "@/lib/api";
+
+export async function GET(request: Request) {
+    const params = new URL(request.url).searchParams;
+
+    const output = parseApiOutput(params);
+    if ("error" in output) return apiError(400, output.error);
+
+    const filter = parseApiLanguage(params);
+    if ("error" in filter) return apiError(400, filter.error);
+
+    const results = await browseSongs({ language: filter.language }, parseApiPage(params));
+
+    return apiJson(request, {
+        songs: songsForList(results.songs, output),
+        pagination: apiPagination(results, BROWSE_PAGE_SIZE),
+    });
+}
+
+export function OPTIONS() {
+    return apiOptions();
+}
@@ -0,0 +1,102 @@
+/**
+ * @file page.tsx (Artist)
+ * @description Every song by one artist.
+ * 
+ * Route: /artist/[slug]
+ * 
+ * The slug groups spelling variants of the artist's name, so
+ * /artist/tagoe-sisters lists songs credited to both "Tagoe Sisters"
+ * and "The Tagoe Sisters". Returns 404 if no songs match.
+ */
+
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { getArtistBySlug } from "@/lib/songs";
+
+/** Page props with dynamic route parameter */
+interface PageProps {
+    params: Promise<{ slug: string }>;
+}
+
+/**
+ * Artist page component.
+ * 
+ * This is a Server Component that:
+ * 1. Extracts the artist slug from the URL
+ * 2. Groups the library's songs by artist and picks this one
+ * 3. Returns 404 if the artist has no songs
+ * 4. Lists the songs alphabetically
+ * 
+ * @param params - Route parameters (contains 'slug')
+ */
+export default async function ArtistPage({ params }: PageProps) {
+    const { slug } = await params;
+    const result = await getArtistBySlug(decodeURIComponent(slug));
+
+    if (!result) {
+        notFound();
+    }
+
+    const { artist, songs } = result;
+
+    return (
+        <div className="min-h-screen gradient-bg">
+            {/* Header with Logo and Theme Toggle */}
+            <header className="flex items-center justify-between p-4 md:p-6">
+                <Link
+                    href="/"
+                    className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+                >
+                    <span
+                        className="text-2xl font-bold"
+                        style={{ fontFamily: "var(--font-outfit)" }}
+                    >
+                        <span className="text-[var(--accent)]">1</span>co18
+                    </span>
+                </Link>
+                <ThemeToggle />
+            </header>
+
+            <main className="max-w-3xl mx-auto px-4 md:px-6 pb-12">
+                {/* Back to Artists */}
+                <Link
+                    href="/artists"
+                    className="inline-block text-sm text-[var(--muted)] hover:text-[var(--accent)] mb-4"
+                >
+                    ← All artists
+                </Link>
+
+                {/* Artist Name and Summary */}
+                <h1
+                    className="text-3xl md:text-4xl font-bold mb-2"
+                    style={{ fontFamily: "var(--font-outfit)" }}
+                >
+                    {artist.name}
+                </h1>
+                <p className="text-[var(--muted)] mb-6">
+                    {artist.songCount} song{artist.songCount !== 1 ? "s" : ""} · {artist.languages.join(", ")}
+                </p>
+
+                {/* Song List */}
+                <div className="space-y-3">
+                    {songs.map((song) => (
+                        <Link
+                            key={song.id}
+                            href={`/song/${song.id}`}
+                            className="card flex items-center justify-between gap-3 p-4 hover:border-[var(--accent)] transition-colors"
+                        >
+                            <span className="font-medium" style={{ fontFamily: "var(--font-outfit)" }}>
+                                {song.title}
+                            </span>
+                            {/* Language Badge */}
+                            <span className="text-xs px-2 py-0.5 rounded-full font-medium" style={{ backgroundColor: 'rgba(250, 5, 127, 0.15)', color: 'var(--accent)' }}>
+                                {song.language}
+                            </span>
+                        </Link>
+                    ))}
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,87 @@
+/**
+ * @file page.tsx (Artists)
+ * @description Index of every artist with their song counts.
+ * 
+ * Route: /artists
+ * 
+ * Spelling variants of an artist's name ("The Tagoe Sisters",
+ * "Tagoe Sisters") are grouped into one entry, see artistSlug.
+ * Each entry links to the artist's page at /artist/[slug].
+ */
+
+import Link from "next/link";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { getArtists } from "@/lib/songs";
+
+/**
+ * Artists index page component.
+ * 
+ * This is a Server Component that lists every artist alphabetically,
+ * with the number of songs and the languages they sing in.
+ */
+export default async function ArtistsPage() {
+    const artists = await getArtists();
+
+    return (
+        <div className="min-h-screen gradient-bg">
+            {/* Header with Logo and Theme Toggle */}
+            <header className="flex items-center justify-between p-4 md:p-6">
+                <Link
+                    href="/"
+                    className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+                >
+                    <span
+                        className="text-2xl font-bold"
+                        style={{ fontFamily: "var(--font-outfit)" }}
+                    >
+                        <span className="text-[var(--accent)]">1</span>co18
+                    </span>
+                </Link>
+                <ThemeToggle />
+            </header>
+
+            <main className="max-w-3xl mx-auto px-4 md:px-6 pb-12">
+                {/* Page Title */}
+                <h1
+                    className="text-3xl md:text-4xl font-bold mb-2"
+                    style={{ fontFamily: "var(--font-outfit)" }}
+                >
+                    Artists
+                </h1>
+                <p className="text-[var(--muted)] mb-6">
+                    {artists.length} artist{artists.length !== 1 ? "s" : ""}
+                </p>
+
+                {/* Artist List */}
+                {artists.length > 0 ? (
+                    <ul className="grid sm:grid-cols-2 gap-3">
+                        {artists.map((artist) => (
+                            <li key={artist.slug}>
+                                <Link
+                                    href={`/artist/${encodeURIComponent(artist.slug)}`}
+                                    className="card flex items-center justify-between gap-3 p-4 hover:border-[var(--accent)] transition-colors"
+                                >
+                                    <div>
+                                        <div className="font-medium" style={{ fontFamily: "var(--font-outfit)" }}>
+                                            {artist.name}
+                                        </div>
+                                        <div className="text-sm text-[var(--muted)]">
+                                            {artist.languages.join(", ")}
+                                        </div>
+                                    </div>
+                                    {/* Song Count */}
+                                    <span className="text-sm text-[var(--muted)] whitespace-nowrap">
+                                        {artist.songCount} song{artist.songCount !== 1 ? "s" : ""}
+                                    </span>
+                                </Link>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    // Empty State
+                    <p className="text-center text-[var(--muted)] py-12">No artists yet.</p>
+                )}
+            </main>
+        </div>
+    );
+}
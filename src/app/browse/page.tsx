@@ -0,0 +1,248 @@
+/**
+ * @file page.tsx (Browse)
+ * @description A–Z index of every song, for when you don't know what to search for.
+ * 
+ * Route: /browse?language=<lang>&letter=<A-Z or #>&page=<n>
+ * 
+ * This page:
+ * - Lists songs alphabetically by title, 50 per page
+ * - Shows language chips with the number of songs in each language
+ * - Shows an A–Z letter bar (letters with no songs are greyed out)
+ * - Groups each page under letter headings
+ */
+
+import Link from "next/link";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { BROWSE_LETTERS, browseSongs, Song, titleLetter } from "@/lib/songs";
+import { LANGUAGES } from "@/lib/languages";
+
+/** Browse parameters read from the URL */
+interface BrowsePageParams {
+    language?: string;
+    letter?: string;
+    page?: string;
+}
+
+/** Page props with search params from URL */
+interface PageProps {
+    searchParams: Promise<BrowsePageParams>;
+}
+
+/**
+ * Builds a /browse URL from the current params with some values changed.
+ * Changing a filter always goes back to page 1.
+ * 
+ * @param params - The current browse params
+ * @param changes - Params to set (undefined removes the param)
+ */
+function browseHref(params: BrowsePageParams, changes: Partial<BrowsePageParams>): string {
+    const merged: BrowsePageParams = { ...params, page: undefined, ...changes };
+    const urlParams = new URLSearchParams();
+
+    for (const [key, value] of Object.entries(merged)) {
+        if (value) urlParams.set(key, value);
+    }
+
+    const query = urlParams.toString();
+    return query ? `/browse?${query}` : "/browse";
+}
+
+/** Shared classes for filter chips, highlighted when active */
+function chipClassName(active: boolean): string {
+    return `inline-flex items-center gap-1.5 px-3 py-1 text-sm rounded-full font-medium border transition-colors ${active
+        ? "bg-[var(--accent)] border-[var(--accent)] text-white"
+        : "border-[var(--border)] text-[var(--muted)] hover:border-[var(--accent)] hover:text-[var(--accent)]"
+        }`;
+}
+
+/**
+ * Splits a page of songs into runs that share an index letter,
+ * so each run can be shown under its own heading.
+ */
+function groupByLetter(songs: Song[]): [string, Song[]][] {
+    const groups: [string, Song[]][] = [];
+
+    for (const song of songs) {
+        const letter = titleLetter(song.title);
+        const last = groups[groups.length - 1];
+        if (last && last[0] === letter) {
+            last[1].push(song);
+        } else {
+            groups.push([letter, [song]]);
+        }
+    }
+
+    return groups;
+}
+
+/**
+ * Browse page component.
+ * 
+ * This is a Server Component that:
+ * 1. Extracts the language, letter and page from the URL
+ * 2. Lists the matching songs A–Z with language and letter counts
+ * 3. Renders the filters, the grouped song list and pagination
+ * 
+ * @param searchParams - URL search parameters
+ */
+export default async function BrowsePage({ searchParams }: PageProps) {
+    const params = await searchParams;
+    const { language } = params;
+    const letter = params.letter?.toUpperCase();
+
+    const results = await browseSongs({ language, letter }, Number(params.page) || 1);
+
+    // Show every supported language, plus any other language found in the data
+    const languages = [...new Set<string>([...LANGUAGES, ...Object.keys(results.languageCounts)])];
+    const allLanguagesTotal = Object.values(results.languageCounts).reduce((sum, count) => sum + count, 0);
+
+    return (
+        <div className="min-h-screen gradient-bg">
+            {/* Header with Logo and Theme Toggle */}
+            <header className="flex items-center justify-between p-4 md:p-6">
+                <Link
+                    href="/"
+                    className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+                >
+                    <span
+                        className="text-2xl font-bold"
+                        style={{ fontFamily: "var(--font-outfit)" }}
+                    >
+                        <span className="text-[var(--accent)]">1</span>co18
+                    </span>
+                </Link>
+                <ThemeToggle />
+            </header>
+
+            <main className="max-w-3xl mx-auto px-4 md:px-6 pb-12">
+                {/* Page Title */}
+                <h1
+                    className="text-3xl md:text-4xl font-bold mb-2"
+                    style={{ fontFamily: "var(--font-outfit)" }}
+                >
+                    Browse songs
+                </h1>
+                <p className="text-[var(--muted)] mb-6">
+                    {results.total} song{results.total !== 1 ? "s" : ""}
+                    {language && ` in ${language}`}
+                    {letter && ` starting with ${letter}`}
+                </p>
+
+                {/* Language Filter - with song counts */}
+                <div className="flex flex-wrap gap-2 mb-4">
+                    <Link href={browseHref(params, { language: undefined })} className={chipClassName(!language)}>
+                        All <span className="opacity-75">{allLanguagesTotal}</span>
+                    </Link>
+                    {languages.map((lang) => (
+                        <Link
+                            key={lang}
+                            href={browseHref(params, { language: lang })}
+                            className={chipClassName(language === lang)}
+                        >
+                            {lang} <span className="opacity-75">{results.languageCounts[lang] ?? 0}</span>
+                        </Link>
+                    ))}
+                </div>
+
+                {/* A–Z Index */}
+                <nav className="flex flex-wrap gap-1 mb-8" aria-label="Title index">
+                    <Link
+                        href={browseHref(params, { letter: undefined })}
+                        className={`px-2 py-1 text-sm rounded font-medium ${!letter ? "bg-[var(--accent)] text-white" : "text-[var(--muted)] hover:text-[var(--accent)]"}`}
+                    >
+                        All
+                    </Link>
+                    {BROWSE_LETTERS.map((indexLetter) =>
+                        results.letterCounts[indexLetter] ? (
+                            <Link
+                                key={indexLetter}
+                                href={browseHref(params, { letter: indexLetter })}
+                                className={`w-8 py-1 text-center text-sm rounded font-medium ${letter === indexLetter ? "bg-[var(--accent)] text-white" : "hover:text-[var(--accent)]"}`}
+                                title={`${results.letterCounts[indexLetter]} songs`}
+                            >
+                                {indexLetter}
+                            </Link>
+                        ) : (
+                            // No songs under this letter
+                            <span key={indexLetter} className="w-8 py-1 text-center text-sm text-[var(--muted)] opacity-40">
+                                {indexLetter}
+                            </span>
+                        )
+                    )}
+                </nav>
+
+                {/* Song List - grouped under letter headings */}
+                {results.songs.length > 0 ? (
+                    <>
+                        <div className="space-y-6">
+                            {groupByLetter(results.songs).map(([groupLetter, songs]) => (
+                                <section key={groupLetter}>
+                                    <h2
+                                        className="text-lg font-semibold text-[var(--accent)] mb-2"
+                                        style={{ fontFamily: "var(--font-outfit)" }}
+                                    >
+                                        {groupLetter}
+                                    </h2>
+                                    <ul className="card divide-y divide-[var(--border)]">
+                                        {songs.map((song) => (
+                                            <li key={song.id}>
+                                                <Link
+                                                    href={`/song/${song.id}`}
+                                                    className="flex items-center justify-between gap-3 px-4 py-3 hover:text-[var(--accent)] transition-colors"
+                                                >
+                                                    <span>
+                                                        <span className="font-medium">{song.title}</span>
+                                                        {song.artist && (
+                                                            <span className="text-sm text-[var(--muted)]"> · {song.artist}</span>
+                                                        )}
+                                                    </span>
+                                                    {/* Language Badge */}
+                                                    <span className="text-xs px-2 py-0.5 rounded-full font-medium whitespace-nowrap" style={{ backgroundColor: 'rgba(250, 5, 127, 0.15)', color: 'var(--accent)' }}>
+                                                        {song.language}
+                                                    </span>
+                                                </Link>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </section>
+                            ))}
+                        </div>
+
+                        {/* Pagination */}
+                        {results.pageCount > 1 && (
+                            <nav className="flex items-center justify-between mt-8" aria-label="Pagination">
+                                {results.page > 1 ? (
+                                    <Link
+                                        href={browseHref(params, { page: String(results.page - 1) })}
+                                        className="btn-secondary px-4 py-2 rounded-lg font-medium"
+                                    >
+                                        ← Previous
+                                    </Link>
+                                ) : <span />}
+                                <span className="text-sm text-[var(--muted)]">
+                                    Page {results.page} of {results.pageCount}
+                                </span>
+                                {results.page < results.pageCount ? (
+                                    <Link
+                                        href={browseHref(params, { page: String(results.page + 1) })}
+                                        className="btn-secondary px-4 py-2 rounded-lg font-medium"
+                                    >
+                                        Next →
+                                    </Link>
+                                ) : <span />}
+                            </nav>
+                        )}
+                    </>
+                ) : (
+                    /* Empty State - no songs for this language / letter */
+                    <div className="text-center py-12">
+                        <h2 className="text-xl font-semibold mb-2">No songs here yet</h2>
+                        <Link href="/browse" className="text-[var(--accent)] hover:underline">
+                            Show all songs
+                        </Link>
+                    </div>
+                )}
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,71 @@
+/**
+ * @file page.tsx (Import Songs)
+ * @description Page for importing songs from other worship software.
+ * 
+ * Route: /import
+ * 
+ * Churches often already keep their songs in OpenLP, FreeShow or
+ * similar programs. This page reads their OpenLyrics XML exports
+ * (or plain-text files), previews the songs and submits them for
+ * review, like the Add Song form does one at a time.
+ */
+
+import Link from "next/link";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { ImportSongsForm } from "@/components/ImportSongsForm";
+
+/**
+ * Page metadata for SEO.
+ */
+export const metadata = {
+    title: "Import Songs - 1co18",
+    description: "Import worship songs from OpenLyrics or plain-text files into 1co18",
+};
+
+/**
+ * Import Songs page component.
+ * 
+ * The file reading, preview and submission logic is in the
+ * ImportSongsForm component.
+ */
+export default function ImportSongsPage() {
+    return (
+        <div className="min-h-screen gradient-bg">
+            {/* Header with Logo and Theme Toggle */}
+            <header className="flex items-center justify-between p-4 md:p-6">
+                {/* Logo - links back to homepage */}
+                <Link
+                    href="/"
+                    className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+                >
+                    <span
+                        className="text-2xl font-bold"
+                        style={{ fontFamily: "var(--font-outfit)" }}
+                    >
+                        <span className="text-[var(--accent)]">1</span>co18
+                    </span>
+                </Link>
+                <ThemeToggle />
+            </header>
+
+            {/* Main Content */}
+            <main className="max-w-2xl mx-auto px-4 md:px-6 pb-12">
+                {/* Page Title */}
+                <h1
+                    className="text-3xl md:text-4xl font-bold mb-2 text-center"
+                    style={{ fontFamily: "var(--font-outfit)" }}
+                >
+                    Import Songs
+                </h1>
+                <p className="text-center text-[var(--muted)] mb-8">
+                    Bring in songs exported from OpenLP, FreeShow or other worship software.
+                </p>
+
+                {/* Form Card */}
+                <div className="card p-6 md:p-8">
+                    <ImportSongsForm />
+                </div>
+            </main>
+        </div>
+    );
+}
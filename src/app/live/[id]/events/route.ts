@@ -0,0 +1,78 @@
+/**
+ * @file route.ts
+ * @description GET /live/[id]/events - a live session's slides as server-sent events.
+ * 
+ * Phones following a live session (/live/[id]) listen here. Events:
+ * - position: the presenter's position (see PresenterPosition), sent on
+ *   connecting and after every change
+ * - end: the session has ended (or never existed); the stream then closes
+ * 
+ * A comment is sent every 25 seconds so proxies don't close idle streams.
+ */
+
+import { followLiveSession } from "@/lib/liveSessions";
+import type { PresenterPosition } from "@/utils/presentation";
+
+/** Each request streams a different session, so never cache */
+export const dynamic = "force-dynamic";
+
+/** Keep-alive interval in milliseconds */
+const KEEP_ALIVE_MS = 25 * 1000;
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const encoder = new TextEncoder();
+
+    // Set once the stream starts; stops following and the keep-alive timer
+    let stop = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            let closed = false;
+            const write = (text: string) => {
+                if (!closed) controller.enqueue(encoder.encode(text));
+            };
+            const end = () => {
+                if (closed) return;
+                write("event: end\ndata: null\n\n");
+                closed = true;
+                stop();
+                controller.close();
+            };
+
+            const unfollow = followLiveSession(id, (position: PresenterPosition | null) => {
+                if (position) write(`event: position\ndata: ${JSON.stringify(position)}\n\n`);
+                else end();
+            });
+            if (!unfollow) {
+                end();
+                return;
+            }
+
+            const keepAlive = setInterval(() => write(": keep-alive\n\n"), KEEP_ALIVE_MS);
+            stop = () => {
+                clearInterval(keepAlive);
+                unfollow();
+            };
+
+            // The phone went away: stop following
+            request.signal.addEventListener("abort", () => {
+                stop();
+                closed = true;
+            });
+        },
+        cancel() {
+            stop();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+            // Ask nginx-style proxies not to buffer the stream
+            "X-Accel-Buffering": "no",
+        },
+    });
+}
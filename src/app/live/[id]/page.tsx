@@ -0,0 +1,60 @@
+/**
+ * @file page.tsx (Live Session)
+ * @description Follow-along page for a live session, opened from its QR code.
+ * 
+ * Route: /live/[id]
+ * 
+ * The operator starts a live session in presenter mode and shows the
+ * session's QR code; phones that scan it land here and follow the
+ * slides in real time (see LiveFollower).
+ */
+
+import Link from "next/link";
+import type { Metadata } from "next";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { LiveFollower } from "@/components/LiveFollower";
+
+/** Sessions are temporary; keep them out of search engines */
+export const metadata: Metadata = {
+    title: "Live - 1co18",
+    robots: { index: false },
+};
+
+/** Page props with dynamic route parameter */
+interface PageProps {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Live session page component.
+ * 
+ * @param params - Route parameters (contains 'id', the session)
+ */
+export default async function LiveSessionPage({ params }: PageProps) {
+    const { id } = await params;
+
+    return (
+        <div className="min-h-screen gradient-bg">
+            {/* Header with Logo and Theme Toggle */}
+            <header className="flex items-center justify-between p-4 md:p-6">
+                <Link
+                    href="/"
+                    className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+                >
+                    <span
+                        className="text-2xl font-bold"
+                        style={{ fontFamily: "var(--font-outfit)" }}
+                    >
+                        <span className="text-[var(--accent)]">1</span>co18
+                    </span>
+                </Link>
+                <ThemeToggle />
+            </header>
+
+            {/* Main Content */}
+            <main className="max-w-2xl mx-auto px-4 md:px-6 pb-12">
+                <LiveFollower sessionId={id} />
+            </main>
+        </div>
+    );
+}
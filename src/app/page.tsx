@@ -5,12 +5,14 @@
  * This is an ultra-minimal page featuring:
  * - The 1co18 logo centered on screen
  * - A search bar for finding songs
+ * - Links to browse the library A–Z or by artist
  * - A subtle "Add a song" link for contributors
  * - A theme toggle in the corner
  * 
  * The design is inspired by Google's homepage - clean and focused.
  */
 
+import Link from "next/link";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { SearchBar } from "@/components/SearchBar";
 
@@ -21,7 +23,8 @@ import { SearchBar } from "@/components/SearchBar";
  * 1. Theme toggle button (top right)
  * 2. "1co18" logo with accent-colored "1"
  * 3. Search bar for finding songs
- * 4. "Can't find it? Add a song" link
+ * 4. "Browse all songs" and "Artists" links
+ * 5. "Can't find it? Add a song" link
  */
 export default function Home() {
   return (
@@ -45,8 +48,23 @@ export default function Home() {
         {/* Search Bar */}
         <SearchBar />
 
-        {/* Add Song Link - subtle prompt for contributors */}
+        {/* Browse Links - for when you don't know what to search for */}
         <p className="mt-6 text-sm text-[var(--muted)]">
+          <Link href="/browse" className="text-[var(--accent)] hover:underline">
+            Browse all songs
+          </Link>
+          {" · "}
+          <Link href="/artists" className="text-[var(--accent)] hover:underline">
+            Artists
+          </Link>
+          {" · "}
+          <Link href="/setlist" className="text-[var(--accent)] hover:underline">
+            Setlist
+          </Link>
+        </p>
+
+        {/* Add Song Link - subtle prompt for contributors */}
+        <p className="mt-2 text-sm text-[var(--muted)]">
           Can&apos;t find it?{" "}
           <a
             href="/add"
@@ -2,41 +2,163 @@
  * @file page.tsx (Search Results)
  * @description Search results page showing matching songs.
  * 
- * Route: /search?q=<query>
+ * Route: /search?q=<query>&language=<lang>&artist=<name>&verified=1&page=<n>
  * 
  * This page:
- * - Receives search query from URL params
- * - Fetches matching songs from Supabase
- * - Displays results as clickable cards
+ * - Receives search query and filters from URL params
+ *   (the query may use the advanced syntax described in parseSearchQuery)
+ * - Fetches matching songs from the song repository
+ * - Shows language facet chips with result counts
+ * - Displays results as clickable cards, 20 per page, with the
+ *   matching lyric lines highlighted and unreviewed songs labelled,
+ *   and an "Add to setlist" button on each
  * - Shows "No songs found" with add song CTA when empty
+ * - Suggests close matches ("Did you mean") when the query has a typo
  */
 
 import Link from "next/link";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { SearchBar } from "@/components/SearchBar";
-import { searchSongs } from "@/lib/songs";
+import { HighlightMatch } from "@/components/HighlightMatch";
+import { AddToSetlistButton } from "@/components/AddToSetlistButton";
+import { findSimilarSongs, searchSongs, SearchResults, Song } from "@/lib/songs";
+import { findMatchingLines } from "@/utils/highlight";
+import { artistHref } from "@/utils/artists";
+
+/** Search parameters read from the URL */
+interface SearchPageParams {
+    q?: string;
+    language?: string;
+    artist?: string;
+    verified?: string;
+    page?: string;
+}
 
 /** Page props with search params from URL */
 interface PageProps {
-    searchParams: Promise<{ q?: string }>;
+    searchParams: Promise<SearchPageParams>;
+}
+
+/**
+ * Builds a /search URL from the current params with some values changed.
+ * Changing a filter always goes back to page 1.
+ * 
+ * @param params - The current search params
+ * @param changes - Params to set (undefined removes the param)
+ */
+function searchHref(params: SearchPageParams, changes: Partial<SearchPageParams>): string {
+    const merged: SearchPageParams = { ...params, page: undefined, ...changes };
+    const urlParams = new URLSearchParams();
+
+    for (const [key, value] of Object.entries(merged)) {
+        if (value) urlParams.set(key, value);
+    }
+
+    return `/search?${urlParams.toString()}`;
+}
+
+/** Shared classes for filter chips, highlighted when active */
+function chipClassName(active: boolean): string {
+    return `inline-flex items-center gap-1.5 px-3 py-1 text-sm rounded-full font-medium border transition-colors ${active
+        ? "bg-[var(--accent)] border-[var(--accent)] text-white"
+        : "border-[var(--border)] text-[var(--muted)] hover:border-[var(--accent)] hover:text-[var(--accent)]"
+        }`;
+}
+
+/**
+ * A single search result: title, artist, language and the lyric lines
+ * that matched, with the matching words highlighted.
+ * 
+ * @param song - The matching song
+ * @param query - The search query to highlight
+ */
+function SearchResultCard({ song, query }: { song: Song; query: string }) {
+    // Lyric lines that explain why this song matched
+    const snippet = findMatchingLines(song.lyrics, query);
+
+    const artistLink = artistHref(song.artist);
+
+    return (
+        // The title link stretches over the whole card; the artist link sits above it
+        <div className="card relative p-4 md:p-6 hover:border-[var(--accent)] transition-colors">
+            {/* Song Title */}
+            <h2
+                className="text-xl font-semibold mb-1"
+                style={{ fontFamily: "var(--font-outfit)" }}
+            >
+                <Link href={`/song/${song.id}`} className="after:absolute after:inset-0">
+                    <HighlightMatch text={song.title} query={query} />
+                </Link>
+            </h2>
+            {/* Artist - links to the artist page */}
+            <p className="text-[var(--muted)]">
+                {song.artist && artistLink ? (
+                    <Link href={artistLink} className="relative z-10 hover:text-[var(--accent)] hover:underline">
+                        {song.artist}
+                    </Link>
+                ) : (
+                    song.artist || "Unknown artist"
+                )}
+            </p>
+            {/* Language Badge */}
+            <span className="inline-block mt-2 px-2 py-0.5 text-xs rounded-full font-medium" style={{ backgroundColor: 'rgba(250, 5, 127, 0.15)', color: 'var(--accent)' }}>
+                {song.language}
+            </span>
+            {/* Pending Badge - not yet checked by a moderator */}
+            {!song.is_verified && (
+                <span className="inline-block mt-2 ml-2 px-2 py-0.5 text-xs rounded-full font-medium border border-[var(--border)] text-[var(--muted)]">
+                    Pending review
+                </span>
+            )}
+            {/* Add to Setlist - sits above the title link */}
+            <span className="inline-block mt-2 ml-2">
+                <AddToSetlistButton song={{ id: song.id, title: song.title, artist: song.artist }} compact />
+            </span>
+            {/* Matched Lyric Lines */}
+            {snippet.length > 0 && (
+                <div className="mt-3 pl-3 border-l-2 border-[var(--border)] text-sm text-[var(--muted)] space-y-0.5">
+                    {snippet.map((line, index) => (
+                        <p key={index}>
+                            <HighlightMatch text={line} query={query} />
+                        </p>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
 }
 
 /**
  * Search results page component.
  * 
  * This is a Server Component that:
- * 1. Extracts the 'q' query parameter from URL
+ * 1. Extracts the query, filters and page number from the URL
  * 2. Searches the database for matching songs
- * 3. Renders a list of results or empty state
+ * 3. Renders facet chips, a page of results and pagination links,
+ *    or an empty state
  * 
- * @param searchParams - URL search parameters (contains 'q' for query)
+ * @param searchParams - URL search parameters (see SearchPageParams)
  */
 export default async function SearchPage({ searchParams }: PageProps) {
-    // Extract query from URL params
-    const { q: query } = await searchParams;
+    // Extract query and filters from URL params
+    const params = await searchParams;
+    const { q: query, language, artist } = params;
+    const verifiedOnly = params.verified === "1";
+    const hasFilters = Boolean(language || artist || verifiedOnly);
 
     // Search database if query provided
-    const results = query ? await searchSongs(query) : [];
+    const results: SearchResults | null = query
+        ? await searchSongs(query, { language, artist, verifiedOnly }, Number(params.page) || 1)
+        : null;
+
+    // No strict matches: look for near matches to suggest instead
+    const similar = query && results?.total === 0 && !hasFilters ? await findSimilarSongs(query) : [];
+
+    // Language chips, most results first
+    const languageFacets = results
+        ? Object.entries(results.languageCounts).sort((a, b) => b[1] - a[1])
+        : [];
+    const unfilteredTotal = languageFacets.reduce((sum, [, count]) => sum + count, 0);
 
     return (
         <div className="min-h-screen gradient-bg">
@@ -65,42 +187,115 @@ export default async function SearchPage({ searchParams }: PageProps) {
             {/* Results Section */}
             <main className="max-w-3xl mx-auto px-4 md:px-6 pb-12">
                 {/* Result Count */}
-                {query && (
-                    <p className="text-[var(--muted)] mb-6">
-                        {results.length} result{results.length !== 1 ? "s" : ""} for &quot;{query}&quot;
+                {query && results && (
+                    <p className="text-[var(--muted)] mb-4">
+                        {results.total} result{results.total !== 1 ? "s" : ""} for &quot;{query}&quot;
                     </p>
                 )}
 
-                {/* Results List */}
-                {results.length > 0 ? (
-                    <div className="space-y-4">
-                        {results.map((song) => (
+                {/* Filters - language facets, verified-only toggle, active artist */}
+                {query && (unfilteredTotal > 0 || hasFilters) && (
+                    <div className="flex flex-wrap gap-2 mb-6">
+                        <Link href={searchHref(params, { language: undefined })} className={chipClassName(!language)}>
+                            All <span className="opacity-75">{unfilteredTotal}</span>
+                        </Link>
+                        {languageFacets.map(([lang, count]) => (
                             <Link
-                                key={song.id}
-                                href={`/song/${song.id}`}
-                                className="card block p-4 md:p-6 hover:border-[var(--accent)] transition-colors"
+                                key={lang}
+                                href={searchHref(params, { language: lang })}
+                                className={chipClassName(language === lang)}
                             >
-                                {/* Song Title */}
-                                <h2
-                                    className="text-xl font-semibold mb-1"
-                                    style={{ fontFamily: "var(--font-outfit)" }}
-                                >
-                                    {song.title}
-                                </h2>
-                                {/* Artist */}
-                                <p className="text-[var(--muted)]">{song.artist || "Unknown artist"}</p>
-                                {/* Language Badge */}
-                                <span className="inline-block mt-2 px-2 py-0.5 text-xs rounded-full font-medium" style={{ backgroundColor: 'rgba(250, 5, 127, 0.15)', color: 'var(--accent)' }}>
-                                    {song.language}
-                                </span>
+                                {lang} <span className="opacity-75">{count}</span>
                             </Link>
                         ))}
+                        <Link
+                            href={searchHref(params, { verified: verifiedOnly ? undefined : "1" })}
+                            className={chipClassName(verifiedOnly)}
+                        >
+                            ✓ Verified only
+                        </Link>
+                        {artist && (
+                            <Link
+                                href={searchHref(params, { artist: undefined })}
+                                className={chipClassName(true)}
+                                aria-label={`Remove artist filter ${artist}`}
+                            >
+                                {artist} <span aria-hidden>×</span>
+                            </Link>
+                        )}
+                    </div>
+                )}
+
+                {/* Results List */}
+                {results && results.songs.length > 0 ? (
+                    <>
+                        <div className="space-y-4">
+                            {results.songs.map((song) => (
+                                <SearchResultCard key={song.id} song={song} query={results.highlight} />
+                            ))}
+                        </div>
+
+                        {/* Pagination */}
+                        {results.pageCount > 1 && (
+                            <nav className="flex items-center justify-between mt-8" aria-label="Pagination">
+                                {results.page > 1 ? (
+                                    <Link
+                                        href={searchHref(params, { page: String(results.page - 1) })}
+                                        className="btn-secondary px-4 py-2 rounded-lg font-medium"
+                                    >
+                                        ← Previous
+                                    </Link>
+                                ) : <span />}
+                                <span className="text-sm text-[var(--muted)]">
+                                    Page {results.page} of {results.pageCount}
+                                </span>
+                                {results.page < results.pageCount ? (
+                                    <Link
+                                        href={searchHref(params, { page: String(results.page + 1) })}
+                                        className="btn-secondary px-4 py-2 rounded-lg font-medium"
+                                    >
+                                        Next →
+                                    </Link>
+                                ) : <span />}
+                            </nav>
+                        )}
+                    </>
+                ) : query && hasFilters ? (
+                    /* Filtered Empty State - matches exist, but not with these filters */
+                    <div className="text-center py-12">
+                        <h2 className="text-xl font-semibold mb-2">No songs match these filters</h2>
+                        <Link
+                            href={searchHref({ q: query }, {})}
+                            className="text-[var(--accent)] hover:underline"
+                        >
+                            Clear filters
+                        </Link>
                     </div>
                 ) : query ? (
                     /* Empty State - shown when search returns no results */
                     <div className="text-center py-12">
                         <div className="text-5xl mb-4">🔍</div>
                         <h2 className="text-xl font-semibold mb-2">No songs found</h2>
+
+                        {/* Did You Mean - close matches for misspelled queries */}
+                        {similar.length > 0 && (
+                            <div className="mb-6">
+                                <p className="text-[var(--muted)] mb-3">Did you mean:</p>
+                                <ul className="flex flex-wrap justify-center gap-2">
+                                    {similar.map((song) => (
+                                        <li key={song.id}>
+                                            <Link
+                                                href={`/song/${song.id}`}
+                                                className="btn-secondary inline-block px-4 py-1.5 rounded-full text-sm font-medium"
+                                            >
+                                                {song.title}
+                                            </Link>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+
                         <p className="text-[var(--muted)] mb-6">
                             Try a different search term or add this song to our database.
                         </p>
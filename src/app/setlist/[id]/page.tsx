@@ -0,0 +1,165 @@
+/**
+ * @file page.tsx (Shared Setlist)
+ * @description A saved service setlist, as opened from its share link.
+ * 
+ * Route: /setlist/[id]
+ * 
+ * Shows the setlist's name, date and songs (each with its arrangement
+ * and slide format), with buttons to copy or export the whole set
+ * and to present it from this browser.
+ * On the device that saved the setlist, it can be opened in the
+ * setlist builder to make changes.
+ */
+
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { SetlistExportButtons } from "@/components/SetlistExportButtons";
+import { EditSetlistButton } from "@/components/EditSetlistButton";
+import { getSetlist, getSetlistEntries } from "@/lib/setlists";
+import { SLIDE_FORMAT_LABELS } from "@/lib/setlistSubmission";
+import { arrangementText } from "@/utils/arrangements";
+
+/** Setlists are shared by link only; keep them out of search engines */
+export const metadata: Metadata = {
+    title: "Setlist - 1co18",
+    robots: { index: false },
+};
+
+/** Page props with dynamic route parameter */
+interface PageProps {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Shared setlist page component.
+ * 
+ * This is a Server Component that:
+ * 1. Fetches the setlist (404 if not found)
+ * 2. Looks up its songs and their chosen arrangements
+ * 3. Renders the song list with export, present and edit buttons
+ * 
+ * @param params - Route parameters (contains 'id')
+ */
+export default async function SharedSetlistPage({ params }: PageProps) {
+    const { id } = await params;
+    const setlist = await getSetlist(id);
+
+    if (!setlist) {
+        notFound();
+    }
+
+    const entries = await getSetlistEntries(setlist.items);
+
+    return (
+        <div className="min-h-screen gradient-bg">
+            {/* Header with Logo and Theme Toggle */}
+            <header className="flex items-center justify-between p-4 md:p-6">
+                <Link
+                    href="/"
+                    className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+                >
+                    <span
+                        className="text-2xl font-bold"
+                        style={{ fontFamily: "var(--font-outfit)" }}
+                    >
+                        <span className="text-[var(--accent)]">1</span>co18
+                    </span>
+                </Link>
+                <ThemeToggle />
+            </header>
+
+            {/* Main Content - Two Column Layout */}
+            <main className="max-w-5xl mx-auto px-4 md:px-6 pb-12">
+                <div className="grid md:grid-cols-[1fr_280px] gap-8">
+
+                    {/* Left Column: Setlist Info and Songs */}
+                    <div>
+                        <div className="mb-6">
+                            <h1
+                                className="text-3xl md:text-4xl font-bold mb-2"
+                                style={{ fontFamily: "var(--font-outfit)" }}
+                            >
+                                {setlist.name}
+                            </h1>
+                            <p className="text-[var(--muted)] text-lg">
+                                {setlist.service_date
+                                    ? new Date(`${setlist.service_date}T00:00:00`).toLocaleDateString()
+                                    : "No date set"}
+                                {" · "}
+                                {entries.length} {entries.length === 1 ? "song" : "songs"}
+                            </p>
+                        </div>
+
+                        {/* Song List */}
+                        <ol className="space-y-3">
+                            {entries.map(({ item, song, arrangement }, index) => (
+                                <li key={`${song.id}-${index}`} className="card p-4 flex items-start gap-3">
+                                    <span className="text-[var(--muted)] w-6">{index + 1}.</span>
+                                    <div className="flex-1 min-w-0">
+                                        <Link
+                                            href={arrangement
+                                                ? `/song/${song.id}?arrangement=${encodeURIComponent(arrangement.name)}`
+                                                : `/song/${song.id}`}
+                                            className="font-semibold hover:text-[var(--accent)]"
+                                        >
+                                            {song.title}
+                                        </Link>
+                                        <p className="text-sm text-[var(--muted)]">{song.artist || "Unknown artist"}</p>
+                                        <p className="text-xs text-[var(--muted)] mt-1">
+                                            {arrangement
+                                                ? `${arrangement.name} (${arrangementText(arrangement.sequence)})`
+                                                : "As written"}
+                                            {" · "}
+                                            {SLIDE_FORMAT_LABELS[item.format]}
+                                        </p>
+                                    </div>
+                                </li>
+                            ))}
+                        </ol>
+                        {entries.length < setlist.items.length && (
+                            <p className="text-sm text-[var(--muted)] mt-3">
+                                Some songs in this setlist are no longer available.
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Right Column: Export and Edit (Sticky on Desktop) */}
+                    <div className="md:sticky md:top-6 h-fit space-y-4">
+                        <div className="card p-4">
+                            <SetlistExportButtons
+                                name={setlist.name}
+                                entries={entries.map(({ item, song, arrangement }) => ({
+                                    song,
+                                    format: item.format,
+                                    order: arrangement?.sequence,
+                                }))}
+                            />
+                        </div>
+                        <div className="card p-4 space-y-3">
+                            <Link
+                                href={`/setlist/${setlist.id}/present`}
+                                className="w-full btn-secondary flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium"
+                            >
+                                🖥️ Present
+                            </Link>
+                            <EditSetlistButton
+                                id={setlist.id}
+                                name={setlist.name}
+                                service_date={setlist.service_date}
+                                items={entries.map(({ item, song }) => ({ ...item, title: song.title, artist: song.artist }))}
+                            />
+                            <Link
+                                href="/setlist"
+                                className="block text-center text-sm text-[var(--muted)] hover:text-[var(--accent)]"
+                            >
+                                Build a setlist
+                            </Link>
+                        </div>
+                    </div>
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,53 @@
+/**
+ * @file page.tsx (Present Setlist)
+ * @description Full-screen presenter mode for a saved setlist.
+ * 
+ * Route: /setlist/[id]/present
+ * 
+ * Projects every song of the setlist slide by slide, one song after
+ * another, each in its chosen arrangement and slide format (see Presenter).
+ */
+
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { Presenter } from "@/components/Presenter";
+import { getSetlist, getSetlistEntries } from "@/lib/setlists";
+
+/** Keep presenter pages out of search engines */
+export const metadata: Metadata = {
+    title: "Present - 1co18",
+    robots: { index: false },
+};
+
+/** Page props with dynamic route parameter */
+interface PageProps {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Present setlist page component.
+ * 
+ * @param params - Route parameters (contains 'id')
+ */
+export default async function PresentSetlistPage({ params }: PageProps) {
+    const { id } = await params;
+    const setlist = await getSetlist(id);
+
+    if (!setlist) {
+        notFound();
+    }
+
+    const entries = await getSetlistEntries(setlist.items);
+
+    return (
+        <Presenter
+            title={setlist.name}
+            items={entries.map(({ item, song, arrangement }) => ({
+                song,
+                format: item.format,
+                order: arrangement?.sequence,
+            }))}
+            exitHref={`/setlist/${setlist.id}`}
+        />
+    );
+}
@@ -0,0 +1,69 @@
+/**
+ * @file page.tsx (Setlist Builder)
+ * @description Page for building a service setlist.
+ * 
+ * Route: /setlist
+ * 
+ * Operators collect the songs for a service here, put them in order,
+ * pick an arrangement and slide format for each, and copy or export the
+ * whole set in one go. Saving the setlist gives it a shareable link
+ * (/setlist/[id]).
+ */
+
+import Link from "next/link";
+import type { Metadata } from "next";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { SetlistBuilder } from "@/components/SetlistBuilder";
+
+/**
+ * Page metadata for SEO.
+ */
+export const metadata: Metadata = {
+    title: "Setlist - 1co18",
+    description: "Build a service setlist and copy or export every song in one go",
+};
+
+/**
+ * Setlist builder page component.
+ * 
+ * The setlist is kept on this device; the building, export and
+ * saving logic is in the SetlistBuilder component.
+ */
+export default function SetlistPage() {
+    return (
+        <div className="min-h-screen gradient-bg">
+            {/* Header with Logo and Theme Toggle */}
+            <header className="flex items-center justify-between p-4 md:p-6">
+                {/* Logo - links back to homepage */}
+                <Link
+                    href="/"
+                    className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+                >
+                    <span
+                        className="text-2xl font-bold"
+                        style={{ fontFamily: "var(--font-outfit)" }}
+                    >
+                        <span className="text-[var(--accent)]">1</span>co18
+                    </span>
+                </Link>
+                <ThemeToggle />
+            </header>
+
+            {/* Main Content */}
+            <main className="max-w-5xl mx-auto px-4 md:px-6 pb-12">
+                {/* Page Title */}
+                <h1
+                    className="text-3xl md:text-4xl font-bold mb-2"
+                    style={{ fontFamily: "var(--font-outfit)" }}
+                >
+                    Setlist
+                </h1>
+                <p className="text-[var(--muted)] mb-8">
+                    Put together the songs for a service, then copy or export them all at once.
+                </p>
+
+                <SetlistBuilder />
+            </main>
+        </div>
+    );
+}
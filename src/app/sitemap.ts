@@ -5,22 +5,23 @@
  * This generates a sitemap.xml that includes:
  * - Homepage
  * - Add song page
- * - All individual song pages
+ * - Browse (A–Z) page
+ * - Artists index and every artist page
+ * - All reviewed (verified) song pages; pending songs are left out
+ *   until a moderator approves them
  * 
  * Search engines use this to discover and index all pages.
  */
 
 import { MetadataRoute } from 'next';
-import { supabase } from '@/lib/supabase';
+import { getAllSongs, getArtists } from '@/lib/songs';
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     const baseUrl = 'https://1co18.com';
 
-    // Fetch all song IDs from database
-    const { data: songs } = await supabase
-        .from('songs')
-        .select('id, created_at')
-        .order('id');
+    // Fetch all songs from the configured repository
+    const songs = await getAllSongs();
+    const artists = await getArtists();
 
     // Static pages
     const staticPages: MetadataRoute.Sitemap = [
@@ -36,15 +37,35 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
             changeFrequency: 'monthly',
             priority: 0.5,
         },
+        {
+            url: `${baseUrl}/browse`,
+            lastModified: new Date(),
+            changeFrequency: 'daily',
+            priority: 0.7,
+        },
+        {
+            url: `${baseUrl}/artists`,
+            lastModified: new Date(),
+            changeFrequency: 'weekly',
+            priority: 0.6,
+        },
     ];
 
-    // Dynamic song pages
-    const songPages: MetadataRoute.Sitemap = (songs || []).map((song) => ({
+    // Artist pages
+    const artistPages: MetadataRoute.Sitemap = artists.map((artist) => ({
+        url: `${baseUrl}/artist/${encodeURIComponent(artist.slug)}`,
+        lastModified: new Date(),
+        changeFrequency: 'weekly' as const,
+        priority: 0.6,
+    }));
+
+    // Dynamic song pages (reviewed songs only)
+    const songPages: MetadataRoute.Sitemap = songs.filter((song) => song.is_verified).map((song) => ({
         url: `${baseUrl}/song/${song.id}`,
         lastModified: new Date(song.created_at),
         changeFrequency: 'weekly' as const,
         priority: 0.8,
     }));
 
-    return [...staticPages, ...songPages];
+    return [...staticPages, ...artistPages, ...songPages];
 }
@@ -0,0 +1,161 @@
+/**
+ * @file page.tsx (Song History)
+ * @description Every published version of a song.
+ * 
+ * Route: /song/[id]/history
+ * 
+ * Lists the song's approved revisions, newest first, each with a line
+ * diff against the version before it. Signed-in moderators can roll
+ * the song back to any earlier version; the rollback is recorded as
+ * a new revision, so it can be undone the same way.
+ */
+
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { LineDiff } from "@/components/LineDiff";
+import { getSongById } from "@/lib/songs";
+import { getSongHistory } from "@/lib/revisions";
+import { isModerator } from "@/lib/adminAuth";
+import { rollbackAction } from "@/app/admin/review/actions";
+
+/** Keep old versions out of search engines */
+export const metadata: Metadata = {
+    title: "Song History",
+    robots: { index: false },
+};
+
+/** Page props with dynamic route parameter and rollback messages */
+interface PageProps {
+    params: Promise<{ id: string }>;
+    searchParams: Promise<{ error?: string; done?: string }>;
+}
+
+/**
+ * Song history page component.
+ * 
+ * This is a Server Component that:
+ * 1. Fetches the song (404 if not found) and its published revisions
+ * 2. Shows each revision with a diff against the one before it
+ * 3. Adds rollback buttons for signed-in moderators
+ * 
+ * @param params - Route parameters (contains 'id')
+ * @param searchParams - URL search parameters (rollback result)
+ */
+export default async function SongHistoryPage({ params, searchParams }: PageProps) {
+    const { id } = await params;
+    const { error, done } = await searchParams;
+    const song = await getSongById(id);
+
+    if (!song) {
+        notFound();
+    }
+
+    const history = await getSongHistory(song.id);
+    const canRollback = await isModerator();
+
+    return (
+        <div className="min-h-screen gradient-bg">
+            {/* Header with Logo and Theme Toggle */}
+            <header className="flex items-center justify-between p-4 md:p-6">
+                <Link
+                    href="/"
+                    className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+                >
+                    <span
+                        className="text-2xl font-bold"
+                        style={{ fontFamily: "var(--font-outfit)" }}
+                    >
+                        <span className="text-[var(--accent)]">1</span>co18
+                    </span>
+                </Link>
+                <ThemeToggle />
+            </header>
+
+            <main className="max-w-3xl mx-auto px-4 md:px-6 pb-12">
+                {/* Back to Song */}
+                <Link
+                    href={`/song/${song.id}`}
+                    className="inline-block text-sm text-[var(--muted)] hover:text-[var(--accent)] mb-4"
+                >
+                    ← {song.title}
+                </Link>
+
+                {/* Page Title */}
+                <h1
+                    className="text-3xl md:text-4xl font-bold mb-6"
+                    style={{ fontFamily: "var(--font-outfit)" }}
+                >
+                    History
+                </h1>
+
+                {/* Rollback Result */}
+                {(error || done) && (
+                    <p className={`card p-4 mb-6 text-sm ${error ? "text-red-500" : ""}`}>
+                        {error || "Song rolled back."}
+                    </p>
+                )}
+
+                {history.length > 0 ? (
+                    <ol className="space-y-4">
+                        {history.map((revision, index) => {
+                            // The version this one replaced (next in the newest-first list)
+                            const previous = history[index + 1];
+
+                            return (
+                                <li key={revision.id} className="card p-4 md:p-6">
+                                    {/* Revision Header */}
+                                    <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+                                        <div>
+                                            <span className="font-medium" style={{ fontFamily: "var(--font-outfit)" }}>
+                                                Revision #{revision.id}
+                                            </span>
+                                            {index === 0 && (
+                                                <span className="ml-2 px-2 py-0.5 text-xs rounded-full font-medium" style={{ backgroundColor: 'rgba(250, 5, 127, 0.15)', color: 'var(--accent)' }}>
+                                                    Current
+                                                </span>
+                                            )}
+                                            <div className="text-sm text-[var(--muted)]">
+                                                {revision.reviewed_at && new Date(revision.reviewed_at).toLocaleString()}
+                                                {revision.summary && <> · {revision.summary}</>}
+                                            </div>
+                                        </div>
+
+                                        {/* Rollback (moderators only) */}
+                                        {canRollback && index > 0 && (
+                                            <form action={rollbackAction}>
+                                                <input type="hidden" name="songId" value={song.id} />
+                                                <input type="hidden" name="revisionId" value={revision.id} />
+                                                <button type="submit" className="btn-secondary px-3 py-1.5 rounded-lg text-sm font-medium">
+                                                    Roll back to this version
+                                                </button>
+                                            </form>
+                                        )}
+                                    </div>
+
+                                    {/* Changes from the previous version */}
+                                    {previous && (
+                                        <details>
+                                            <summary className="cursor-pointer text-sm text-[var(--accent)]">
+                                                Show changes
+                                            </summary>
+                                            <div className="mt-3">
+                                                <LineDiff before={previous} after={revision} />
+                                            </div>
+                                        </details>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ol>
+                ) : (
+                    // Empty State - never changed since it was added
+                    <p className="text-center text-[var(--muted)] py-12">
+                        This song hasn&apos;t been changed since it was added.
+                    </p>
+                )}
+            </main>
+        </div>
+    );
+}
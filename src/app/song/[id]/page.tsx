@@ -2,15 +2,21 @@
  * @file page.tsx (Song Detail)
  * @description Individual song page with lyrics and action buttons.
  * 
- * Route: /song/[id]
+ * Route: /song/[id]?arrangement=Short
  * 
  * This page displays:
- * - Song metadata (title, artist, language)
- * - Full lyrics in a readable format
+ * - Song metadata (title, artist linking to the artist page, language,
+ *   and a "Pending review" label for songs not yet checked by a moderator)
+ * - Full lyrics with section headings (see LyricsView)
+ * - Arrangement picker and editor: the lyrics, copy, download and print
+ *   all follow the chosen arrangement (?arrangement=name)
  * - "Copy for Projection" button with format options
  * - "Download OpenLyrics" button (XML export)
+ * - "Add to setlist" button (with the chosen arrangement)
+ * - "Present" link to the full-screen presenter mode
  * - "Share QR Code" button
  * - "Print Lyrics" button
+ * - "Suggest a correction" and "View history" links
  * 
  * The layout is two-column on desktop:
  * - Left: Song info and lyrics
@@ -25,10 +31,18 @@ import { CopyButton } from "@/components/CopyButton";
 import { DownloadButton } from "@/components/DownloadButton";
 import { QRShareButton } from "@/components/QRShareButton";
 import { PrintButton } from "@/components/PrintButton";
+import { LyricsView } from "@/components/LyricsView";
+import { ArrangementEditor } from "@/components/ArrangementEditor";
+import { AddToSetlistButton } from "@/components/AddToSetlistButton";
+import { getArrangements } from "@/lib/arrangements";
+import { isModerator } from "@/lib/adminAuth";
+import { arrangementText } from "@/utils/arrangements";
+import { artistHref } from "@/utils/artists";
 
 /** Page props with dynamic route parameter */
 interface PageProps {
     params: Promise<{ id: string }>;
+    searchParams: Promise<{ arrangement?: string }>;
 }
 
 /**
@@ -36,13 +50,14 @@ interface PageProps {
  * 
  * This is a Server Component that:
  * 1. Extracts the song ID from the URL
- * 2. Fetches the song from Supabase
+ * 2. Fetches the song from the song repository
  * 3. Returns 404 if song not found
- * 4. Renders the song with action buttons
+ * 4. Renders the song with action buttons, in the chosen arrangement
  * 
  * @param params - Route parameters (contains 'id')
+ * @param searchParams - URL search parameters (contains 'arrangement', a name)
  */
-export default async function SongPage({ params }: PageProps) {
+export default async function SongPage({ params, searchParams }: PageProps) {
     const { id } = await params;
     const song = await getSongById(id);
 
@@ -50,6 +65,16 @@ export default async function SongPage({ params }: PageProps) {
         notFound();
     }
 
+    // The chosen arrangement (unknown names fall back to the written order)
+    const { arrangement: arrangementName } = await searchParams;
+    const arrangements = await getArrangements(song.id);
+    const canModerate = await isModerator();
+    const arrangement = arrangements.find((a) => a.name === arrangementName) ?? null;
+    const order = arrangement?.sequence;
+
+    // Link to every song by this artist
+    const artistLink = artistHref(song.artist);
+
     return (
         <div className="min-h-screen gradient-bg">
             {/* Header with Logo and Theme Toggle */}
@@ -83,21 +108,30 @@ export default async function SongPage({ params }: PageProps) {
                                 {song.title}
                             </h1>
                             <p className="text-[var(--muted)] text-lg mb-3">
-                                {song.artist || "Unknown artist"}
+                                {song.artist && artistLink ? (
+                                    <Link href={artistLink} className="hover:text-[var(--accent)] hover:underline">
+                                        {song.artist}
+                                    </Link>
+                                ) : (
+                                    song.artist || "Unknown artist"
+                                )}
                             </p>
                             <span className="inline-block px-3 py-1 text-sm font-medium rounded-full" style={{ backgroundColor: 'rgba(250, 5, 127, 0.15)', color: 'var(--accent)' }}>
                                 {song.language}
                             </span>
+                            {/* Pending Notice - not yet checked by a moderator */}
+                            {!song.is_verified && (
+                                <span className="inline-block ml-2 px-3 py-1 text-sm font-medium rounded-full border border-[var(--border)] text-[var(--muted)]">
+                                    Pending review - lyrics not yet checked
+                                </span>
+                            )}
                         </div>
 
                         {/* Lyrics Card */}
                         <div className="card p-6 md:p-8">
-                            <pre
-                                className="lyrics-text text-base md:text-lg"
-                                style={{ fontFamily: "var(--font-inter)" }}
-                            >
-                                {song.lyrics}
-                            </pre>
+                            <div className="text-base md:text-lg">
+                                <LyricsView lyrics={song.lyrics} order={order} />
+                            </div>
                         </div>
                     </div>
 
@@ -105,14 +139,79 @@ export default async function SongPage({ params }: PageProps) {
                     <div className="md:sticky md:top-6 h-fit space-y-4">
                         {/* Primary Actions */}
                         <div className="card p-4 space-y-3">
-                            <CopyButton song={song} />
-                            <DownloadButton song={song} />
+                            <CopyButton song={song} order={order} />
+                            <DownloadButton song={song} order={order} />
+                            <AddToSetlistButton
+                                song={{ id: song.id, title: song.title, artist: song.artist }}
+                                arrangement={arrangement?.name ?? null}
+                            />
+                        </div>
+
+                        {/* Arrangement Picker and Editor */}
+                        <div className="card p-4 space-y-3">
+                            <p className="text-sm font-medium">Arrangement</p>
+                            <div className="flex flex-wrap gap-1">
+                                {[null, ...arrangements].map((option) => (
+                                    <Link
+                                        key={option?.name ?? ""}
+                                        href={option ? `/song/${song.id}?arrangement=${encodeURIComponent(option.name)}` : `/song/${song.id}`}
+                                        title={option ? arrangementText(option.sequence) : undefined}
+                                        className={`px-2 py-1 text-xs font-medium rounded-md ${option?.name === arrangement?.name
+                                            ? "bg-[var(--accent)] text-white"
+                                            : "border border-[var(--border)] text-[var(--muted)] hover:text-[var(--foreground)]"
+                                            }`}
+                                    >
+                                        {option?.name ?? "As written"}
+                                    </Link>
+                                ))}
+                            </div>
+                            {arrangement && (
+                                <p className="text-xs text-[var(--muted)]">{arrangementText(arrangement.sequence)}</p>
+                            )}
+                            <details>
+                                <summary className="text-sm cursor-pointer text-[var(--muted)] hover:text-[var(--foreground)]">
+                                    {arrangement ? "Edit arrangement" : "New arrangement"}
+                                </summary>
+                                <div className="mt-3">
+                                    <ArrangementEditor
+                                        key={arrangement?.name ?? ""}
+                                        songId={song.id}
+                                        lyrics={song.lyrics}
+                                        arrangement={arrangement && { name: arrangement.name, sequence: arrangement.sequence }}
+                                        canModerate={canModerate}
+                                    />
+                                </div>
+                            </details>
                         </div>
 
                         {/* Secondary Actions */}
                         <div className="card p-4 space-y-3">
+                            <Link
+                                href={arrangement
+                                    ? `/song/${song.id}/present?arrangement=${encodeURIComponent(arrangement.name)}`
+                                    : `/song/${song.id}/present`}
+                                className="w-full btn-secondary flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium"
+                            >
+                                🖥️ Present
+                            </Link>
                             <QRShareButton songId={song.id} songTitle={song.title} />
-                            <PrintButton song={song} />
+                            <PrintButton song={song} order={order} />
+                        </div>
+
+                        {/* Corrections and History */}
+                        <div className="card p-4 space-y-3">
+                            <Link
+                                href={`/song/${song.id}/suggest`}
+                                className="w-full btn-secondary flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium"
+                            >
+                                ✏️ Suggest a correction
+                            </Link>
+                            <Link
+                                href={`/song/${song.id}/history`}
+                                className="block text-center text-sm text-[var(--muted)] hover:text-[var(--accent)]"
+                            >
+                                View history
+                            </Link>
                         </div>
                     </div>
                 </div>
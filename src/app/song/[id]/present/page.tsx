@@ -0,0 +1,61 @@
+/**
+ * @file page.tsx (Present Song)
+ * @description Full-screen presenter mode for one song.
+ * 
+ * Route: /song/[id]/present?arrangement=Short&format=2-lines
+ * 
+ * Projects the song slide by slide from the browser (see Presenter),
+ * in the chosen arrangement and slide format (full verse by default).
+ */
+
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { Presenter } from "@/components/Presenter";
+import { getSongById } from "@/lib/songs";
+import { getArrangements } from "@/lib/arrangements";
+import { SETLIST_FORMATS } from "@/lib/setlistSubmission";
+
+/** Keep presenter pages out of search engines */
+export const metadata: Metadata = {
+    title: "Present - 1co18",
+    robots: { index: false },
+};
+
+/** Page props with dynamic route parameter */
+interface PageProps {
+    params: Promise<{ id: string }>;
+    searchParams: Promise<{ arrangement?: string; format?: string }>;
+}
+
+/**
+ * Present song page component.
+ * 
+ * @param params - Route parameters (contains 'id')
+ * @param searchParams - URL search parameters ('arrangement', a name, and 'format')
+ */
+export default async function PresentSongPage({ params, searchParams }: PageProps) {
+    const { id } = await params;
+    const song = await getSongById(id);
+
+    if (!song) {
+        notFound();
+    }
+
+    // The chosen arrangement and slide format (unknown values fall back to the defaults)
+    const { arrangement: arrangementName, format: formatName } = await searchParams;
+    const arrangements = await getArrangements(song.id);
+    const arrangement = arrangements.find((a) => a.name === arrangementName) ?? null;
+    const format = SETLIST_FORMATS.find((f) => f === formatName) ?? "full-verse";
+
+    const songHref = arrangement
+        ? `/song/${song.id}?arrangement=${encodeURIComponent(arrangement.name)}`
+        : `/song/${song.id}`;
+
+    return (
+        <Presenter
+            title={song.title}
+            items={[{ song, format, order: arrangement?.sequence }]}
+            exitHref={songHref}
+        />
+    );
+}
@@ -0,0 +1,88 @@
+/**
+ * @file page.tsx (Suggest a Correction)
+ * @description Page for suggesting a fix to a song's lyrics or details.
+ * 
+ * Route: /song/[id]/suggest
+ * 
+ * Opens the song in an editor. The suggestion is stored as a pending
+ * revision and only replaces the song once a moderator approves it.
+ */
+
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { SuggestCorrectionForm } from "@/components/SuggestCorrectionForm";
+import { getSongById } from "@/lib/songs";
+
+/** Keep the editor out of search engines; the song page is the canonical page */
+export const metadata: Metadata = {
+    title: "Suggest a Correction",
+    robots: { index: false },
+};
+
+/** Page props with dynamic route parameter */
+interface PageProps {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Suggest a Correction page component.
+ * 
+ * @param params - Route parameters (contains 'id')
+ */
+export default async function SuggestCorrectionPage({ params }: PageProps) {
+    const { id } = await params;
+    const song = await getSongById(id);
+
+    if (!song) {
+        notFound();
+    }
+
+    return (
+        <div className="min-h-screen gradient-bg">
+            {/* Header with Logo and Theme Toggle */}
+            <header className="flex items-center justify-between p-4 md:p-6">
+                <Link
+                    href="/"
+                    className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+                >
+                    <span
+                        className="text-2xl font-bold"
+                        style={{ fontFamily: "var(--font-outfit)" }}
+                    >
+                        <span className="text-[var(--accent)]">1</span>co18
+                    </span>
+                </Link>
+                <ThemeToggle />
+            </header>
+
+            {/* Main Content */}
+            <main className="max-w-2xl mx-auto px-4 md:px-6 pb-12">
+                {/* Back to Song */}
+                <Link
+                    href={`/song/${song.id}`}
+                    className="inline-block text-sm text-[var(--muted)] hover:text-[var(--accent)] mb-4"
+                >
+                    ← {song.title}
+                </Link>
+
+                {/* Page Title */}
+                <h1
+                    className="text-3xl md:text-4xl font-bold mb-2"
+                    style={{ fontFamily: "var(--font-outfit)" }}
+                >
+                    Suggest a Correction
+                </h1>
+                <p className="text-[var(--muted)] mb-8">
+                    Fix any mistakes below. A moderator will review your changes before they go live.
+                </p>
+
+                {/* Form Card */}
+                <div className="card p-6 md:p-8">
+                    <SuggestCorrectionForm song={song} />
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,27 @@
+/**
+ * @file page.tsx (Stage Display)
+ * @description Confidence monitor for the singers' and band's screen.
+ * 
+ * Route: /stage
+ * 
+ * Follows presenter mode running in this browser, showing the current
+ * and next slides, the section name and a clock (see StageDisplay).
+ * Open it from presenter mode's controls ("Stage display" or "S") and
+ * move the window to the screen facing the stage.
+ */
+
+import type { Metadata } from "next";
+import { StageDisplay } from "@/components/StageDisplay";
+
+/** Keep the stage display out of search engines */
+export const metadata: Metadata = {
+    title: "Stage Display - 1co18",
+    robots: { index: false },
+};
+
+/**
+ * Stage display page component.
+ */
+export default function StagePage() {
+    return <StageDisplay />;
+}
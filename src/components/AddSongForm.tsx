@@ -4,8 +4,12 @@
  * 
  * Features:
  * - Form fields: Title, Artist, Language, Lyrics
- * - Twi character buttons (ɛ, ɔ, ŋ) for easy input
- * - Form validation (title and lyrics required)
+ * - Special character buttons for the selected language (e.g. ɛ, ɔ, ŋ for Twi,
+ *   ɖ, ƒ, ʋ, ɣ and tone marks for Ewe) for easy input
+ * - Form validation (title and lyrics required, length limits; the server re-checks)
+ * - Duplicate check while typing: similar songs already in the library are
+ *   listed, and must be confirmed as different songs before submitting
+ * - Hidden honeypot field to catch spam bots
  * - Loading state during submission
  * - Error handling with user-friendly messages
  * - Success confirmation with "Add Another" option
@@ -15,14 +19,13 @@
 
 "use client";
 
-import { useState } from "react";
-import { addSong } from "@/lib/songs";
-
-/** Available language options for songs */
-const LANGUAGES = ["Twi", "English", "Ga", "Ewe", "Fante", "Dagbani"];
-
-/** Twi special characters that need dedicated input buttons */
-const TWI_CHARACTERS = ["ɛ", "ɔ", "ŋ", "Ɛ", "Ɔ", "Ŋ"];
+import { useEffect, useState } from "react";
+import { addSongAction, findDuplicatesAction } from "@/app/actions";
+import type { DuplicateMatch } from "@/lib/duplicates";
+import { LANGUAGES } from "@/lib/languages";
+import { HONEYPOT_FIELD, SUBMISSION_LIMITS } from "@/lib/songSubmission";
+import { SpecialCharacterButtons } from "./SpecialCharacterButtons";
+import { DuplicateWarning } from "./DuplicateWarning";
 
 /**
  * Add Song form component.
@@ -31,7 +34,7 @@ const TWI_CHARACTERS = ["ɛ", "ɔ", "ŋ", "Ɛ", "Ɔ", "Ŋ"];
  * - Song title input (required)
  * - Artist/group input (optional)
  * - Language dropdown
- * - Lyrics textarea with Twi character buttons
+ * - Lyrics textarea with special character buttons for the chosen language
  * - Submit button with loading state
  * 
  * After successful submission, shows a thank you message
@@ -47,6 +50,7 @@ export function AddSongForm() {
         artist: "",
         language: "Twi",
         lyrics: "",
+        [HONEYPOT_FIELD]: "",
     });
 
     // Form state flags
@@ -54,6 +58,32 @@ export function AddSongForm() {
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
+    // Existing songs that look like this one, and the IDs confirmed as different songs
+    const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+    const [confirmedIds, setConfirmedIds] = useState<number[]>([]);
+
+    // Every listed match has been confirmed as a different song
+    const confirmed = duplicates.every((match) => confirmedIds.includes(match.song.id));
+
+    /**
+     * Check for duplicates when the user pauses typing the title or lyrics.
+     * Runs 500ms after the last change; stale results are ignored.
+     */
+    useEffect(() => {
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            const matches = formData.title.trim() || formData.lyrics.trim()
+                ? await findDuplicatesAction({ title: formData.title, lyrics: formData.lyrics })
+                : [];
+            if (!cancelled) setDuplicates(matches);
+        }, 500);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [formData.title, formData.lyrics]);
+
     /**
      * Handle input field changes.
      * Updates the corresponding field in formData state.
@@ -67,27 +97,34 @@ export function AddSongForm() {
 
     /**
      * Handle form submission.
-     * Sends the song data to Supabase and handles success/error states.
+     * Sends the song data to the server and handles success/error states.
      */
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        if (!confirmed) {
+            setError("Please check the similar songs below before submitting.");
+            return;
+        }
+
         setIsSubmitting(true);
         setError(null);
 
-        // Submit to database
-        const result = await addSong(formData);
+        // Submit to database (the server checks for duplicates again)
+        const result = await addSongAction(formData, confirmedIds);
 
         if (result.success) {
             setSubmitted(true);
         } else {
             setError(result.error || "Failed to submit song. Please try again.");
+            if (result.duplicates) setDuplicates(result.duplicates);
         }
 
         setIsSubmitting(false);
     };
 
     /**
-     * Insert a Twi character at the current cursor position in the lyrics textarea.
+     * Insert a special character (or combining tone mark) at the current
+     * cursor position in the lyrics textarea.
      * Maintains cursor position after insertion.
      */
     const insertCharacter = (char: string) => {
@@ -107,7 +144,7 @@ export function AddSongForm() {
             // Restore cursor position after the inserted character
             setTimeout(() => {
                 textarea.focus();
-                textarea.setSelectionRange(start + 1, start + 1);
+                textarea.setSelectionRange(start + char.length, start + char.length);
             }, 0);
         }
     };
@@ -126,7 +163,8 @@ export function AddSongForm() {
                 <button
                     onClick={() => {
                         setSubmitted(false);
-                        setFormData({ title: "", artist: "", language: "Twi", lyrics: "" });
+                        setFormData({ title: "", artist: "", language: "Twi", lyrics: "", [HONEYPOT_FIELD]: "" });
+                        setConfirmedIds([]);
                     }}
                     className="btn-primary px-6 py-2 rounded-lg font-medium"
                 >
@@ -157,6 +195,7 @@ export function AddSongForm() {
                     value={formData.title}
                     onChange={handleChange}
                     required
+                    maxLength={SUBMISSION_LIMITS.title}
                     placeholder="e.g., Aseda Yɛ Wo De"
                     className="w-full px-4 py-3 rounded-lg bg-[var(--background)] border border-[var(--border)] focus:border-[var(--accent)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] focus:ring-opacity-20 transition-colors"
                 />
@@ -173,6 +212,7 @@ export function AddSongForm() {
                     name="artist"
                     value={formData.artist}
                     onChange={handleChange}
+                    maxLength={SUBMISSION_LIMITS.artist}
                     placeholder="e.g., Daughters of Glorious Jesus"
                     className="w-full px-4 py-3 rounded-lg bg-[var(--background)] border border-[var(--border)] focus:border-[var(--accent)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] focus:ring-opacity-20 transition-colors"
                 />
@@ -198,26 +238,14 @@ export function AddSongForm() {
                 </select>
             </div>
 
-            {/* Lyrics Field with Twi Character Buttons */}
+            {/* Lyrics Field with Special Character Buttons */}
             <div>
                 <label htmlFor="lyrics" className="block text-sm font-medium mb-2">
                     Lyrics <span className="text-[var(--accent)]">*</span>
                 </label>
 
-                {/* Twi Character Insertion Buttons */}
-                <div className="flex flex-wrap gap-2 mb-2">
-                    <span className="text-xs text-[var(--muted)] mr-1 self-center">Insert:</span>
-                    {TWI_CHARACTERS.map((char) => (
-                        <button
-                            key={char}
-                            type="button"
-                            onClick={() => insertCharacter(char)}
-                            className="px-3 py-1 text-sm font-medium rounded border border-[var(--border)] hover:border-[var(--accent)] hover:text-[var(--accent)] transition-colors bg-[var(--surface)]"
-                        >
-                            {char}
-                        </button>
-                    ))}
-                </div>
+                {/* Character Insertion Buttons (hidden for languages without special letters) */}
+                <SpecialCharacterButtons language={formData.language} onInsert={insertCharacter} />
 
                 {/* Lyrics Textarea */}
                 <textarea
@@ -226,6 +254,7 @@ export function AddSongForm() {
                     value={formData.lyrics}
                     onChange={handleChange}
                     required
+                    maxLength={SUBMISSION_LIMITS.lyrics}
                     rows={12}
                     placeholder="Paste or type lyrics here...
 
@@ -238,6 +267,27 @@ Chorus:
                 />
             </div>
 
+            {/* Possible Duplicates - must be confirmed as different songs */}
+            <DuplicateWarning
+                duplicates={duplicates}
+                confirmed={confirmed}
+                onConfirmChange={(checked) => setConfirmedIds(checked ? duplicates.map((match) => match.song.id) : [])}
+            />
+
+            {/* Honeypot - hidden from people, left empty by them; bots fill it in */}
+            <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+                <label htmlFor={HONEYPOT_FIELD}>Website</label>
+                <input
+                    type="text"
+                    id={HONEYPOT_FIELD}
+                    name={HONEYPOT_FIELD}
+                    value={formData[HONEYPOT_FIELD]}
+                    onChange={handleChange}
+                    tabIndex={-1}
+                    autoComplete="off"
+                />
+            </div>
+
             {/* Submit Button */}
             <button
                 type="submit"
@@ -0,0 +1,61 @@
+/**
+ * @file AddToSetlistButton.tsx
+ * @description "Add to setlist" button for song pages and search results.
+ * 
+ * Adds the song to the setlist being built on this device (see
+ * setlistDraft.ts). Once the song is in the setlist, the button becomes
+ * a link to the setlist builder.
+ */
+
+"use client";
+
+import Link from "next/link";
+import { addToSetlistDraft, useSetlistDraft } from "@/utils/setlistDraft";
+import { SETLIST_LIMITS } from "@/lib/setlistSubmission";
+
+/** Props for the AddToSetlistButton component */
+interface AddToSetlistButtonProps {
+    /** The song to add */
+    song: { id: number; title: string; artist: string | null };
+    /** The arrangement to add the song with (the one being viewed), or null */
+    arrangement?: string | null;
+    /** Small inline style for search result cards */
+    compact?: boolean;
+}
+
+/**
+ * Add to setlist button component.
+ * 
+ * @param song - The song to add
+ * @param arrangement - The arrangement to use in the setlist
+ * @param compact - Whether to use the small inline style
+ */
+export function AddToSetlistButton({ song, arrangement = null, compact = false }: AddToSetlistButtonProps) {
+    const draft = useSetlistDraft();
+    const added = draft.items.some((item) => item.song_id === song.id);
+    const full = draft.items.length >= SETLIST_LIMITS.items;
+
+    const className = compact
+        ? "relative z-10 inline-block px-2 py-0.5 text-xs font-medium rounded-md border border-[var(--border)] text-[var(--muted)] hover:text-[var(--accent)]"
+        : "w-full btn-secondary flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium";
+
+    // Already added: link to the setlist builder instead
+    if (added) {
+        return (
+            <Link href="/setlist" className={className}>
+                {compact ? "✓ In setlist" : "✓ In setlist - open setlist"}
+            </Link>
+        );
+    }
+
+    return (
+        <button
+            onClick={() => addToSetlistDraft(song, arrangement)}
+            disabled={full}
+            title={full ? `Setlists are limited to ${SETLIST_LIMITS.items} songs` : undefined}
+            className={`${className} disabled:opacity-50`}
+        >
+            {compact ? "+ Setlist" : "📋 Add to setlist"}
+        </button>
+    );
+}
@@ -0,0 +1,228 @@
+/**
+ * @file ArrangementEditor.tsx
+ * @description Editor for a song's named arrangements (verse orders).
+ * 
+ * Features:
+ * - Name and order fields, prefilled with the arrangement being viewed
+ *   (or the written order for a new one)
+ * - One button per section of the song, which adds it to the order
+ * - Live preview of the order with repeats expanded, or what's wrong with it
+ * - Save (replacing an arrangement with the same name) and delete; only
+ *   arrangements saved from this device (see arrangementKeys.ts), or any
+ *   arrangement for a moderator, can be changed
+ * - Hidden honeypot field to catch spam bots
+ * 
+ * After saving, the song page switches to the saved arrangement.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { deleteArrangementAction, saveArrangementAction } from "@/app/actions";
+import { HONEYPOT_FIELD } from "@/lib/songSubmission";
+import { ARRANGEMENT_NAME_LIMIT, arrangementText, parseArrangement } from "@/utils/arrangements";
+import {
+    arrangementKey,
+    forgetArrangementKey,
+    rememberArrangementKey,
+    useHasArrangementKey,
+} from "@/utils/arrangementKeys";
+import { parseLyrics, sectionLabel } from "@/utils/lyricsParser";
+
+/** Shared classes for the inputs */
+const inputClassName =
+    "w-full px-3 py-2 rounded-lg bg-[var(--background)] border border-[var(--border)] focus:border-[var(--accent)] focus:outline-none text-sm";
+
+/** Props for the ArrangementEditor component */
+interface ArrangementEditorProps {
+    songId: number;
+    /** The song's lyrics, whose sections the arrangement orders */
+    lyrics: string;
+    /** The arrangement being viewed, or null for the written order */
+    arrangement: { name: string; sequence: string[] } | null;
+    /** Whether a signed-in moderator is viewing (can change any arrangement) */
+    canModerate: boolean;
+}
+
+/**
+ * Arrangement editor component.
+ * 
+ * @example
+ * <ArrangementEditor songId={song.id} lyrics={song.lyrics} arrangement={selected} canModerate={false} />
+ */
+export function ArrangementEditor({ songId, lyrics, arrangement, canModerate }: ArrangementEditorProps) {
+    const router = useRouter();
+    const doc = parseLyrics(lyrics);
+
+    // Form field values
+    const [name, setName] = useState(arrangement?.name ?? "");
+    const [text, setText] = useState(arrangementText(arrangement?.sequence ?? doc.order));
+    const [honeypot, setHoneypot] = useState("");
+
+    // Form state flags
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const parsed = parseArrangement(text, doc);
+
+    // Whether the arrangement being viewed can be deleted from here
+    const savedHere = useHasArrangementKey(songId, arrangement?.name ?? "");
+    const canDelete = Boolean(arrangement) && (savedHere || canModerate);
+
+    /** Opens the song page at the given arrangement (or the written order) */
+    const show = (arrangementName: string | null) => {
+        router.push(arrangementName ? `/song/${songId}?arrangement=${encodeURIComponent(arrangementName)}` : `/song/${songId}`);
+        router.refresh();
+    };
+
+    /**
+     * Saves the arrangement and switches to it.
+     */
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError(null);
+
+        const trimmed = name.trim();
+        const result = await saveArrangementAction(songId, name, text, arrangementKey(songId, trimmed), honeypot);
+        if (result.success) {
+            if (result.editKey) rememberArrangementKey(songId, trimmed, result.editKey);
+            show(trimmed);
+        } else {
+            setError(result.error || "Failed to save the arrangement. Please try again.");
+        }
+
+        setIsSaving(false);
+    };
+
+    /**
+     * Deletes the arrangement being viewed and goes back to the written order.
+     */
+    const handleDelete = async () => {
+        if (!arrangement || !confirm(`Delete the "${arrangement.name}" arrangement?`)) return;
+        setIsSaving(true);
+        setError(null);
+
+        const result = await deleteArrangementAction(
+            songId,
+            arrangement.name,
+            arrangementKey(songId, arrangement.name),
+            honeypot
+        );
+        if (result.success) {
+            forgetArrangementKey(songId, arrangement.name);
+            show(null);
+        } else {
+            setError(result.error || "Failed to delete the arrangement. Please try again.");
+        }
+
+        setIsSaving(false);
+    };
+
+    return (
+        <form onSubmit={handleSave} className="space-y-3">
+            {/* Error Message */}
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+            {/* Saved Elsewhere Note - only the device that saved it can change it */}
+            {arrangement && !canDelete && (
+                <p className="text-xs text-[var(--muted)]">
+                    This arrangement was saved from another device. Save your changes under a new name.
+                </p>
+            )}
+
+            {/* Name Field */}
+            <div>
+                <label htmlFor="arrangement-name" className="block text-xs font-medium mb-1">
+                    Name
+                </label>
+                <input
+                    type="text"
+                    id="arrangement-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    required
+                    maxLength={ARRANGEMENT_NAME_LIMIT}
+                    placeholder="e.g., Short"
+                    className={inputClassName}
+                />
+            </div>
+
+            {/* Order Field */}
+            <div>
+                <label htmlFor="arrangement-order" className="block text-xs font-medium mb-1">
+                    Order
+                </label>
+                <input
+                    type="text"
+                    id="arrangement-order"
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    placeholder="e.g., V1 C V2 C x2 B C"
+                    className={inputClassName}
+                />
+            </div>
+
+            {/* Section Buttons - add a section to the order */}
+            <div className="flex flex-wrap gap-1">
+                {doc.sections.map((section) => (
+                    <button
+                        key={section.id}
+                        type="button"
+                        onClick={() => setText((prev) => `${prev.trim()} ${section.id.toUpperCase()}`.trim())}
+                        title={`Add ${sectionLabel(section)}`}
+                        className="px-2 py-1 text-xs rounded-md border border-[var(--border)] hover:border-[var(--accent)] hover:text-[var(--accent)]"
+                    >
+                        {section.id.toUpperCase()} · {sectionLabel(section)}
+                    </button>
+                ))}
+            </div>
+
+            {/* Preview of the expanded order */}
+            {"error" in parsed ? (
+                <p className="text-xs text-red-600 dark:text-red-400">{parsed.error}</p>
+            ) : (
+                <ol className="text-xs text-[var(--muted)] list-decimal list-inside">
+                    {parsed.sequence.map((id, index) => (
+                        <li key={index}>{sectionLabel(doc.sections.find((section) => section.id === id)!)}</li>
+                    ))}
+                </ol>
+            )}
+
+            {/* Honeypot - hidden from people, left empty by them; bots fill it in */}
+            <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+                <label htmlFor={`${HONEYPOT_FIELD}-arrangement`}>Website</label>
+                <input
+                    type="text"
+                    id={`${HONEYPOT_FIELD}-arrangement`}
+                    value={honeypot}
+                    onChange={(e) => setHoneypot(e.target.value)}
+                    tabIndex={-1}
+                    autoComplete="off"
+                />
+            </div>
+
+            {/* Save and Delete Buttons */}
+            <div className="flex gap-2">
+                <button
+                    type="submit"
+                    disabled={isSaving || "error" in parsed}
+                    className="flex-1 btn-primary px-3 py-2 rounded-lg text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isSaving ? "Saving..." : "Save arrangement"}
+                </button>
+                {canDelete && (
+                    <button
+                        type="button"
+                        onClick={handleDelete}
+                        disabled={isSaving}
+                        className="btn-secondary px-3 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+                    >
+                        Delete
+                    </button>
+                )}
+            </div>
+        </form>
+    );
+}
@@ -7,6 +7,10 @@
  * - 2 lines per slide (for slower songs)
  * - 4 lines per slide (standard)
  * - Full verse per slide (for fast songs)
+ * - Custom layouts saved on this device (see slideProfiles.ts), which
+ *   can be created and edited here
+ * 
+ * Slides are grouped under their section labels ([Verse 1], [Chorus]).
  * 
  * The button copies formatted lyrics to the clipboard and shows
  * a "Copied!" confirmation for 2 seconds.
@@ -15,13 +19,17 @@
 "use client";
 
 import { useState } from "react";
-import { Song } from "@/lib/songs";
+import type { Song } from "@/lib/songs";
 import { formatForProjection, SlideFormat } from "@/utils/formatLyrics";
+import { useSlideProfiles } from "@/utils/slideProfiles";
+import { SlideProfileEditor } from "./SlideProfileEditor";
 
 /** Props for the CopyButton component */
 interface CopyButtonProps {
     /** The song object to format and copy */
     song: Song;
+    /** Section IDs to copy in (the chosen arrangement); default: as written */
+    order?: string[];
 }
 
 /** Available format options with labels */
@@ -35,15 +43,25 @@ const FORMAT_OPTIONS: { value: SlideFormat; label: string }[] = [
  * Copy for Projection button with format selector.
  * 
  * Features:
- * - Dropdown to select slide format
+ * - Buttons to select a slide format or custom layout
+ * - Layout editor for creating and changing custom layouts
  * - One-click copy to clipboard
  * - Visual feedback after copying
  * 
  * @param song - The song to copy
+ * @param order - The arrangement to follow, if one is chosen
  */
-export function CopyButton({ song }: CopyButtonProps) {
-    // Currently selected format
-    const [format, setFormat] = useState<SlideFormat>("full-verse");
+export function CopyButton({ song, order }: CopyButtonProps) {
+    // Currently selected format: a built-in format or a custom layout's ID
+    const [format, setFormat] = useState<string>("full-verse");
+
+    // Custom layouts saved on this device, and whether the layout editor is open
+    const profiles = useSlideProfiles();
+    const [editing, setEditing] = useState(false);
+
+    // The chosen custom layout (a deleted one falls back to full verse)
+    const profile = profiles.find((p) => p.id === format) ?? null;
+    const builtIn = FORMAT_OPTIONS.find((option) => option.value === format)?.value ?? (profile ? null : "full-verse");
 
     // Track copy state for showing feedback
     const [copied, setCopied] = useState(false);
@@ -53,7 +71,7 @@ export function CopyButton({ song }: CopyButtonProps) {
      * Formats lyrics with selected format and writes to clipboard.
      */
     const handleCopy = async () => {
-        const formatted = formatForProjection(song, format);
+        const formatted = formatForProjection(song, profile ?? builtIn ?? "full-verse", order);
         await navigator.clipboard.writeText(formatted);
         setCopied(true);
         setTimeout(() => setCopied(false), 2000);
@@ -67,7 +85,7 @@ export function CopyButton({ song }: CopyButtonProps) {
                     <button
                         key={option.value}
                         onClick={() => setFormat(option.value)}
-                        className={`flex-1 px-2 py-1.5 text-xs font-medium rounded-md transition-colors ${format === option.value
+                        className={`flex-1 px-2 py-1.5 text-xs font-medium rounded-md transition-colors ${builtIn === option.value
                             ? "bg-[var(--accent)] text-white"
                             : "text-[var(--muted)] hover:text-[var(--foreground)]"
                             }`}
@@ -77,6 +95,42 @@ export function CopyButton({ song }: CopyButtonProps) {
                 ))}
             </div>
 
+            {/* Custom Layouts */}
+            <div className="flex flex-wrap items-center gap-1">
+                {profiles.map((p) => (
+                    <button
+                        key={p.id}
+                        onClick={() => setFormat(p.id)}
+                        className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${profile?.id === p.id
+                            ? "bg-[var(--accent)] text-white"
+                            : "border border-[var(--border)] text-[var(--muted)] hover:text-[var(--foreground)]"
+                            }`}
+                    >
+                        {p.name}
+                    </button>
+                ))}
+                {!editing && (
+                    <button
+                        onClick={() => setEditing(true)}
+                        className="px-2 py-1 text-xs text-[var(--muted)] hover:text-[var(--accent)]"
+                    >
+                        {profile ? "Edit layout" : "+ Custom layout"}
+                    </button>
+                )}
+            </div>
+
+            {/* Layout Editor */}
+            {editing && (
+                <SlideProfileEditor
+                    key={profile?.id ?? "new"}
+                    profile={profile}
+                    onDone={(profileId) => {
+                        setEditing(false);
+                        if (profileId) setFormat(profileId);
+                    }}
+                />
+            )}
+
             {/* Copy Button */}
             <button
                 onClick={handleCopy}
@@ -10,13 +10,16 @@
 
 "use client";
 
-import { Song } from "@/lib/songs";
+import type { Song } from "@/lib/songs";
 import { generateOpenLyricsXML } from "@/utils/formatLyrics";
+import { downloadFile, fileNameFor } from "@/utils/download";
 
 /** Props for the DownloadButton component */
 interface DownloadButtonProps {
     /** The song object to download as XML */
     song: Song;
+    /** Section IDs for the verse order (the chosen arrangement); default: as written */
+    order?: string[];
 }
 
 /**
@@ -28,36 +31,20 @@ interface DownloadButtonProps {
  * 3. Triggers browser download with filename based on song title
  * 
  * @param song - The song to download
+ * @param order - The arrangement to follow, if one is chosen
  * 
  * @example
  * <DownloadButton song={currentSong} />
  */
-export function DownloadButton({ song }: DownloadButtonProps) {
+export function DownloadButton({ song, order }: DownloadButtonProps) {
     /**
      * Handles the download action.
      * Creates an XML blob and triggers browser download.
      */
     const handleDownload = () => {
-        // Generate the OpenLyrics XML content
-        const xml = generateOpenLyricsXML(song);
-
-        // Create a blob for the download
-        const blob = new Blob([xml], { type: "application/xml" });
-        const url = URL.createObjectURL(blob);
-
-        // Create a temporary anchor element to trigger download
-        const a = document.createElement("a");
-        a.href = url;
-        // Sanitize filename: replace spaces with underscores
-        a.download = `${song.title.replace(/\s+/g, "_")}.xml`;
-
-        // Trigger download and cleanup
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-
-        // Release the blob URL
-        URL.revokeObjectURL(url);
+        // Generate the OpenLyrics XML content and save it, named after the song
+        const xml = generateOpenLyricsXML(song, song.created_at, order);
+        downloadFile(fileNameFor(song.title, "xml"), xml, "application/xml");
     };
 
     return (
@@ -0,0 +1,75 @@
+/**
+ * @file DuplicateWarning.tsx
+ * @description Lists existing songs that look like the one being added.
+ * 
+ * Used by the Add Song form and the import page. Each match links to
+ * the song (in a new tab) and says why it matched; the contributor
+ * has to tick "This is a different song" before the song can be added.
+ */
+
+"use client";
+
+import Link from "next/link";
+import { DuplicateMatch, TITLE_THRESHOLD } from "@/lib/duplicates";
+
+/** Props for DuplicateWarning */
+interface DuplicateWarningProps {
+    /** The likely duplicates (renders nothing when empty) */
+    duplicates: DuplicateMatch[];
+    /** Whether the contributor confirmed this is a different song */
+    confirmed: boolean;
+    /** Called when the confirmation checkbox is ticked or unticked */
+    onConfirmChange: (confirmed: boolean) => void;
+}
+
+/**
+ * Duplicate warning with a confirmation checkbox.
+ * 
+ * @example
+ * <DuplicateWarning duplicates={matches} confirmed={confirmed} onConfirmChange={setConfirmed} />
+ */
+export function DuplicateWarning({ duplicates, confirmed, onConfirmChange }: DuplicateWarningProps) {
+    if (duplicates.length === 0) return null;
+
+    return (
+        <div className="p-4 rounded-lg border border-[var(--accent)]" style={{ backgroundColor: 'rgba(250, 5, 127, 0.05)' }}>
+            <p className="font-medium mb-1">Is this song already here?</p>
+            <p className="text-sm text-[var(--muted)] mb-3">
+                These songs look similar. Open them to check before adding a new copy.
+            </p>
+            <ul className="space-y-2 mb-4">
+                {duplicates.map((match) => (
+                    <li key={match.song.id} className="text-sm">
+                        <Link
+                            href={`/song/${match.song.id}`}
+                            target="_blank"
+                            className="font-medium text-[var(--accent)] hover:underline"
+                        >
+                            {match.song.title}
+                        </Link>
+                        <span className="text-[var(--muted)]">
+                            {" "}· {match.song.artist || "Unknown artist"} · {match.song.language}
+                            {!match.song.is_verified && " · Pending review"}
+                        </span>
+                        {/* Why it matched */}
+                        <span className="block text-xs text-[var(--muted)]">
+                            {[
+                                match.titleSimilarity >= TITLE_THRESHOLD && "Similar title",
+                                match.lyricOverlap > 0 && `${Math.round(match.lyricOverlap * 100)}% of lyrics match`,
+                            ].filter(Boolean).join(" · ")}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+            <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={confirmed}
+                    onChange={(e) => onConfirmChange(e.target.checked)}
+                    className="w-4 h-4 accent-[var(--accent)]"
+                />
+                This is a different song
+            </label>
+        </div>
+    );
+}
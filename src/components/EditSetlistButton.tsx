@@ -0,0 +1,58 @@
+/**
+ * @file EditSetlistButton.tsx
+ * @description "Edit setlist" button on a shared setlist page.
+ * 
+ * Only shown on the device that saved the setlist (which holds its edit
+ * key, see setlistDraft.ts). Loads the setlist into the setlist builder.
+ */
+
+"use client";
+
+import { useRouter } from "next/navigation";
+import { getSetlistDraft, setSetlistDraft, useSavedSetlists, DraftItem } from "@/utils/setlistDraft";
+
+/** Props for the EditSetlistButton component */
+interface EditSetlistButtonProps {
+    id: string;
+    name: string;
+    service_date: string | null;
+    /** The setlist's songs, as shown on the page */
+    items: DraftItem[];
+}
+
+/**
+ * Edit setlist button component.
+ * 
+ * @param id - The setlist's ID
+ * @param name - The setlist's name
+ * @param service_date - The setlist's service date
+ * @param items - The setlist's songs
+ */
+export function EditSetlistButton({ id, name, service_date, items }: EditSetlistButtonProps) {
+    const router = useRouter();
+    const saved = useSavedSetlists().find((s) => s.id === id);
+
+    if (!saved) return null;
+
+    /**
+     * Loads the setlist into the builder (after checking that no other
+     * setlist being built would be lost) and opens it.
+     */
+    const handleEdit = () => {
+        const draft = getSetlistDraft();
+        if (draft.items.length > 0 && draft.saved?.id !== id && !confirm("Replace the setlist you're building with this one?")) {
+            return;
+        }
+        setSetlistDraft({ name, service_date: service_date ?? "", items, saved: { id, editKey: saved.editKey } });
+        router.push("/setlist");
+    };
+
+    return (
+        <button
+            onClick={handleEdit}
+            className="w-full btn-secondary flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium"
+        >
+            ✏️ Edit setlist
+        </button>
+    );
+}
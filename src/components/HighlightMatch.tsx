@@ -0,0 +1,53 @@
+/**
+ * @file HighlightMatch.tsx
+ * @description Highlights the parts of a text that match a search query.
+ * 
+ * Matching is normalization-aware: the query "aseda ye" highlights
+ * "Asɛda yɛ" in the original text. Multi-word matches are highlighted
+ * as one span; scattered words are highlighted individually.
+ * 
+ * Used by the SearchBar suggestions and the search result snippets.
+ * Has no client-side state, so it renders in both server and client components.
+ */
+
+import { findHighlightRanges } from "@/utils/highlight";
+
+/** Props for the HighlightMatch component */
+interface HighlightMatchProps {
+    /** The full text to display */
+    text: string;
+    /** The search query to highlight */
+    query: string;
+}
+
+/**
+ * Component to highlight matching text in search results.
+ * Shows the matched portions in the accent color.
+ * 
+ * @param text - The full text to display
+ * @param query - The search query to highlight
+ * 
+ * @example
+ * <HighlightMatch text={song.title} query={query} />
+ */
+export function HighlightMatch({ text, query }: HighlightMatchProps) {
+    const ranges = findHighlightRanges(text, query);
+    if (ranges.length === 0) return <>{text}</>;
+
+    // Split text into alternating plain and highlighted parts
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+
+    for (const { start, end } of ranges) {
+        if (start > position) parts.push(text.slice(position, start));
+        parts.push(
+            <span key={start} className="text-[var(--accent)] font-medium">
+                {text.slice(start, end)}
+            </span>
+        );
+        position = end;
+    }
+    if (position < text.length) parts.push(text.slice(position));
+
+    return <>{parts}</>;
+}
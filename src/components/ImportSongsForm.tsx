@@ -0,0 +1,304 @@
+/**
+ * @file ImportSongsForm.tsx
+ * @description Imports songs from OpenLyrics XML and plain-text files.
+ * 
+ * Features:
+ * - Choose one or more .xml (OpenLyrics) or .txt files
+ * - Preview of every song read, with its lyrics mapped to our
+ *   [Verse 1] / [Chorus] markers
+ * - Language picker per song (prefilled when the file names one)
+ * - Duplicate warnings: songs that look like one already in the library
+ *   must be confirmed as different songs, or left out
+ * - Per-song results after submitting; songs that failed can be retried
+ * 
+ * Imported songs are submitted for review like songs from the Add Song form.
+ */
+
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { findDuplicatesAction, importSongsAction } from "@/app/actions";
+import type { DuplicateMatch } from "@/lib/duplicates";
+import { LANGUAGES } from "@/lib/languages";
+import { HONEYPOT_FIELD, IMPORT_BATCH_LIMIT } from "@/lib/songSubmission";
+import { ImportedSong, parseSongFile } from "@/utils/songFiles";
+import { DuplicateWarning } from "./DuplicateWarning";
+
+/** One chosen file and what happened to it */
+interface ImportEntry {
+    fileName: string;
+    /** The song read from the file (missing if the file couldn't be read) */
+    song?: ImportedSong & { language: string };
+    /** Why the file couldn't be read, or why the song wasn't added */
+    error?: string;
+    /** Existing songs that look like this one */
+    duplicates: DuplicateMatch[];
+    /** Whether the user confirmed this is a different song from the duplicates */
+    confirmed: boolean;
+    /** Whether the song is included in the import */
+    selected: boolean;
+    /** Whether the song was added */
+    added: boolean;
+}
+
+/**
+ * Import songs form component.
+ * 
+ * @example
+ * <ImportSongsForm />
+ */
+export function ImportSongsForm() {
+    const [entries, setEntries] = useState<ImportEntry[]>([]);
+    const [honeypot, setHoneypot] = useState("");
+
+    // Form state flags
+    const [isReading, setIsReading] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    /** Updates one entry by index */
+    const updateEntry = (index: number, changes: Partial<ImportEntry>) => {
+        setEntries((prev) => prev.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+    };
+
+    /**
+     * Reads the chosen files and checks each song for duplicates.
+     */
+    const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        if (files.length === 0) return;
+
+        setError(null);
+        if (files.length > IMPORT_BATCH_LIMIT) {
+            setError(`Please choose up to ${IMPORT_BATCH_LIMIT} files at a time.`);
+            return;
+        }
+
+        setIsReading(true);
+        const read: ImportEntry[] = [];
+        for (const file of files) {
+            const parsed = parseSongFile(file.name, await file.text());
+            if ("error" in parsed) {
+                read.push({ fileName: file.name, error: parsed.error, duplicates: [], confirmed: false, selected: false, added: false });
+                continue;
+            }
+
+            const duplicates = await findDuplicatesAction({ title: parsed.song.title, lyrics: parsed.song.lyrics });
+            read.push({
+                fileName: file.name,
+                song: { ...parsed.song, language: parsed.song.language ?? "Twi" },
+                duplicates,
+                confirmed: duplicates.length === 0,
+                selected: true,
+                added: false,
+            });
+        }
+
+        setEntries(read);
+        setIsReading(false);
+    };
+
+    /**
+     * Submits the selected songs and records the result of each.
+     */
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const chosen = entries
+            .map((entry, index) => ({ entry, index }))
+            .filter(({ entry }) => entry.song && entry.selected && !entry.added);
+        if (chosen.length === 0) {
+            setError("Choose at least one song to import.");
+            return;
+        }
+        if (chosen.some(({ entry }) => !entry.confirmed)) {
+            setError("Some songs may already be in the library. Confirm they are different songs, or untick them.");
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        const response = await importSongsAction(
+            chosen.map(({ entry }) => ({
+                song: entry.song!,
+                confirmedDifferent: entry.duplicates.map((match) => match.song.id),
+            })),
+            honeypot
+        );
+
+        if (!response.success || !response.results) {
+            setError(response.error || "Failed to import songs. Please try again.");
+        } else {
+            response.results.forEach((result, i) => {
+                updateEntry(chosen[i].index, result.success
+                    ? { added: true, error: undefined }
+                    : {
+                        error: result.error,
+                        duplicates: result.duplicates ?? chosen[i].entry.duplicates,
+                        confirmed: !result.duplicates,
+                    });
+            });
+        }
+
+        setIsSubmitting(false);
+    };
+
+    const addedCount = entries.filter((entry) => entry.added).length;
+    const selectedCount = entries.filter((entry) => entry.song && entry.selected && !entry.added).length;
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Error Message */}
+            {error && (
+                <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400">
+                    {error}
+                </div>
+            )}
+
+            {/* Success Message */}
+            {addedCount > 0 && (
+                <div className="p-4 rounded-lg border border-[var(--border)]">
+                    🎉 {addedCount} {addedCount === 1 ? "song has" : "songs have"} been submitted for review.
+                </div>
+            )}
+
+            {/* File Picker */}
+            <div>
+                <label htmlFor="files" className="block text-sm font-medium mb-2">
+                    Song files
+                </label>
+                <input
+                    type="file"
+                    id="files"
+                    accept=".xml,.txt"
+                    multiple
+                    onChange={handleFiles}
+                    disabled={isReading || isSubmitting}
+                    className="w-full text-sm file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:font-medium file:text-white file:bg-[var(--accent)] file:cursor-pointer"
+                />
+                <p className="text-xs text-[var(--muted)] mt-2">
+                    OpenLyrics .xml files (exported from OpenLP, FreeShow and others) or plain .txt files
+                    named after the song. Up to {IMPORT_BATCH_LIMIT} at a time.
+                </p>
+                {isReading && <p className="text-sm text-[var(--muted)] mt-2">Reading files...</p>}
+            </div>
+
+            {/* Preview */}
+            {entries.map((entry, index) => (
+                <div key={`${entry.fileName}-${index}`} className="p-4 rounded-lg border border-[var(--border)] space-y-3">
+                    {/* File Name and Include Checkbox */}
+                    <div className="flex items-center justify-between gap-4">
+                        <span className="text-xs text-[var(--muted)] truncate">{entry.fileName}</span>
+                        {entry.added ? (
+                            <span className="text-sm font-medium text-[var(--accent)]">✓ Submitted</span>
+                        ) : entry.song && (
+                            <label className="flex items-center gap-2 text-sm cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={entry.selected}
+                                    onChange={(e) => updateEntry(index, { selected: e.target.checked })}
+                                    className="w-4 h-4 accent-[var(--accent)]"
+                                />
+                                Import
+                            </label>
+                        )}
+                    </div>
+
+                    {/* Problem with this file or song */}
+                    {entry.error && (
+                        <p className="text-sm text-red-600 dark:text-red-400">{entry.error}</p>
+                    )}
+
+                    {entry.song && (
+                        <>
+                            {/* Song Details */}
+                            <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-semibold" style={{ fontFamily: "var(--font-outfit)" }}>
+                                        {entry.song.title}
+                                    </p>
+                                    <p className="text-sm text-[var(--muted)]">{entry.song.artist || "Unknown artist"}</p>
+                                </div>
+                                <select
+                                    aria-label={`Language of ${entry.song.title}`}
+                                    value={entry.song.language}
+                                    onChange={(e) => updateEntry(index, { song: { ...entry.song!, language: e.target.value } })}
+                                    disabled={entry.added}
+                                    className="px-3 py-2 rounded-lg bg-[var(--background)] border border-[var(--border)] focus:border-[var(--accent)] focus:outline-none text-sm"
+                                >
+                                    {LANGUAGES.map((lang) => (
+                                        <option key={lang} value={lang}>
+                                            {lang}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {/* Lyrics Preview */}
+                            <details>
+                                <summary className="text-sm cursor-pointer text-[var(--muted)] hover:text-[var(--foreground)]">
+                                    Lyrics ({entry.song.lyrics.split("\n").filter((line) => line.trim()).length} lines)
+                                </summary>
+                                <pre className="mt-2 p-3 rounded-lg bg-[var(--background)] text-sm whitespace-pre-wrap font-sans max-h-80 overflow-y-auto">
+                                    {entry.song.lyrics}
+                                </pre>
+                            </details>
+
+                            {/* Possible Duplicates */}
+                            {!entry.added && (
+                                <DuplicateWarning
+                                    duplicates={entry.duplicates}
+                                    confirmed={entry.confirmed}
+                                    onConfirmChange={(confirmed) => updateEntry(index, { confirmed })}
+                                />
+                            )}
+                        </>
+                    )}
+                </div>
+            ))}
+
+            {/* Honeypot - hidden from people, left empty by them; bots fill it in */}
+            <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+                <label htmlFor={HONEYPOT_FIELD}>Website</label>
+                <input
+                    type="text"
+                    id={HONEYPOT_FIELD}
+                    name={HONEYPOT_FIELD}
+                    value={honeypot}
+                    onChange={(e) => setHoneypot(e.target.value)}
+                    tabIndex={-1}
+                    autoComplete="off"
+                />
+            </div>
+
+            {/* Submit Button */}
+            {entries.length > 0 && (
+                <button
+                    type="submit"
+                    disabled={isSubmitting || selectedCount === 0}
+                    className="w-full btn-primary py-3 rounded-lg font-medium text-lg disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                    {isSubmitting ? (
+                        <>
+                            {/* Loading Spinner */}
+                            <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                            Submitting...
+                        </>
+                    ) : (
+                        `Import ${selectedCount} ${selectedCount === 1 ? "song" : "songs"}`
+                    )}
+                </button>
+            )}
+
+            {/* Link to the single-song form */}
+            <p className="text-sm text-center text-[var(--muted)]">
+                Adding one song by hand?{" "}
+                <Link href="/add" className="text-[var(--accent)] hover:underline">
+                    Use the Add Song form
+                </Link>
+            </p>
+        </form>
+    );
+}
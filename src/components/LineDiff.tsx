@@ -0,0 +1,76 @@
+/**
+ * @file LineDiff.tsx
+ * @description Shows the line-by-line difference between two versions of a song.
+ * 
+ * Removed lines are struck through in red, added lines are green,
+ * and unchanged lines are muted. Title, artist and language changes
+ * are listed above the lyrics. Used by the moderator review of
+ * suggested corrections and by the song history page.
+ */
+
+import type { Song } from "@/lib/songs";
+import { diffLines } from "@/utils/diff";
+
+/** The song fields compared by LineDiff */
+type SongVersion = Pick<Song, "title" | "artist" | "lyrics" | "language">;
+
+/** Props for LineDiff */
+interface LineDiffProps {
+    /** The older version (e.g. the current song) */
+    before: SongVersion;
+    /** The newer version (e.g. the suggested correction) */
+    after: SongVersion;
+}
+
+/**
+ * Line diff between two versions of a song.
+ * 
+ * @example
+ * <LineDiff before={song} after={revision} />
+ */
+export function LineDiff({ before, after }: LineDiffProps) {
+    const lines = diffLines(before.lyrics, after.lyrics);
+
+    // Metadata fields that changed
+    const fieldChanges = (["title", "artist", "language"] as const)
+        .filter((field) => (before[field] || "") !== (after[field] || ""))
+        .map((field) => ({ field, from: before[field] || "(none)", to: after[field] || "(none)" }));
+
+    return (
+        <div className="space-y-3">
+            {/* Changed Fields */}
+            {fieldChanges.length > 0 && (
+                <ul className="text-sm space-y-1">
+                    {fieldChanges.map(({ field, from, to }) => (
+                        <li key={field}>
+                            <span className="capitalize font-medium">{field}:</span>{" "}
+                            <del className="text-red-600 dark:text-red-400">{from}</del> →{" "}
+                            <ins className="text-green-700 dark:text-green-400 no-underline">{to}</ins>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {/* Lyrics Diff */}
+            <pre className="text-sm overflow-x-auto rounded-lg border border-[var(--border)] py-2" style={{ fontFamily: "var(--font-inter)" }}>
+                {lines.map((line, index) => (
+                    <div
+                        key={index}
+                        className={
+                            line.type === "added"
+                                ? "px-3 bg-green-500/15 text-green-700 dark:text-green-400"
+                                : line.type === "removed"
+                                    ? "px-3 bg-red-500/15 text-red-600 dark:text-red-400 line-through"
+                                    : "px-3 text-[var(--muted)]"
+                        }
+                    >
+                        <span className="select-none inline-block w-4" aria-hidden>
+                            {line.type === "added" ? "+" : line.type === "removed" ? "−" : " "}
+                        </span>
+                        {line.text || " "}
+                    </div>
+                ))}
+            </pre>
+        </div>
+    );
+}
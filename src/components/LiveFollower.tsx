@@ -0,0 +1,122 @@
+/**
+ * @file LiveFollower.tsx
+ * @description Follows a live session on a phone.
+ * 
+ * Listens to the session's server-sent events (/live/[id]/events) and
+ * shows the slide on the projector screen as the operator moves on,
+ * with the song, the section and the next lines. Helpful for people who
+ * can't see the screen well, or who want to read Twi lyrics up close.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { PresenterPosition } from "@/utils/presentation";
+
+/** Props for the LiveFollower component */
+interface LiveFollowerProps {
+    /** The live session's ID */
+    sessionId: string;
+}
+
+/**
+ * Live session follower component.
+ * 
+ * @param sessionId - The session to follow
+ * 
+ * @example
+ * <LiveFollower sessionId={id} />
+ */
+export function LiveFollower({ sessionId }: LiveFollowerProps) {
+    const [position, setPosition] = useState<PresenterPosition | null>(null);
+    const [ended, setEnded] = useState(false);
+    const [connected, setConnected] = useState(false);
+
+    // Follow the session; EventSource reconnects by itself after a dropped connection
+    useEffect(() => {
+        const events = new EventSource(`/live/${encodeURIComponent(sessionId)}/events`);
+        events.onopen = () => setConnected(true);
+        events.onerror = () => setConnected(false);
+        events.addEventListener("position", (e) => {
+            setPosition(JSON.parse((e as MessageEvent<string>).data));
+        });
+        events.addEventListener("end", () => {
+            setEnded(true);
+            events.close();
+        });
+        return () => events.close();
+    }, [sessionId]);
+
+    if (ended) {
+        return (
+            <div className="card p-6 text-center space-y-2">
+                <h2 className="text-xl font-semibold">This live session has ended</h2>
+                {position?.current && (
+                    <Link href={`/song/${position.current.songId}`} className="text-[var(--accent)] hover:underline">
+                        Open the last song: {position.current.songTitle}
+                    </Link>
+                )}
+            </div>
+        );
+    }
+
+    if (!position) {
+        return (
+            <div className="card p-6 text-center text-[var(--muted)]">
+                {connected ? "Connected. Waiting for the first slide…" : "Connecting…"}
+            </div>
+        );
+    }
+
+    const { current, next } = position;
+    // Screen blacked out between songs (e.g. during the sermon)
+    const paused = position.black || !current;
+
+    return (
+        <div className="space-y-4">
+            {/* What is being presented */}
+            <p className="text-sm text-[var(--muted)] flex items-center gap-2">
+                <span className={`inline-block w-2 h-2 rounded-full ${connected ? "bg-green-500" : "bg-orange-500"}`} />
+                {connected ? "Live" : "Reconnecting…"} · {position.title}
+            </p>
+
+            {/* Current Slide */}
+            <div className="card p-6 space-y-3">
+                {current && (
+                    <div className="flex items-baseline justify-between gap-2">
+                        <Link
+                            href={`/song/${current.songId}`}
+                            className="font-semibold hover:text-[var(--accent)]"
+                            style={{ fontFamily: "var(--font-outfit)" }}
+                        >
+                            {current.songTitle}
+                        </Link>
+                        {current.label && (
+                            <span className="text-sm font-medium" style={{ color: "var(--accent)" }}>
+                                {current.label}
+                            </span>
+                        )}
+                    </div>
+                )}
+                {paused ? (
+                    <p className="text-[var(--muted)]">The screen is paused.</p>
+                ) : (
+                    <p className="text-2xl leading-snug whitespace-pre-line font-medium">
+                        {current.text}
+                    </p>
+                )}
+            </div>
+
+            {/* Next Slide */}
+            {next && !paused && (
+                <div className="px-2 text-[var(--muted)]">
+                    <p className="text-xs uppercase tracking-wide mb-1">
+                        {next.songIndex !== current.songIndex ? `Next song: ${next.songTitle}` : `Next${next.label ? `: ${next.label}` : ""}`}
+                    </p>
+                    <p className="whitespace-pre-line">{next.text}</p>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,94 @@
+/**
+ * @file LyricsView.tsx
+ * @description Shows a song's lyrics with their section structure.
+ * 
+ * The lyrics are parsed (see parseLyrics) rather than shown as typed:
+ * - Section headings ("Verse 1", "Chorus", custom names) above each section
+ * - A section sung several times in a row is shown once, marked "x2"
+ * - A section sung again later (the chorus after verse 2) is shown as a
+ *   compact "Chorus (repeat)" line instead of the full text
+ * - Call-and-response labels ("Leader:", "All:") stand out from the words
+ */
+
+import { LyricSection, parseLyrics, sectionsInOrder } from "@/utils/lyricsParser";
+
+/** Props for LyricsView */
+interface LyricsViewProps {
+    /** The raw lyrics text */
+    lyrics: string;
+    /** Section IDs to show the lyrics in (an arrangement); default: as written */
+    order?: string[];
+}
+
+/** A section as it appears in the song: sung `times` in a row, and shown before or not */
+interface LyricsBlock {
+    section: LyricSection;
+    times: number;
+    repeated: boolean;
+}
+
+/**
+ * Lyrics with section headings.
+ * 
+ * @example
+ * <LyricsView lyrics={song.lyrics} order={arrangement?.sequence} />
+ */
+export function LyricsView({ lyrics, order }: LyricsViewProps) {
+    const doc = parseLyrics(lyrics);
+
+    // Group consecutive runs of the same section
+    const blocks: LyricsBlock[] = [];
+    const shown = new Set<string>();
+    for (const section of sectionsInOrder(doc, order ?? doc.order)) {
+        const last = blocks[blocks.length - 1];
+        if (last?.section === section) {
+            last.times++;
+            continue;
+        }
+        blocks.push({ section, times: 1, repeated: shown.has(section.id) });
+        shown.add(section.id);
+    }
+
+    return (
+        <div className="lyrics-text space-y-6" style={{ fontFamily: "var(--font-inter)" }}>
+            {blocks.map(({ section, times, repeated }, index) => {
+                // Unlabelled sections are named by their first line when repeated
+                const heading = section.label ?? (repeated ? `“${section.stanzas[0][0].text}…”` : null);
+                const count = times > 1 ? ` x${times}` : "";
+
+                return (
+                    <section key={index}>
+                        {/* Section Heading */}
+                        {heading && (
+                            <h2 className="text-sm font-semibold uppercase tracking-wide text-[var(--accent)]">
+                                {heading}
+                                {repeated && <span className="normal-case font-normal text-[var(--muted)]"> (repeat)</span>}
+                                {count}
+                            </h2>
+                        )}
+                        {!heading && count && (
+                            <p className="text-sm font-semibold text-[var(--accent)]">{count.trim()}</p>
+                        )}
+
+                        {/* Section Lyrics (left out when repeated) */}
+                        {!repeated && section.stanzas.map((stanza, i) => (
+                            <p key={i} className={i > 0 ? "mt-4" : undefined}>
+                                {stanza.map((line, j) => (
+                                    <span key={j} className="block">
+                                        {line.part && line.part !== stanza[j - 1]?.part && (
+                                            <span className="font-semibold text-[var(--muted)]">{line.part}: </span>
+                                        )}
+                                        {line.text}
+                                        {line.repeat > 1 && (
+                                            <span className="text-[var(--muted)]"> (x{line.repeat})</span>
+                                        )}
+                                    </span>
+                                ))}
+                            </p>
+                        ))}
+                    </section>
+                );
+            })}
+        </div>
+    );
+}
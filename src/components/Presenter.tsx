@@ -0,0 +1,562 @@
+/**
+ * @file Presenter.tsx
+ * @description Full-screen presenter for projecting songs from a browser.
+ * 
+ * For churches without projection software: open presenter mode on the
+ * laptop connected to the projector and present slide by slide.
+ * 
+ * Features:
+ * - One slide at a time (see presentation.ts), following each song's
+ *   arrangement and slide format, or one layout chosen for every song
+ *   (built-in or a custom layout saved on this device)
+ * - Keyboard and presentation clicker navigation (arrow keys, Page Up /
+ *   Page Down), tapping or swiping on touch screens, and clicking
+ * - Jump to a section by typing its code: "V2", "C", "B"
+ * - Black screen and clear (hide the text, keep the background)
+ * - Text size and colours, saved on this device and independent of the
+ *   site theme (see presenterSettings.ts)
+ * - Controls panel (☰ or "M") with the songs, sections, settings and
+ *   keyboard shortcuts
+ * - Stage display: a second window for the singers' screen that follows
+ *   this one (see presenterChannel.ts)
+ * - Live session: phones that scan the session's QR code follow the
+ *   slides in real time (see liveSessions.ts)
+ */
+
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import QRCode from "qrcode";
+import { endLiveSessionAction, startLiveSessionAction, updateLiveSessionAction } from "@/app/actions";
+import { SLIDE_FORMAT_LAYOUTS, SlideFormat } from "@/utils/formatLyrics";
+import { parseLyrics, sectionLabel } from "@/utils/lyricsParser";
+import {
+    buildDeck,
+    findSectionSlide,
+    fitTextSize,
+    PresentationItem,
+    presenterPosition,
+    SECTION_KEYS,
+    songStart,
+} from "@/utils/presentation";
+import { openPresenterChannel } from "@/utils/presenterChannel";
+import { useSlideProfiles } from "@/utils/slideProfiles";
+import {
+    DEFAULT_PRESENTER_SETTINGS,
+    TEXT_SIZE_LIMITS,
+    updatePresenterSettings,
+    usePresenterSettings,
+} from "@/utils/presenterSettings";
+import { SETLIST_FORMATS, SLIDE_FORMAT_LABELS } from "@/lib/setlistSubmission";
+
+/** Props for the Presenter component */
+interface PresenterProps {
+    /** What is being presented (a song or setlist name), shown in the controls */
+    title: string;
+    /** The songs to present, in order */
+    items: PresentationItem[];
+    /** Where "Exit" goes (the song or setlist page) */
+    exitHref: string;
+}
+
+/** Keys that go to the next / previous slide (clickers send Page Down / Page Up) */
+const NEXT_KEYS = ["ArrowRight", "ArrowDown", "PageDown", " ", "Enter"];
+const PREVIOUS_KEYS = ["ArrowLeft", "ArrowUp", "PageUp", "Backspace"];
+
+/** Keyboard shortcuts listed in the controls panel */
+const SHORTCUTS = [
+    { keys: "→ ↓ Space PgDn", description: "Next slide" },
+    { keys: "← ↑ PgUp", description: "Previous slide" },
+    { keys: "] [", description: "Next / previous song" },
+    { keys: "V2 C B", description: "Jump to a section" },
+    { keys: ".", description: "Black screen" },
+    { keys: "H", description: "Hide text (clear)" },
+    { keys: "F", description: "Full screen" },
+    { keys: "M", description: "Show / hide controls" },
+    { keys: "S", description: "Open the stage display" },
+    { keys: "Q", description: "Show / hide the live session QR code" },
+];
+
+/** Shared classes for the buttons in the controls panel */
+const controlClassName =
+    "px-2 py-1 text-xs font-medium rounded-md border border-[var(--border)] hover:border-[var(--accent)] hover:text-[var(--accent)]";
+
+/**
+ * Presenter component.
+ * 
+ * @param title - Name of the song or setlist
+ * @param items - The songs to present
+ * @param exitHref - Page to go back to
+ * 
+ * @example
+ * <Presenter title={song.title} items={[{ song, format: "4-lines" }]} exitHref={`/song/${song.id}`} />
+ */
+export function Presenter({ title, items, exitHref }: PresenterProps) {
+    const settings = usePresenterSettings();
+    const profiles = useSlideProfiles();
+
+    // Layout for every song: "" for each song's own format, a built-in format or a custom layout's ID
+    const [layoutChoice, setLayoutChoice] = useState("");
+    const layoutFor = (choice: string) => {
+        const builtIn = SETLIST_FORMATS.find((format) => format === choice);
+        return profiles.find((p) => p.id === choice) ?? (builtIn ? SLIDE_FORMAT_LAYOUTS[builtIn] : null);
+    };
+    const layout = layoutFor(layoutChoice);
+    const deck = useMemo(() => buildDeck(items, layout), [items, layout]);
+
+    // The slide being shown
+    const [index, setIndex] = useState(0);
+    const position = Math.min(index, Math.max(deck.length - 1, 0));
+    const slide = deck[position] ?? null;
+
+    // Screen states and the controls panel
+    const [black, setBlack] = useState(false);
+    const [clear, setClear] = useState(false);
+    const [controlsOpen, setControlsOpen] = useState(false);
+
+    // Section code being typed ("V", "V2"), and the timer that jumps to it when typing stops
+    const [jumpCode, setJumpCode] = useState("");
+    const jumpTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    // Where a tap or swipe started
+    const pointerStart = useRef<number | null>(null);
+
+    // Where we are, for the stage display and live session
+    const followPosition = presenterPosition(title, items, deck, position, { black, clear });
+    const latestPosition = useRef(followPosition);
+    const channel = useRef<ReturnType<typeof openPresenterChannel> | null>(null);
+
+    // The live session being run (with its follow URL and QR code), and whether the QR code is on screen
+    const [live, setLive] = useState<{ id: string; controlKey: string; url: string; qr: string } | null>(null);
+    const [liveError, setLiveError] = useState<string | null>(null);
+    const [showQr, setShowQr] = useState(false);
+    const liveRef = useRef(live);
+    const lastSent = useRef<string | null>(null);
+
+    /** Shows a slide (kept within the deck) */
+    const goTo = (target: number) => setIndex(Math.min(Math.max(target, 0), deck.length - 1));
+
+    /** Goes to the start of the next (1) or previous (-1) song */
+    const goToSong = (by: number) => {
+        if (!slide) return;
+        const target = songStart(deck, slide.songIndex + by);
+        if (target >= 0) goTo(target);
+    };
+
+    /** Jumps to a section of the current song */
+    const jumpTo = (code: string) => {
+        const target = findSectionSlide(deck, position, code);
+        if (target >= 0) goTo(target);
+    };
+
+    /** Starts or extends the section code being typed, and jumps once typing stops */
+    const typeJumpCode = (code: string) => {
+        if (jumpTimer.current) clearTimeout(jumpTimer.current);
+        setJumpCode(code);
+        jumpTimer.current = setTimeout(() => {
+            setJumpCode("");
+            jumpTo(code);
+        }, /\d$/.test(code) ? 500 : 800);
+    };
+
+    /** Switches full screen on or off */
+    const toggleFullscreen = () => {
+        if (document.fullscreenElement) {
+            document.exitFullscreen();
+        } else {
+            document.documentElement.requestFullscreen().catch(() => {
+                // Not allowed (e.g. inside a frame): keep presenting in the window
+            });
+        }
+    };
+
+    /** Opens the stage display in a new window, to be moved to the singers' screen */
+    const openStageDisplay = () => {
+        window.open("/stage", "stage-display", "popup,width=1024,height=640");
+    };
+
+    /**
+     * Starts a live session and puts its QR code on screen.
+     */
+    const startLive = async () => {
+        setLiveError(null);
+        const result = await startLiveSessionAction();
+        if (!result.success || !result.id || !result.controlKey) {
+            setLiveError(result.error || "Failed to start a live session. Please try again.");
+            return;
+        }
+
+        const url = `${window.location.origin}/live/${result.id}`;
+        const qr = await QRCode.toDataURL(url, {
+            width: 480,
+            margin: 2,
+            color: {
+                dark: "#1a1a1a",
+                light: "#ffffff",
+            },
+        });
+        lastSent.current = null;
+        setLive({ id: result.id, controlKey: result.controlKey, url, qr });
+        setShowQr(true);
+    };
+
+    /**
+     * Ends the live session; phones following it are told it's over.
+     */
+    const endLive = () => {
+        if (live) endLiveSessionAction(live.id, live.controlKey);
+        setLive(null);
+        setShowQr(false);
+    };
+
+    /** Changes the layout and starts the current song again, as its slides change */
+    const changeLayout = (choice: string) => {
+        setLayoutChoice(choice);
+        if (slide) setIndex(Math.max(0, songStart(buildDeck(items, layoutFor(choice)), slide.songIndex)));
+    };
+
+    // Let stage displays in this browser follow along (they ask for the position when they open)
+    useEffect(() => {
+        channel.current = openPresenterChannel(() => latestPosition.current);
+        channel.current.post(latestPosition.current);
+        return () => channel.current?.close();
+    }, []);
+
+    // Send the position after every change
+    useEffect(() => {
+        latestPosition.current = followPosition;
+        channel.current?.post(followPosition);
+    });
+
+    // Send the position to the live session's phones when it changes
+    useEffect(() => {
+        liveRef.current = live;
+        const json = JSON.stringify(followPosition);
+        if (!live || json === lastSent.current) return;
+
+        lastSent.current = json;
+        updateLiveSessionAction(live.id, live.controlKey, followPosition).then((result) => {
+            if (!result.success) {
+                setLive(null);
+                setShowQr(false);
+                setLiveError(result.error || "The live session has ended.");
+            }
+        });
+    });
+
+    // End the live session when leaving presenter mode
+    useEffect(() => {
+        return () => {
+            const session = liveRef.current;
+            if (session) endLiveSessionAction(session.id, session.controlKey);
+        };
+    }, []);
+
+    // Keyboard and clicker navigation (re-subscribed each render, so it sees the current slide)
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            // Leave typing in the settings fields and browser shortcuts alone
+            const target = e.target as HTMLElement;
+            if (e.ctrlKey || e.metaKey || e.altKey || target.closest("input, select, textarea")) return;
+            if ((e.key === " " || e.key === "Enter") && target.closest("button, a")) return;
+
+            const key = e.key.toLowerCase();
+            if (jumpCode && e.key === "Enter") {
+                if (jumpTimer.current) clearTimeout(jumpTimer.current);
+                setJumpCode("");
+                jumpTo(jumpCode);
+            } else if (jumpCode && /^\d$/.test(key)) {
+                typeJumpCode(jumpCode + key);
+            } else if (NEXT_KEYS.includes(e.key)) {
+                goTo(position + 1);
+            } else if (PREVIOUS_KEYS.includes(e.key)) {
+                goTo(position - 1);
+            } else if (e.key === "Home" || e.key === "End") {
+                if (!slide) return;
+                const songSlides = deck.flatMap((s, i) => (s.songIndex === slide.songIndex ? [i] : []));
+                goTo(e.key === "Home" ? songSlides[0] : songSlides[songSlides.length - 1]);
+            } else if (key === "]" || key === "[") {
+                goToSong(key === "]" ? 1 : -1);
+            } else if (key === ".") {
+                setBlack((b) => !b);
+            } else if (key === "h") {
+                setClear((c) => !c);
+            } else if (key === "f") {
+                toggleFullscreen();
+            } else if (key === "s") {
+                openStageDisplay();
+            } else if (key === "q") {
+                if (live) setShowQr((shown) => !shown);
+            } else if (key === "m") {
+                setControlsOpen((open) => !open);
+            } else if (e.key === "Escape") {
+                setControlsOpen(false);
+            } else if (SECTION_KEYS.includes(key) && key.length === 1) {
+                typeJumpCode(key);
+            } else {
+                return;
+            }
+            e.preventDefault();
+        };
+
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    });
+
+    // Sections of the current song, for the jump buttons
+    const currentItem = slide ? items[slide.songIndex] : null;
+    const sections = currentItem
+        ? parseLyrics(currentItem.song.lyrics).sections.filter((section) =>
+            deck.some((s) => s.songIndex === slide!.songIndex && s.sectionId === section.id)
+        )
+        : [];
+
+    return (
+        <div
+            className="fixed inset-0 z-50 overflow-hidden select-none"
+            style={{ backgroundColor: black ? "#000000" : settings.background, color: settings.color }}
+        >
+            {/* Slide - tap or click the left third to go back, elsewhere to go on; swipe either way */}
+            <div
+                className="absolute inset-0 flex items-center justify-center p-[4vmin] touch-none cursor-pointer"
+                onPointerDown={(e) => {
+                    if (e.button === 0) pointerStart.current = e.clientX;
+                }}
+                onPointerUp={(e) => {
+                    const start = pointerStart.current;
+                    pointerStart.current = null;
+                    if (start === null) return;
+                    const dx = e.clientX - start;
+                    if (Math.abs(dx) > 50) goTo(position + (dx < 0 ? 1 : -1));
+                    else goTo(position + (e.clientX < window.innerWidth / 3 ? -1 : 1));
+                }}
+            >
+                {slide && !black && !clear && (
+                    <p
+                        className="text-center whitespace-pre-line font-semibold leading-tight"
+                        style={{ fontSize: fitTextSize(slide.text, `${settings.textSize}vmin`, 85) }}
+                    >
+                        {slide.text}
+                    </p>
+                )}
+                {!slide && <p className="text-xl opacity-60">No lyrics to present</p>}
+            </div>
+
+            {/* Live Session QR Code - for the congregation to scan */}
+            {live && showQr && (
+                <div className="absolute bottom-[4vmin] left-[4vmin] p-[1.5vmin] rounded-xl bg-white text-[#1a1a1a] text-center">
+                    <Image
+                        src={live.qr}
+                        alt="QR code to follow along"
+                        width={480}
+                        height={480}
+                        unoptimized
+                        className="w-[26vmin] h-[26vmin]"
+                    />
+                    <p className="mt-1 text-[2vmin] font-semibold">Follow along on your phone</p>
+                    <p className="text-[1.6vmin]">{live.url.replace(/^https?:\/\//, "")}</p>
+                </div>
+            )}
+
+            {/* Section Code Being Typed */}
+            {jumpCode && (
+                <div className="absolute top-4 left-4 px-3 py-1 rounded-lg bg-black/60 text-white font-mono text-lg">
+                    {jumpCode.toUpperCase()}
+                </div>
+            )}
+
+            {/* Controls Button - faint, so it doesn't distract on the projector */}
+            <button
+                onClick={() => setControlsOpen((open) => !open)}
+                aria-label="Presenter controls"
+                className="absolute bottom-3 right-3 px-3 py-2 rounded-lg bg-black/40 text-white opacity-30 hover:opacity-100 focus:opacity-100"
+            >
+                ☰
+            </button>
+
+            {/* Controls Panel */}
+            {controlsOpen && (
+                <aside className="card absolute top-0 right-0 h-full w-80 max-w-full overflow-y-auto rounded-none p-4 space-y-5 text-[var(--foreground)] text-sm">
+                    {/* Title, Position and Exit */}
+                    <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                            <p className="font-semibold truncate">{title}</p>
+                            <p className="text-xs text-[var(--muted)]">
+                                {deck.length > 0 ? `Slide ${position + 1} of ${deck.length}` : "No slides"}
+                                {slide?.label && ` · ${slide.label}`}
+                            </p>
+                        </div>
+                        <button onClick={() => setControlsOpen(false)} aria-label="Close controls" className={controlClassName}>
+                            ✕
+                        </button>
+                    </div>
+
+                    {/* Screen Toggles */}
+                    <div className="flex flex-wrap gap-1">
+                        <button onClick={() => setBlack((b) => !b)} className={`${controlClassName} ${black ? "bg-[var(--accent)] text-white" : ""}`}>
+                            Black
+                        </button>
+                        <button onClick={() => setClear((c) => !c)} className={`${controlClassName} ${clear ? "bg-[var(--accent)] text-white" : ""}`}>
+                            Clear
+                        </button>
+                        <button onClick={toggleFullscreen} className={controlClassName}>
+                            Full screen
+                        </button>
+                        <button onClick={openStageDisplay} className={controlClassName}>
+                            Stage display
+                        </button>
+                        <Link href={exitHref} className={controlClassName}>
+                            Exit
+                        </Link>
+                    </div>
+
+                    {/* Songs - when presenting a setlist */}
+                    {items.length > 1 && (
+                        <div className="space-y-1">
+                            <p className="font-medium">Songs</p>
+                            <ol className="space-y-1">
+                                {items.map((item, songIndex) => (
+                                    <li key={songIndex}>
+                                        <button
+                                            onClick={() => goTo(songStart(deck, songIndex))}
+                                            className={`text-left hover:text-[var(--accent)] ${slide?.songIndex === songIndex ? "text-[var(--accent)] font-medium" : ""}`}
+                                        >
+                                            {songIndex + 1}. {item.song.title}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ol>
+                        </div>
+                    )}
+
+                    {/* Sections of the Current Song */}
+                    {sections.length > 0 && (
+                        <div className="space-y-1">
+                            <p className="font-medium">Sections</p>
+                            <div className="flex flex-wrap gap-1">
+                                {sections.map((section) => (
+                                    <button
+                                        key={section.id}
+                                        onClick={() => jumpTo(section.id)}
+                                        className={`${controlClassName} ${slide?.sectionId === section.id ? "border-[var(--accent)] text-[var(--accent)]" : ""}`}
+                                    >
+                                        {section.id.toUpperCase()} · {sectionLabel(section)}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Display Settings */}
+                    <div className="space-y-3">
+                        <p className="font-medium">Display</p>
+                        <label className="block">
+                            <span className="block text-xs text-[var(--muted)] mb-1">Slide layout</span>
+                            <select
+                                value={layoutChoice}
+                                onChange={(e) => changeLayout(e.target.value)}
+                                className="w-full px-2 py-1 rounded-md bg-[var(--background)] border border-[var(--border)]"
+                            >
+                                <option value="">{items.length > 1 ? "As set for each song" : "As chosen"}</option>
+                                {SETLIST_FORMATS.map((format: SlideFormat) => (
+                                    <option key={format} value={format}>
+                                        {SLIDE_FORMAT_LABELS[format]}
+                                    </option>
+                                ))}
+                                {profiles.map((p) => (
+                                    <option key={p.id} value={p.id}>
+                                        {p.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="block">
+                            <span className="block text-xs text-[var(--muted)] mb-1">Text size</span>
+                            <input
+                                type="range"
+                                min={TEXT_SIZE_LIMITS.min}
+                                max={TEXT_SIZE_LIMITS.max}
+                                step={0.5}
+                                value={settings.textSize}
+                                onChange={(e) => updatePresenterSettings({ textSize: Number(e.target.value) })}
+                                className="w-full accent-[var(--accent)]"
+                            />
+                        </label>
+                        <div className="flex items-center gap-4">
+                            <label className="flex items-center gap-2">
+                                <input
+                                    type="color"
+                                    value={settings.background}
+                                    onChange={(e) => updatePresenterSettings({ background: e.target.value })}
+                                />
+                                <span className="text-xs">Background</span>
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <input
+                                    type="color"
+                                    value={settings.color}
+                                    onChange={(e) => updatePresenterSettings({ color: e.target.value })}
+                                />
+                                <span className="text-xs">Text</span>
+                            </label>
+                        </div>
+                        <button onClick={() => updatePresenterSettings(DEFAULT_PRESENTER_SETTINGS)} className={controlClassName}>
+                            Reset display
+                        </button>
+                    </div>
+
+                    {/* Live Session */}
+                    <div className="space-y-2">
+                        <p className="font-medium">Live session</p>
+                        {liveError && <p className="text-xs text-red-600 dark:text-red-400">{liveError}</p>}
+                        {live ? (
+                            <>
+                                <p className="text-xs text-[var(--muted)] break-all">
+                                    Phones follow at{" "}
+                                    <a href={live.url} target="_blank" rel="noopener noreferrer" className="text-[var(--accent)] hover:underline">
+                                        {live.url}
+                                    </a>
+                                </p>
+                                <div className="flex flex-wrap gap-1">
+                                    <button
+                                        onClick={() => setShowQr((shown) => !shown)}
+                                        className={`${controlClassName} ${showQr ? "bg-[var(--accent)] text-white" : ""}`}
+                                    >
+                                        QR code on screen
+                                    </button>
+                                    <button onClick={endLive} className={controlClassName}>
+                                        End session
+                                    </button>
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                <p className="text-xs text-[var(--muted)]">
+                                    Let the congregation follow the slides on their phones by scanning a QR code.
+                                </p>
+                                <button onClick={startLive} className={controlClassName}>
+                                    Start live session
+                                </button>
+                            </>
+                        )}
+                    </div>
+
+                    {/* Keyboard Shortcuts */}
+                    <div className="space-y-1">
+                        <p className="font-medium">Keys</p>
+                        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+                            {SHORTCUTS.map((shortcut) => (
+                                <div key={shortcut.keys} className="contents">
+                                    <dt className="font-mono text-[var(--muted)]">{shortcut.keys}</dt>
+                                    <dd>{shortcut.description}</dd>
+                                </div>
+                            ))}
+                        </dl>
+                    </div>
+                </aside>
+            )}
+        </div>
+    );
+}
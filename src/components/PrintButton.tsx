@@ -4,16 +4,27 @@
  * 
  * Opens a clean, minimal print view of the song lyrics
  * suitable for printing as a one-page lyric sheet.
+ * 
+ * Sections are printed under their labels in the order they are sung
+ * (following the chosen arrangement), with repeats written out.
  */
 
 "use client";
 
-import { Song } from "@/lib/songs";
+import type { Song } from "@/lib/songs";
+import { parseLyrics, sectionLabel, sectionsInOrder, sectionText } from "@/utils/lyricsParser";
 
 /** Props for the PrintButton component */
 interface PrintButtonProps {
     /** The song object to print */
     song: Song;
+    /** Section IDs to print in (the chosen arrangement); default: as written */
+    order?: string[];
+}
+
+/** Escapes text for the print window's HTML */
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
 }
 
 /**
@@ -23,15 +34,24 @@ interface PrintButtonProps {
  * then triggers the browser's print dialog.
  * 
  * @param song - The song to print
+ * @param order - The arrangement to follow, if one is chosen
  */
-export function PrintButton({ song }: PrintButtonProps) {
+export function PrintButton({ song, order }: PrintButtonProps) {
     const handlePrint = () => {
+        // Each section under its label, in the order sung
+        const doc = parseLyrics(song.lyrics);
+        const sections = sectionsInOrder(doc, order ?? doc.order)
+            .map((section) => `
+          <h2 class="section">${escapeHtml(sectionLabel(section))}</h2>
+          <pre class="lyrics">${escapeHtml(sectionText(section))}</pre>`)
+            .join("");
+
         // Create print-friendly HTML
         const printContent = `
       <!DOCTYPE html>
       <html>
         <head>
-          <title>${song.title} - Lyrics</title>
+          <title>${escapeHtml(song.title)} - Lyrics</title>
           <style>
             @page {
               margin: 1in;
@@ -61,10 +81,19 @@ export function PrintButton({ song }: PrintButtonProps) {
               font-size: 12px;
               margin-bottom: 24px;
             }
+            .section {
+              font-size: 12px;
+              text-transform: uppercase;
+              letter-spacing: 0.05em;
+              color: #666;
+              margin: 16px 0 4px;
+            }
             .lyrics {
               white-space: pre-wrap;
+              font-family: inherit;
               font-size: 14px;
               line-height: 1.8;
+              margin: 0;
             }
             .footer {
               margin-top: 40px;
@@ -80,10 +109,9 @@ export function PrintButton({ song }: PrintButtonProps) {
           </style>
         </head>
         <body>
-          <h1>${song.title}</h1>
-          <p class="artist">${song.artist || "Unknown artist"}</p>
-          <span class="language">${song.language}</span>
-          <pre class="lyrics">${song.lyrics}</pre>
+          <h1>${escapeHtml(song.title)}</h1>
+          <p class="artist">${escapeHtml(song.artist || "Unknown artist")}</p>
+          <span class="language">${escapeHtml(song.language)}</span>${sections}
           <p class="footer">Printed from 1co18 • 1co18.vercel.app</p>
         </body>
       </html>
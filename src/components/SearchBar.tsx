@@ -7,6 +7,7 @@
  * - Live suggestions dropdown showing top 5 matches
  * - Keyboard navigation (↑↓ to navigate, Enter to select, Escape to close)
  * - Match highlighting (shows which part of the title matched)
+ * - Search syntax help ("exact phrase", -word, artist:, lang:, title:, verified:)
  * - Loading indicator during search
  * 
  * This is the main entry point for finding songs in 1co18.
@@ -17,7 +18,9 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import { searchSongsSuggestions, Song, normalizeForSearch } from "@/lib/songs";
+import type { Song } from "@/lib/songs";
+import { searchSuggestionsAction } from "@/app/actions";
+import { HighlightMatch } from "./HighlightMatch";
 
 /**
  * Custom hook for debouncing values.
@@ -42,36 +45,15 @@ function useDebounce<T>(value: T, delay: number): T {
     return debouncedValue;
 }
 
-/**
- * Component to highlight matching text in search results.
- * Shows the matched portion in the accent color.
- * 
- * @param text - The full text to display
- * @param query - The search query to highlight
- */
-function HighlightMatch({ text, query }: { text: string; query: string }) {
-    if (!query.trim()) return <>{text}</>;
-
-    // Normalize both for matching, but display original text
-    const normalizedText = normalizeForSearch(text);
-    const normalizedQuery = normalizeForSearch(query);
-
-    const index = normalizedText.indexOf(normalizedQuery);
-    if (index === -1) return <>{text}</>;
-
-    // Split text at match position
-    const before = text.substring(0, index);
-    const match = text.substring(index, index + query.length);
-    const after = text.substring(index + query.length);
-
-    return (
-        <>
-            {before}
-            <span className="text-[var(--accent)] font-medium">{match}</span>
-            {after}
-        </>
-    );
-}
+/** Advanced search operators listed in the help popover */
+const SEARCH_SYNTAX = [
+    { example: '"meda wo ase"', description: "Exact phrase" },
+    { example: "-yesu", description: "Exclude a word" },
+    { example: 'artist:"Tagoe Sisters"', description: "Songs by an artist" },
+    { example: "title:aseda", description: "Word in the title" },
+    { example: "lang:ga", description: "Language (name or code)" },
+    { example: "verified:true", description: "Reviewed songs only" },
+];
 
 /**
  * Search bar component with live suggestions.
@@ -92,6 +74,12 @@ export function SearchBar() {
     // Search results for dropdown
     const [suggestions, setSuggestions] = useState<Song[]>([]);
 
+    // Query text to highlight in suggestions (without search operators)
+    const [highlight, setHighlight] = useState("");
+
+    // Search syntax help visibility
+    const [showHelp, setShowHelp] = useState(false);
+
     // Dropdown visibility
     const [isOpen, setIsOpen] = useState(false);
 
@@ -115,8 +103,9 @@ export function SearchBar() {
         async function fetchSuggestions() {
             if (debouncedQuery.trim()) {
                 setIsLoading(true);
-                const results = await searchSongsSuggestions(debouncedQuery);
-                setSuggestions(results);
+                const results = await searchSuggestionsAction(debouncedQuery);
+                setSuggestions(results.songs);
+                setHighlight(results.highlight);
                 setIsOpen(true);
                 setSelectedIndex(-1); // Reset selection on new results
                 setIsLoading(false);
@@ -134,6 +123,7 @@ export function SearchBar() {
         function handleClickOutside(event: MouseEvent) {
             if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
                 setIsOpen(false);
+                setShowHelp(false);
             }
         }
 
@@ -229,9 +219,43 @@ export function SearchBar() {
                     {isLoading && (
                         <div className="w-5 h-5 border-2 border-[var(--accent)] border-t-transparent rounded-full animate-spin" />
                     )}
+
+                    {/* Search Syntax Help Toggle */}
+                    <button
+                        type="button"
+                        onClick={() => {
+                            setShowHelp((prev) => !prev);
+                            setIsOpen(false);
+                        }}
+                        className="ml-3 w-6 h-6 flex-shrink-0 rounded-full border border-[var(--border)] text-xs text-[var(--muted)] hover:text-[var(--accent)] hover:border-[var(--accent)] transition-colors"
+                        aria-label="Search syntax help"
+                        aria-expanded={showHelp}
+                    >
+                        ?
+                    </button>
                 </div>
             </form>
 
+            {/* Search Syntax Help - hidden while suggestions are showing */}
+            {showHelp && !isOpen && (
+                <div className="absolute top-full left-0 right-0 mt-2 card p-4 shadow-lg z-50 text-sm">
+                    <p className="font-medium mb-2" style={{ fontFamily: "var(--font-outfit)" }}>
+                        Search tips
+                    </p>
+                    <ul className="space-y-1.5">
+                        {SEARCH_SYNTAX.map(({ example, description }) => (
+                            <li key={example} className="flex justify-between gap-4">
+                                <code className="text-[var(--accent)]">{example}</code>
+                                <span className="text-[var(--muted)] text-right">{description}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    <p className="text-[var(--muted)] mt-3">
+                        Combine them freely, e.g. <code>aseda lang:tw -yesu</code>
+                    </p>
+                </div>
+            )}
+
             {/* Suggestions Dropdown */}
             {isOpen && (suggestions.length > 0 || isLoading) && (
                 <div className="absolute top-full left-0 right-0 mt-2 card overflow-hidden shadow-lg z-50">
@@ -255,7 +279,7 @@ export function SearchBar() {
                                                     className="font-medium"
                                                     style={{ fontFamily: "var(--font-outfit)" }}
                                                 >
-                                                    <HighlightMatch text={song.title} query={query} />
+                                                    <HighlightMatch text={song.title} query={highlight} />
                                                 </div>
                                                 {/* Artist Name */}
                                                 <div className="text-sm text-[var(--muted)]">
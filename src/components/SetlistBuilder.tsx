@@ -0,0 +1,394 @@
+/**
+ * @file SetlistBuilder.tsx
+ * @description Builder for a service setlist.
+ * 
+ * Features:
+ * - Name and service date fields
+ * - Song search, to add songs without leaving the page (songs can also
+ *   be added from song pages and search results)
+ * - Reorder and remove songs
+ * - Arrangement and slide format for each song
+ * - Copy or export the whole setlist (see SetlistExportButtons)
+ * - Save and share: saving gives the setlist a link anyone can open;
+ *   it can be changed again from this device only
+ * - List of the setlists saved from this device
+ * - Hidden honeypot field to catch spam bots
+ * 
+ * The setlist being built is kept on this device (see setlistDraft.ts),
+ * so it survives reloads and moving between pages.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { Song } from "@/lib/songs";
+import type { SongArrangement } from "@/lib/repository";
+import { getSetlistSongsAction, saveSetlistAction, searchSuggestionsAction } from "@/app/actions";
+import { HONEYPOT_FIELD } from "@/lib/songSubmission";
+import { SETLIST_FORMATS, SETLIST_LIMITS, SLIDE_FORMAT_LABELS } from "@/lib/setlistSubmission";
+import type { SlideFormat } from "@/utils/formatLyrics";
+import {
+    addToSetlistDraft,
+    DraftItem,
+    EMPTY_DRAFT,
+    rememberSavedSetlist,
+    setSetlistDraft,
+    SetlistDraft,
+    useSavedSetlists,
+    useSetlistDraft,
+} from "@/utils/setlistDraft";
+import { SetlistExportButtons } from "./SetlistExportButtons";
+
+/** Shared classes for the inputs */
+const inputClassName =
+    "w-full px-3 py-2 rounded-lg bg-[var(--background)] border border-[var(--border)] focus:border-[var(--accent)] focus:outline-none text-sm";
+
+/** Shared classes for the small buttons on each song */
+const smallButtonClassName =
+    "px-2 py-1 text-xs rounded-md border border-[var(--border)] text-[var(--muted)] hover:text-[var(--foreground)] disabled:opacity-40";
+
+/** A looked-up setlist song, or null when it no longer exists */
+type LoadedSong = { song: Song; arrangements: SongArrangement[] } | null;
+
+/**
+ * Setlist builder component.
+ * 
+ * @example
+ * <SetlistBuilder />
+ */
+export function SetlistBuilder() {
+    const draft = useSetlistDraft();
+    const savedSetlists = useSavedSetlists();
+
+    // Songs looked up so far, by ID
+    const [songs, setSongs] = useState<Record<number, LoadedSong>>({});
+
+    // Song search
+    const [query, setQuery] = useState("");
+    const [results, setResults] = useState<Song[] | null>(null);
+
+    // Save state
+    const [honeypot, setHoneypot] = useState("");
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [linkCopied, setLinkCopied] = useState(false);
+
+    // Look up the songs added since the last lookup
+    const missingIds = draft.items.map((item) => item.song_id).filter((id) => !(id in songs)).join(",");
+    useEffect(() => {
+        if (!missingIds) return;
+        const ids = missingIds.split(",").map(Number);
+        getSetlistSongsAction(ids).then((found) => {
+            setSongs((prev) => {
+                const next = { ...prev };
+                for (const id of ids) next[id] = found.find((f) => f.song.id === id) ?? null;
+                return next;
+            });
+        });
+    }, [missingIds]);
+
+    /** Applies changes to the draft */
+    const update = (changes: Partial<SetlistDraft>) => setSetlistDraft({ ...draft, ...changes });
+
+    /** Applies changes to one song */
+    const updateItem = (index: number, changes: Partial<DraftItem>) =>
+        update({ items: draft.items.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+
+    /** Moves a song up (-1) or down (1) */
+    const moveItem = (index: number, by: number) => {
+        const items = [...draft.items];
+        [items[index], items[index + by]] = [items[index + by], items[index]];
+        update({ items });
+    };
+
+    /**
+     * Searches for songs to add.
+     */
+    const handleSearch = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!query.trim()) return;
+        setResults((await searchSuggestionsAction(query)).songs);
+    };
+
+    /**
+     * Saves the setlist: a new one, or changes to the one saved from this device.
+     */
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError(null);
+
+        const setlist = {
+            name: draft.name,
+            service_date: draft.service_date,
+            items: draft.items.map(({ song_id, arrangement, format }) => ({ song_id, arrangement, format })),
+        };
+        const result = await saveSetlistAction(setlist, draft.saved, honeypot);
+
+        if (result.success && result.id) {
+            const saved = { id: result.id, editKey: result.editKey ?? draft.saved?.editKey ?? "" };
+            rememberSavedSetlist({ ...saved, name: draft.name.trim(), service_date: draft.service_date || null });
+            update({ saved });
+        } else {
+            setError(result.error || "Failed to save the setlist. Please try again.");
+        }
+
+        setIsSaving(false);
+    };
+
+    /**
+     * Copies the share link to the clipboard.
+     */
+    const handleCopyLink = async () => {
+        if (!draft.saved) return;
+        await navigator.clipboard.writeText(`${window.location.origin}/setlist/${draft.saved.id}`);
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+    };
+
+    /**
+     * Starts a new, empty setlist.
+     */
+    const handleNew = () => {
+        if (draft.items.length > 0 && !confirm("Start a new setlist? The songs in this one will be cleared.")) return;
+        setSetlistDraft(EMPTY_DRAFT);
+        setError(null);
+    };
+
+    // The songs to export, in order (songs not looked up yet or missing are left out)
+    const entries = draft.items.flatMap((item) => {
+        const loaded = songs[item.song_id];
+        if (!loaded) return [];
+        const arrangement = loaded.arrangements.find((a) => a.name === item.arrangement);
+        return [{ song: loaded.song, format: item.format, order: arrangement?.sequence }];
+    });
+
+    return (
+        <div className="grid md:grid-cols-[1fr_280px] gap-8">
+            {/* Left Column: Details and Songs */}
+            <div className="space-y-6">
+                {/* Name and Date */}
+                <div className="card p-6 grid sm:grid-cols-[1fr_180px] gap-4">
+                    <div>
+                        <label htmlFor="setlist-name" className="block text-sm font-medium mb-1">
+                            Name
+                        </label>
+                        <input
+                            type="text"
+                            id="setlist-name"
+                            value={draft.name}
+                            onChange={(e) => update({ name: e.target.value })}
+                            maxLength={SETLIST_LIMITS.name}
+                            placeholder="e.g., Sunday Morning Service"
+                            className={inputClassName}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="setlist-date" className="block text-sm font-medium mb-1">
+                            Service date
+                        </label>
+                        <input
+                            type="date"
+                            id="setlist-date"
+                            value={draft.service_date}
+                            onChange={(e) => update({ service_date: e.target.value })}
+                            className={inputClassName}
+                        />
+                    </div>
+                </div>
+
+                {/* Songs */}
+                <div className="card p-6 space-y-3">
+                    <h2 className="text-lg font-semibold">
+                        Songs <span className="text-sm font-normal text-[var(--muted)]">({draft.items.length}/{SETLIST_LIMITS.items})</span>
+                    </h2>
+
+                    {draft.items.length === 0 && (
+                        <p className="text-sm text-[var(--muted)]">
+                            No songs yet. Search below, or use &quot;Add to setlist&quot; on a song page.
+                        </p>
+                    )}
+
+                    <ol className="space-y-3">
+                        {draft.items.map((item, index) => {
+                            const loaded = songs[item.song_id];
+                            return (
+                                <li key={item.song_id} className="p-3 rounded-lg border border-[var(--border)] space-y-2">
+                                    {/* Title and Move/Remove Buttons */}
+                                    <div className="flex items-start gap-2">
+                                        <span className="text-sm text-[var(--muted)] w-6">{index + 1}.</span>
+                                        <div className="flex-1 min-w-0">
+                                            <Link href={`/song/${item.song_id}`} className="font-medium hover:text-[var(--accent)]">
+                                                {item.title}
+                                            </Link>
+                                            <p className="text-xs text-[var(--muted)]">{item.artist || "Unknown artist"}</p>
+                                        </div>
+                                        <button onClick={() => moveItem(index, -1)} disabled={index === 0} aria-label="Move up" className={smallButtonClassName}>
+                                            ↑
+                                        </button>
+                                        <button onClick={() => moveItem(index, 1)} disabled={index === draft.items.length - 1} aria-label="Move down" className={smallButtonClassName}>
+                                            ↓
+                                        </button>
+                                        <button
+                                            onClick={() => update({ items: draft.items.filter((_, i) => i !== index) })}
+                                            aria-label="Remove"
+                                            className={smallButtonClassName}
+                                        >
+                                            ✕
+                                        </button>
+                                    </div>
+
+                                    {/* Arrangement and Format */}
+                                    {loaded === null ? (
+                                        <p className="text-xs text-red-600 dark:text-red-400">This song is no longer available and will be left out.</p>
+                                    ) : (
+                                        <div className="grid grid-cols-2 gap-2 pl-8">
+                                            <select
+                                                value={item.arrangement ?? ""}
+                                                onChange={(e) => updateItem(index, { arrangement: e.target.value || null })}
+                                                aria-label="Arrangement"
+                                                className={inputClassName}
+                                            >
+                                                <option value="">As written</option>
+                                                {/* Keep a chosen arrangement listed while the song loads */}
+                                                {(loaded?.arrangements.map((a) => a.name) ?? (item.arrangement ? [item.arrangement] : [])).map((name) => (
+                                                    <option key={name} value={name}>
+                                                        {name}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <select
+                                                value={item.format}
+                                                onChange={(e) => updateItem(index, { format: e.target.value as SlideFormat })}
+                                                aria-label="Slide format"
+                                                className={inputClassName}
+                                            >
+                                                {SETLIST_FORMATS.map((format) => (
+                                                    <option key={format} value={format}>
+                                                        {SLIDE_FORMAT_LABELS[format]}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ol>
+
+                    {/* Song Search */}
+                    <form onSubmit={handleSearch} className="flex gap-2 pt-2">
+                        <input
+                            type="search"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="Find a song to add..."
+                            aria-label="Find a song to add"
+                            className={inputClassName}
+                        />
+                        <button type="submit" className="btn-secondary px-4 py-2 rounded-lg text-sm font-medium">
+                            Search
+                        </button>
+                    </form>
+                    {results && (
+                        <ul className="space-y-1">
+                            {results.length === 0 && <li className="text-sm text-[var(--muted)]">No songs found</li>}
+                            {results.map((song) => {
+                                const added = draft.items.some((item) => item.song_id === song.id);
+                                return (
+                                    <li key={song.id} className="flex items-center justify-between gap-2 text-sm">
+                                        <span className="min-w-0 truncate">
+                                            {song.title} <span className="text-[var(--muted)]">- {song.artist || "Unknown artist"}</span>
+                                        </span>
+                                        <button
+                                            onClick={() => addToSetlistDraft(song)}
+                                            disabled={added || draft.items.length >= SETLIST_LIMITS.items}
+                                            className={smallButtonClassName}
+                                        >
+                                            {added ? "Added" : "+ Add"}
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+            </div>
+
+            {/* Right Column: Export and Save (Sticky on Desktop) */}
+            <div className="md:sticky md:top-6 h-fit space-y-4">
+                {/* Export */}
+                <div className="card p-4">
+                    <SetlistExportButtons name={draft.name} entries={entries} />
+                </div>
+
+                {/* Save and Share */}
+                <form onSubmit={handleSave} className="card p-4 space-y-3">
+                    {/* Error Message */}
+                    {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+                    {/* Honeypot - hidden from people, left empty by them; bots fill it in */}
+                    <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+                        <label htmlFor={`${HONEYPOT_FIELD}-setlist`}>Website</label>
+                        <input
+                            type="text"
+                            id={`${HONEYPOT_FIELD}-setlist`}
+                            value={honeypot}
+                            onChange={(e) => setHoneypot(e.target.value)}
+                            tabIndex={-1}
+                            autoComplete="off"
+                        />
+                    </div>
+
+                    <button
+                        type="submit"
+                        disabled={isSaving || draft.items.length === 0}
+                        className="w-full btn-primary px-4 py-3 rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isSaving ? "Saving..." : draft.saved ? "Save changes" : "Save & share"}
+                    </button>
+
+                    {/* Share Link - once saved */}
+                    {draft.saved && (
+                        <div className="flex items-center gap-2 text-sm">
+                            <Link href={`/setlist/${draft.saved.id}`} className="flex-1 text-[var(--accent)] hover:underline truncate">
+                                /setlist/{draft.saved.id}
+                            </Link>
+                            <button type="button" onClick={handleCopyLink} className={smallButtonClassName}>
+                                {linkCopied ? "Copied!" : "Copy link"}
+                            </button>
+                        </div>
+                    )}
+
+                    <button
+                        type="button"
+                        onClick={handleNew}
+                        className="block w-full text-center text-sm text-[var(--muted)] hover:text-[var(--accent)]"
+                    >
+                        New setlist
+                    </button>
+                </form>
+
+                {/* Setlists Saved From This Device */}
+                {savedSetlists.length > 0 && (
+                    <div className="card p-4 space-y-2">
+                        <p className="text-sm font-medium">My setlists</p>
+                        <ul className="space-y-1 text-sm">
+                            {savedSetlists.map((saved) => (
+                                <li key={saved.id}>
+                                    <Link href={`/setlist/${saved.id}`} className="hover:text-[var(--accent)]">
+                                        {saved.name}
+                                    </Link>
+                                    {saved.service_date && (
+                                        <span className="text-xs text-[var(--muted)]"> · {saved.service_date}</span>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
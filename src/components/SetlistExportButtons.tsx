@@ -0,0 +1,98 @@
+/**
+ * @file SetlistExportButtons.tsx
+ * @description Copy and export buttons for a whole setlist.
+ * 
+ * Used by the setlist builder and the shared setlist page. Every song
+ * is exported in its chosen arrangement and slide format:
+ * - "Copy all for Projection": every song's slides, each song starting
+ *   with a title slide (see formatSetlist)
+ * - "Download .txt": the same text as a file
+ * - "Download OpenLyrics": one XML file per song
+ */
+
+"use client";
+
+import { useState } from "react";
+import type { Song } from "@/lib/songs";
+import { formatSetlist, generateOpenLyricsXML, SlideFormat } from "@/utils/formatLyrics";
+import { downloadFile, fileNameFor } from "@/utils/download";
+
+/** Props for the SetlistExportButtons component */
+interface SetlistExportButtonsProps {
+    /** The setlist's name, used for the .txt file name */
+    name: string;
+    /** The songs in order, each with its slide format and section order */
+    entries: Array<{ song: Song; format: SlideFormat; order?: string[] }>;
+}
+
+/**
+ * Setlist copy and export buttons.
+ * 
+ * @param name - The setlist's name
+ * @param entries - The songs to export
+ */
+export function SetlistExportButtons({ name, entries }: SetlistExportButtonsProps) {
+    // Track copy state for showing feedback
+    const [copied, setCopied] = useState(false);
+
+    const empty = entries.length === 0;
+
+    /**
+     * Copies every song's slides to the clipboard.
+     */
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(formatSetlist(entries));
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    /**
+     * Downloads every song's slides as one text file.
+     */
+    const handleText = () => {
+        downloadFile(fileNameFor(name.trim() || "Setlist", "txt"), formatSetlist(entries), "text/plain");
+    };
+
+    /**
+     * Downloads one OpenLyrics file per song, numbered in setlist order.
+     */
+    const handleOpenLyrics = () => {
+        entries.forEach(({ song, order }, index) => {
+            const number = String(index + 1).padStart(2, "0");
+            const xml = generateOpenLyricsXML(song, song.created_at, order);
+            downloadFile(fileNameFor(`${number} ${song.title}`, "xml"), xml, "application/xml");
+        });
+    };
+
+    return (
+        <div className="space-y-3">
+            {/* Copy All Button */}
+            <button
+                onClick={handleCopy}
+                disabled={empty}
+                className="w-full btn-primary flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                {copied ? "✓ Copied!" : "Copy all for Projection"}
+            </button>
+
+            {/* File Downloads */}
+            <div className="flex gap-2">
+                <button
+                    onClick={handleText}
+                    disabled={empty}
+                    className="flex-1 btn-secondary px-3 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+                >
+                    Download .txt
+                </button>
+                <button
+                    onClick={handleOpenLyrics}
+                    disabled={empty}
+                    title="One OpenLyrics file per song"
+                    className="flex-1 btn-secondary px-3 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+                >
+                    Download OpenLyrics
+                </button>
+            </div>
+        </div>
+    );
+}
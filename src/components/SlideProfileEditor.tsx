@@ -0,0 +1,172 @@
+/**
+ * @file SlideProfileEditor.tsx
+ * @description Creates, edits and deletes custom slide layout profiles.
+ * 
+ * Fields: name, lines per slide (blank for a whole stanza), maximum
+ * characters per line (blank to never wrap), a label on every slide,
+ * and a title slide. Profiles are saved on this device (see slideProfiles.ts).
+ */
+
+"use client";
+
+import { useState } from "react";
+import {
+    loadSlideProfiles,
+    normalizeSlideProfile,
+    saveSlideProfiles,
+    SLIDE_PROFILE_LIMITS,
+    SlideProfile,
+} from "@/utils/slideProfiles";
+
+/** Shared classes for the inputs */
+const inputClassName =
+    "w-full px-3 py-2 rounded-lg bg-[var(--background)] border border-[var(--border)] focus:border-[var(--accent)] focus:outline-none text-sm";
+
+/** Props for the SlideProfileEditor component */
+interface SlideProfileEditorProps {
+    /** The profile to edit, or null to create one */
+    profile: SlideProfile | null;
+    /** Called when the editor closes, with the saved or edited profile's ID (null if deleted, or a new one cancelled) */
+    onDone: (profileId: string | null) => void;
+}
+
+/**
+ * Slide layout profile editor.
+ * 
+ * @example
+ * <SlideProfileEditor profile={selected} onDone={(id) => id && setFormat(id)} />
+ */
+export function SlideProfileEditor({ profile, onDone }: SlideProfileEditorProps) {
+    // Form field values (numbers as typed; blank means "no limit")
+    const [name, setName] = useState(profile?.name ?? "");
+    const [linesPerSlide, setLinesPerSlide] = useState(String(profile?.linesPerSlide ?? 2));
+    const [maxLineLength, setMaxLineLength] = useState(String(profile?.maxLineLength ?? ""));
+    const [labelEverySlide, setLabelEverySlide] = useState(profile?.labelEverySlide ?? false);
+    const [titleSlide, setTitleSlide] = useState(profile?.titleSlide ?? false);
+
+    /**
+     * Saves the profile (adding it, or replacing the one being edited).
+     */
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        const saved = normalizeSlideProfile({
+            id: profile?.id,
+            name,
+            linesPerSlide: linesPerSlide ? Number(linesPerSlide) : null,
+            maxLineLength: maxLineLength ? Number(maxLineLength) : null,
+            labelEverySlide,
+            titleSlide,
+        });
+
+        const others = loadSlideProfiles().filter((p) => p.id !== saved.id);
+        saveSlideProfiles([...others, saved]);
+        onDone(saved.id);
+    };
+
+    /**
+     * Deletes the profile being edited.
+     */
+    const handleDelete = () => {
+        if (!profile || !confirm(`Delete the "${profile.name}" layout?`)) return;
+        saveSlideProfiles(loadSlideProfiles().filter((p) => p.id !== profile.id));
+        onDone(null);
+    };
+
+    return (
+        <form onSubmit={handleSave} className="space-y-3 p-3 rounded-lg border border-[var(--border)]">
+            {/* Name Field */}
+            <div>
+                <label htmlFor="profile-name" className="block text-xs font-medium mb-1">
+                    Layout name
+                </label>
+                <input
+                    type="text"
+                    id="profile-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    required
+                    maxLength={SLIDE_PROFILE_LIMITS.name}
+                    placeholder="e.g., Main screen"
+                    className={inputClassName}
+                />
+            </div>
+
+            {/* Line Count and Width Fields */}
+            <div className="grid grid-cols-2 gap-2">
+                <div>
+                    <label htmlFor="profile-lines" className="block text-xs font-medium mb-1">
+                        Lines per slide
+                    </label>
+                    <input
+                        type="number"
+                        id="profile-lines"
+                        value={linesPerSlide}
+                        onChange={(e) => setLinesPerSlide(e.target.value)}
+                        min={1}
+                        max={SLIDE_PROFILE_LIMITS.linesPerSlide}
+                        placeholder="Whole verse"
+                        className={inputClassName}
+                    />
+                </div>
+                <div>
+                    <label htmlFor="profile-width" className="block text-xs font-medium mb-1">
+                        Max characters/line
+                    </label>
+                    <input
+                        type="number"
+                        id="profile-width"
+                        value={maxLineLength}
+                        onChange={(e) => setMaxLineLength(e.target.value)}
+                        min={SLIDE_PROFILE_LIMITS.minLineLength}
+                        max={SLIDE_PROFILE_LIMITS.maxLineLength}
+                        placeholder="No limit"
+                        className={inputClassName}
+                    />
+                </div>
+            </div>
+
+            {/* Options */}
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={labelEverySlide}
+                    onChange={(e) => setLabelEverySlide(e.target.checked)}
+                    className="w-4 h-4 accent-[var(--accent)]"
+                />
+                Section label on every slide
+            </label>
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={titleSlide}
+                    onChange={(e) => setTitleSlide(e.target.checked)}
+                    className="w-4 h-4 accent-[var(--accent)]"
+                />
+                Title slide at the start
+            </label>
+
+            {/* Save, Delete and Cancel Buttons */}
+            <div className="flex gap-2">
+                <button type="submit" className="flex-1 btn-primary px-3 py-2 rounded-lg text-sm font-medium">
+                    Save layout
+                </button>
+                {profile && (
+                    <button
+                        type="button"
+                        onClick={handleDelete}
+                        className="btn-secondary px-3 py-2 rounded-lg text-sm font-medium"
+                    >
+                        Delete
+                    </button>
+                )}
+                <button
+                    type="button"
+                    onClick={() => onDone(profile?.id ?? null)}
+                    className="px-3 py-2 rounded-lg text-sm text-[var(--muted)] hover:text-[var(--foreground)]"
+                >
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+}
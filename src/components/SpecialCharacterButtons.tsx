@@ -0,0 +1,55 @@
+/**
+ * @file SpecialCharacterButtons.tsx
+ * @description Buttons that insert a language's special letters and tone marks.
+ * 
+ * Used under the lyrics textarea of the Add Song and Suggest a Correction
+ * forms, so people without a Twi, Ga or Ewe keyboard can still type
+ * ɛ, ɔ, ŋ, ɖ and tone marks. Renders nothing for languages without
+ * special letters (e.g. English).
+ */
+
+"use client";
+
+import { specialCharactersFor, TONE_MARKS, isLanguage } from "@/lib/languages";
+
+/** Props for SpecialCharacterButtons */
+interface SpecialCharacterButtonsProps {
+    /** The selected language; decides which buttons are shown */
+    language: string;
+    /** Called with the character (or combining tone mark) to insert */
+    onInsert: (char: string) => void;
+}
+
+/** Shared classes for every insert button */
+const buttonClassName =
+    "px-3 py-1 text-sm font-medium rounded border border-[var(--border)] hover:border-[var(--accent)] hover:text-[var(--accent)] transition-colors bg-[var(--surface)]";
+
+/**
+ * Row of character insertion buttons for the given language.
+ * 
+ * @example
+ * <SpecialCharacterButtons language="Ewe" onInsert={insertCharacter} />
+ */
+export function SpecialCharacterButtons({ language, onInsert }: SpecialCharacterButtonsProps) {
+    const specialCharacters = specialCharactersFor(language);
+    const toneMarks = isLanguage(language) ? TONE_MARKS[language] : [];
+
+    if (specialCharacters.length === 0 && toneMarks.length === 0) return null;
+
+    return (
+        <div className="flex flex-wrap gap-2 mb-2">
+            <span className="text-xs text-[var(--muted)] mr-1 self-center">Insert:</span>
+            {specialCharacters.map((char) => (
+                <button key={char} type="button" onClick={() => onInsert(char)} className={buttonClassName}>
+                    {char}
+                </button>
+            ))}
+            {/* Tone marks combine with the letter before the cursor */}
+            {toneMarks.map(({ mark, label }) => (
+                <button key={mark} type="button" onClick={() => onInsert(mark)} className={buttonClassName}>
+                    {label}
+                </button>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,115 @@
+/**
+ * @file StageDisplay.tsx
+ * @description Confidence monitor for singers and band.
+ * 
+ * Follows presenter mode in another window of the same browser (see
+ * presenterChannel.ts) and shows, in a fixed high-contrast layout:
+ * - The current slide, large, with its section name
+ * - The next slide, smaller, with its section name (or the next song)
+ * - A clock, the slide number, and whether the audience screen is
+ *   blacked out or cleared
+ * 
+ * The layout doesn't follow the presenter's display settings: it is
+ * made to be read at a distance, whatever the audience sees.
+ */
+
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { fitTextSize, PositionSlide } from "@/utils/presentation";
+import { usePresenterPosition } from "@/utils/presenterChannel";
+
+/** Subscribes to a tick every second, for the clock */
+function subscribeToClock(onTick: () => void) {
+    const timer = setInterval(onTick, 1000);
+    return () => clearInterval(timer);
+}
+
+/** The current time as hours and minutes ("" during server rendering) */
+function useClock(): string {
+    return useSyncExternalStore(
+        subscribeToClock,
+        () => new Date().toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
+        () => ""
+    );
+}
+
+/** A slide's section name; title slides have none */
+function slideLabel(slide: PositionSlide): string {
+    return slide.label ?? "Title";
+}
+
+/**
+ * Stage display component.
+ * 
+ * @example
+ * <StageDisplay />
+ */
+export function StageDisplay() {
+    const position = usePresenterPosition();
+    const clock = useClock();
+
+    const current = position?.current ?? null;
+    const next = position?.next ?? null;
+    const nextIsNewSong = current && next && next.songIndex !== current.songIndex;
+
+    return (
+        <div className="fixed inset-0 z-50 flex flex-col bg-black text-white select-none">
+            {/* Top Bar: Section, Screen State and Clock */}
+            <div className="flex items-center justify-between gap-4 px-[3vw] py-[2vh] border-b border-white/20">
+                <p className="text-[4vh] font-bold text-yellow-300 truncate">
+                    {current ? slideLabel(current) : ""}
+                </p>
+                <div className="flex items-center gap-[2vw]">
+                    {position?.black && (
+                        <span className="px-3 py-1 rounded bg-red-600 text-[2.5vh] font-bold">BLACK</span>
+                    )}
+                    {position?.clear && !position.black && (
+                        <span className="px-3 py-1 rounded bg-orange-600 text-[2.5vh] font-bold">CLEAR</span>
+                    )}
+                    {position && position.slideCount > 0 && (
+                        <span className="text-[2.5vh] text-white/60">
+                            {position.slideNumber}/{position.slideCount}
+                        </span>
+                    )}
+                    <span className="text-[5vh] font-mono font-bold tabular-nums">{clock}</span>
+                </div>
+            </div>
+
+            {/* Current Slide */}
+            <div className="flex-[3] flex items-center justify-center px-[3vw] overflow-hidden">
+                {position ? (
+                    <p
+                        className="text-center whitespace-pre-line font-semibold leading-tight"
+                        style={{ fontSize: fitTextSize(current?.text ?? "", "7vh", 50) }}
+                    >
+                        {current?.text ?? ""}
+                    </p>
+                ) : (
+                    <p className="text-center text-[4vh] text-white/60">
+                        Waiting for the presenter… Open presenter mode in this browser.
+                    </p>
+                )}
+            </div>
+
+            {/* Next Slide */}
+            <div className="flex-[2] flex flex-col px-[3vw] py-[2vh] border-t border-white/20 overflow-hidden">
+                <p className="text-[3vh] font-bold text-sky-300 truncate">
+                    {next
+                        ? nextIsNewSong
+                            ? `Next song: ${next.songTitle}`
+                            : `Next: ${slideLabel(next)}`
+                        : position ? "End" : ""}
+                </p>
+                {next && (
+                    <p
+                        className="flex-1 flex items-center justify-center text-center whitespace-pre-line leading-tight text-white/70"
+                        style={{ fontSize: fitTextSize(next.text, "4.5vh", 28) }}
+                    >
+                        {next.text}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,254 @@
+/**
+ * @file SuggestCorrectionForm.tsx
+ * @description Editor for suggesting a correction to an existing song.
+ * 
+ * Features:
+ * - Title, artist, language and lyrics prefilled with the current song
+ * - Special character buttons for the selected language
+ * - Optional summary of what was changed
+ * - Hidden honeypot field to catch spam bots
+ * - Success confirmation with a link back to the song
+ * 
+ * The correction is stored as a pending revision; the song only
+ * changes once a moderator approves it.
+ */
+
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import type { Song } from "@/lib/songs";
+import { suggestCorrectionAction } from "@/app/actions";
+import { LANGUAGES } from "@/lib/languages";
+import { CORRECTION_SUMMARY_LIMIT, HONEYPOT_FIELD, SUBMISSION_LIMITS } from "@/lib/songSubmission";
+import { SpecialCharacterButtons } from "./SpecialCharacterButtons";
+
+/** Shared classes for the form inputs */
+const inputClassName =
+    "w-full px-4 py-3 rounded-lg bg-[var(--background)] border border-[var(--border)] focus:border-[var(--accent)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] focus:ring-opacity-20 transition-colors";
+
+/**
+ * Suggest a Correction form component.
+ * 
+ * @param song - The song being corrected
+ * 
+ * @example
+ * <SuggestCorrectionForm song={song} />
+ */
+export function SuggestCorrectionForm({ song }: { song: Song }) {
+    // Form field values, starting from the current song
+    const [formData, setFormData] = useState({
+        title: song.title,
+        artist: song.artist ?? "",
+        language: song.language,
+        lyrics: song.lyrics,
+        [HONEYPOT_FIELD]: "",
+    });
+    const [summary, setSummary] = useState("");
+
+    // Form state flags
+    const [submitted, setSubmitted] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    /**
+     * Handle input field changes.
+     * Updates the corresponding field in formData state.
+     */
+    const handleChange = (
+        e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+    ) => {
+        const { name, value } = e.target;
+        setFormData((prev) => ({ ...prev, [name]: value }));
+    };
+
+    /**
+     * Handle form submission.
+     * Sends the correction to the server and handles success/error states.
+     */
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setError(null);
+
+        const result = await suggestCorrectionAction(song.id, formData, summary);
+
+        if (result.success) {
+            setSubmitted(true);
+        } else {
+            setError(result.error || "Failed to submit correction. Please try again.");
+        }
+
+        setIsSubmitting(false);
+    };
+
+    /**
+     * Insert a special character (or combining tone mark) at the current
+     * cursor position in the lyrics textarea.
+     */
+    const insertCharacter = (char: string) => {
+        const textarea = document.getElementById("lyrics") as HTMLTextAreaElement;
+        if (textarea) {
+            const start = textarea.selectionStart;
+            const end = textarea.selectionEnd;
+
+            setFormData((prev) => ({
+                ...prev,
+                lyrics: prev.lyrics.substring(0, start) + char + prev.lyrics.substring(end),
+            }));
+
+            // Restore cursor position after the inserted character
+            setTimeout(() => {
+                textarea.focus();
+                textarea.setSelectionRange(start + char.length, start + char.length);
+            }, 0);
+        }
+    };
+
+    // Show success message after submission
+    if (submitted) {
+        return (
+            <div className="text-center py-8">
+                <div className="text-6xl mb-4">🙏</div>
+                <h2 className="text-2xl font-bold mb-2" style={{ fontFamily: "var(--font-outfit)" }}>
+                    Thank You!
+                </h2>
+                <p className="text-[var(--muted)] mb-6">
+                    Your correction has been sent to the moderators for review.
+                </p>
+                <Link href={`/song/${song.id}`} className="btn-primary inline-block px-6 py-2 rounded-lg font-medium">
+                    Back to the song
+                </Link>
+            </div>
+        );
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Error Message */}
+            {error && (
+                <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400">
+                    {error}
+                </div>
+            )}
+
+            {/* Title and Artist Fields */}
+            <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="title" className="block text-sm font-medium mb-2">
+                        Song Title <span className="text-[var(--accent)]">*</span>
+                    </label>
+                    <input
+                        type="text"
+                        id="title"
+                        name="title"
+                        value={formData.title}
+                        onChange={handleChange}
+                        required
+                        maxLength={SUBMISSION_LIMITS.title}
+                        className={inputClassName}
+                    />
+                </div>
+                <div>
+                    <label htmlFor="artist" className="block text-sm font-medium mb-2">
+                        Artist / Group
+                    </label>
+                    <input
+                        type="text"
+                        id="artist"
+                        name="artist"
+                        value={formData.artist}
+                        onChange={handleChange}
+                        maxLength={SUBMISSION_LIMITS.artist}
+                        className={inputClassName}
+                    />
+                </div>
+            </div>
+
+            {/* Language Dropdown */}
+            <div>
+                <label htmlFor="language" className="block text-sm font-medium mb-2">
+                    Language
+                </label>
+                <select
+                    id="language"
+                    name="language"
+                    value={formData.language}
+                    onChange={handleChange}
+                    className={inputClassName}
+                >
+                    {LANGUAGES.map((lang) => (
+                        <option key={lang} value={lang}>
+                            {lang}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {/* Lyrics Field with Special Character Buttons */}
+            <div>
+                <label htmlFor="lyrics" className="block text-sm font-medium mb-2">
+                    Lyrics <span className="text-[var(--accent)]">*</span>
+                </label>
+                <SpecialCharacterButtons language={formData.language} onInsert={insertCharacter} />
+                <textarea
+                    id="lyrics"
+                    name="lyrics"
+                    value={formData.lyrics}
+                    onChange={handleChange}
+                    required
+                    maxLength={SUBMISSION_LIMITS.lyrics}
+                    rows={16}
+                    className={`${inputClassName} resize-y`}
+                />
+            </div>
+
+            {/* Summary of the Change */}
+            <div>
+                <label htmlFor="summary" className="block text-sm font-medium mb-2">
+                    What did you change?
+                </label>
+                <input
+                    type="text"
+                    id="summary"
+                    value={summary}
+                    onChange={(e) => setSummary(e.target.value)}
+                    maxLength={CORRECTION_SUMMARY_LIMIT}
+                    placeholder="e.g., Fixed spelling in verse 2"
+                    className={inputClassName}
+                />
+            </div>
+
+            {/* Honeypot - hidden from people, left empty by them; bots fill it in */}
+            <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+                <label htmlFor={HONEYPOT_FIELD}>Website</label>
+                <input
+                    type="text"
+                    id={HONEYPOT_FIELD}
+                    name={HONEYPOT_FIELD}
+                    value={formData[HONEYPOT_FIELD]}
+                    onChange={handleChange}
+                    tabIndex={-1}
+                    autoComplete="off"
+                />
+            </div>
+
+            {/* Submit Button */}
+            <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full btn-primary py-3 rounded-lg font-medium text-lg disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+                {isSubmitting ? (
+                    <>
+                        {/* Loading Spinner */}
+                        <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                        Submitting...
+                    </>
+                ) : (
+                    "Suggest Correction"
+                )}
+            </button>
+        </form>
+    );
+}
@@ -0,0 +1,115 @@
+/**
+ * @file adminAuth.ts
+ * @description Password sign-in for moderators.
+ * 
+ * The admin area (/admin/review) is protected by a single shared
+ * password set in MODERATOR_PASSWORD. Signing in stores an HMAC of
+ * the password in an httpOnly cookie; every admin page and action
+ * checks that cookie with isModerator().
+ * 
+ * When MODERATOR_PASSWORD isn't set, nobody can sign in.
+ * Changing the password signs every moderator out.
+ * 
+ * To slow down guessing, each client IP gets a few sign-in attempts
+ * per quarter hour, and a wrong password is answered after a delay.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+import { clientIp, createRateLimiter } from "./rateLimit";
+
+/** Name of the cookie holding the moderator session token */
+const MODERATOR_COOKIE = "1co18_moderator";
+
+/** How long a moderator stays signed in (seconds) */
+const SESSION_MAX_AGE = 60 * 60 * 24 * 7;
+
+/** Sign-in attempts allowed per client IP: 5 every 15 minutes */
+const signInLimiter = createRateLimiter({ limit: 5, windowMs: 15 * 60 * 1000 });
+
+/** How long to wait before answering a wrong password (milliseconds) */
+const FAILED_SIGN_IN_DELAY = 1000;
+
+/** Outcome of a sign-in attempt */
+export type SignInResult = "signed-in" | "wrong-password" | "too-many-attempts";
+
+/**
+ * Builds the session token for the configured password.
+ * 
+ * @returns The token, or null if no moderator password is configured
+ */
+function moderatorToken(): string | null {
+    const password = process.env.MODERATOR_PASSWORD;
+    if (!password) return null;
+
+    return createHmac("sha256", password).update("1co18 moderator session").digest("hex");
+}
+
+/** Compares two strings in constant time */
+function safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Compares a password with the configured one in constant time.
+ * Both are hashed first, so the time taken doesn't reveal the length either.
+ */
+function passwordMatches(password: string, expected: string): boolean {
+    const hash = (text: string) => createHash("sha256").update(text).digest();
+    return timingSafeEqual(hash(password), hash(expected));
+}
+
+/**
+ * Checks whether the current request comes from a signed-in moderator.
+ * 
+ * @returns True if the moderator cookie holds a valid token
+ */
+export async function isModerator(): Promise<boolean> {
+    const token = moderatorToken();
+    const cookie = (await cookies()).get(MODERATOR_COOKIE)?.value;
+
+    return Boolean(token && cookie && safeEqual(cookie, token));
+}
+
+/**
+ * Signs a moderator in if the password is correct.
+ * 
+ * @param password - The password entered on the sign-in form
+ * @returns "signed-in", "wrong-password" (also when no password is configured),
+ *   or "too-many-attempts" when this client IP is over the sign-in limit
+ */
+export async function signInModerator(password: string): Promise<SignInResult> {
+    if (!signInLimiter.check(await clientIp()).allowed) return "too-many-attempts";
+
+    const expected = process.env.MODERATOR_PASSWORD;
+    const token = moderatorToken();
+    if (!expected || !token || !passwordMatches(password, expected)) {
+        await new Promise((resolve) => setTimeout(resolve, FAILED_SIGN_IN_DELAY));
+        return "wrong-password";
+    }
+
+    (await cookies()).set(MODERATOR_COOKIE, token, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        // Site-wide, so moderator tools on public pages (e.g. rollback) work too
+        path: "/",
+        maxAge: SESSION_MAX_AGE,
+    });
+    return "signed-in";
+}
+
+/** Signs the current moderator out */
+export async function signOutModerator(): Promise<void> {
+    (await cookies()).delete({ name: MODERATOR_COOKIE, path: "/" });
+}
+
+/**
+ * Whether moderation is set up at all.
+ * Used to explain a missing MODERATOR_PASSWORD on the sign-in page.
+ */
+export function isModerationConfigured(): boolean {
+    return Boolean(process.env.MODERATOR_PASSWORD);
+}
@@ -0,0 +1,212 @@
+/**
+ * @file api.ts
+ * @description Shared helpers for the public JSON API (/api/v1).
+ * 
+ * The API is read-only and returns the same songs the site shows
+ * (rejected songs are hidden). Every response:
+ * - allows cross-origin requests, so other tools can call it from a browser
+ * - carries an ETag; a request with a matching If-None-Match gets 304 Not Modified
+ * 
+ * The `format` query parameter picks how songs are returned:
+ * - `json` (default) - the Song fields as JSON
+ * - `projection` - text for projection software, as copied from the song page
+ *   (with `slides=2-lines|4-lines|full-verse`, default full-verse)
+ * - `openlyrics` - OpenLyrics XML, as downloaded from the song page
+ * 
+ * Single-song endpoints return the formatted text itself; list endpoints
+ * keep their JSON and add a `formatted` field to each song.
+ */
+
+import { createHash } from "crypto";
+import type { Song } from "./repository";
+import { findLanguage, Language, LANGUAGES } from "./languages";
+import { formatForProjection, generateOpenLyricsXML, SlideFormat } from "@/utils/formatLyrics";
+
+/** Output formats accepted by the `format` parameter */
+export const API_FORMATS = ["json", "projection", "openlyrics"] as const;
+
+/** An output format accepted by the `format` parameter */
+export type ApiFormat = (typeof API_FORMATS)[number];
+
+/** Slide layouts accepted by the `slides` parameter */
+const SLIDE_FORMATS: SlideFormat[] = ["2-lines", "4-lines", "full-verse"];
+
+/** Output options read from the query string */
+export interface ApiOutput {
+    format: ApiFormat;
+    /** Slide layout for the projection format */
+    slides: SlideFormat;
+}
+
+/** Pagination metadata included in list responses */
+export interface ApiPagination {
+    /** 1-based page number (clamped to the available pages) */
+    page: number;
+    /** Maximum number of songs per page */
+    pageSize: number;
+    /** Number of songs across all pages */
+    total: number;
+    /** Number of pages (at least 1) */
+    pageCount: number;
+}
+
+/** Headers that let any site call the API from the browser */
+const CORS_HEADERS = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, OPTIONS",
+    "Access-Control-Allow-Headers": "If-None-Match",
+    "Access-Control-Expose-Headers": "ETag",
+};
+
+/** Content types of the song formats */
+const CONTENT_TYPES: Record<ApiFormat, string> = {
+    json: "application/json; charset=utf-8",
+    projection: "text/plain; charset=utf-8",
+    openlyrics: "application/xml; charset=utf-8",
+};
+
+/**
+ * Reads the `format` and `slides` parameters.
+ * 
+ * @param params - The request's query parameters
+ * @returns The output options, or an error message for unknown values
+ */
+export function parseApiOutput(params: URLSearchParams): ApiOutput | { error: string } {
+    const format = params.get("format") ?? "json";
+    const slides = params.get("slides") ?? "full-verse";
+
+    if (!(API_FORMATS as readonly string[]).includes(format)) {
+        return { error: `Unknown format "${format}" (expected one of: ${API_FORMATS.join(", ")})` };
+    }
+    if (!(SLIDE_FORMATS as string[]).includes(slides)) {
+        return { error: `Unknown slides "${slides}" (expected one of: ${SLIDE_FORMATS.join(", ")})` };
+    }
+
+    return { format: format as ApiFormat, slides: slides as SlideFormat };
+}
+
+/**
+ * Reads the optional `language` parameter (a name or ISO code, e.g. "Ga" or "gaa").
+ * 
+ * @param params - The request's query parameters
+ * @returns The language (undefined when not given), or an error message if unknown
+ */
+export function parseApiLanguage(params: URLSearchParams): { language?: Language } | { error: string } {
+    const value = params.get("language");
+    if (!value) return {};
+
+    const language = findLanguage(value);
+    return language
+        ? { language }
+        : { error: `Unknown language "${value}" (expected one of: ${LANGUAGES.join(", ")})` };
+}
+
+/**
+ * Reads the optional 1-based `page` parameter.
+ * Anything that isn't a positive number becomes page 1.
+ */
+export function parseApiPage(params: URLSearchParams): number {
+    return Math.max(1, parseInt(params.get("page") ?? "1") || 1);
+}
+
+/**
+ * Picks the Song fields out of a stored song.
+ * Backends may return extra columns (Supabase includes search_text),
+ * which aren't part of the API.
+ */
+export function apiSong(song: Song): Song {
+    return {
+        id: song.id,
+        title: song.title,
+        artist: song.artist,
+        lyrics: song.lyrics,
+        language: song.language,
+        is_verified: song.is_verified,
+        created_at: song.created_at,
+        reviewed_at: song.reviewed_at,
+        rejection_reason: song.rejection_reason,
+    };
+}
+
+/**
+ * Renders a song in the requested format.
+ * 
+ * @returns The formatted text (the projection text or OpenLyrics XML)
+ */
+export function formatSong(song: Song, output: ApiOutput): string {
+    return output.format === "openlyrics"
+        ? generateOpenLyricsXML(song)
+        : formatForProjection(song, output.slides);
+}
+
+/**
+ * Prepares songs for a list response.
+ * With a non-JSON format, each song gets a `formatted` field.
+ */
+export function songsForList(songs: Song[], output: ApiOutput): Array<Song & { formatted?: string }> {
+    if (output.format === "json") return songs.map(apiSong);
+    return songs.map((song) => ({ ...apiSong(song), formatted: formatSong(song, output) }));
+}
+
+/**
+ * Builds the pagination metadata for a page of results.
+ * 
+ * @param results - A page from searchSongs or browseSongs
+ * @param pageSize - The page size those results were cut with
+ */
+export function apiPagination(
+    results: { page: number; total: number; pageCount: number },
+    pageSize: number
+): ApiPagination {
+    return { page: results.page, pageSize, total: results.total, pageCount: results.pageCount };
+}
+
+/**
+ * Builds a successful API response with CORS and ETag headers.
+ * Returns 304 Not Modified (without a body) when the client already
+ * has this exact response.
+ * 
+ * @param request - The incoming request (for If-None-Match)
+ * @param body - The response body
+ * @param format - The format of the body, which sets its content type
+ */
+export function apiResponse(request: Request, body: string, format: ApiFormat = "json"): Response {
+    const etag = `"${createHash("sha1").update(body).digest("base64url")}"`;
+    const headers = {
+        ...CORS_HEADERS,
+        "Content-Type": CONTENT_TYPES[format],
+        "Cache-Control": "public, max-age=60",
+        ETag: etag,
+    };
+
+    // If-None-Match may list several tags, possibly weak (W/"...")
+    const cached = (request.headers.get("if-none-match") ?? "")
+        .split(",")
+        .map((tag) => tag.trim().replace(/^W\//, ""));
+    if (cached.includes(etag) || cached.includes("*")) {
+        return new Response(null, { status: 304, headers });
+    }
+
+    return new Response(body, { status: 200, headers });
+}
+
+/**
+ * Builds a JSON API response (see apiResponse).
+ */
+export function apiJson(request: Request, data: unknown): Response {
+    return apiResponse(request, JSON.stringify(data));
+}
+
+/**
+ * Builds an error response: `{ "error": message }` with the given status.
+ */
+export function apiError(status: number, message: string): Response {
+    return Response.json({ error: message }, { status, headers: CORS_HEADERS });
+}
+
+/**
+ * Answers CORS preflight requests.
+ */
+export function apiOptions(): Response {
+    return new Response(null, { status: 204, headers: { ...CORS_HEADERS, "Access-Control-Max-Age": "86400" } });
+}
@@ -0,0 +1,154 @@
+/**
+ * @file arrangements.ts
+ * @description Named arrangements of songs (the order their sections are sung in).
+ * 
+ * A song's lyrics are written once, but worship leaders sing them in an
+ * order like V1 C V2 C C B C, and often in more than one ("Default",
+ * "Short"). Arrangements are shared: anyone can save a new one from the
+ * song page, and everyone sees it. Saving a new arrangement returns an
+ * edit key (see editKeys.ts); only a request with that key, or from a
+ * signed-in moderator, can change or delete it. Without arrangements,
+ * a song is sung as written.
+ * 
+ * The typed form of an arrangement is parsed by utils/arrangements.ts.
+ */
+
+import { createEditKey, editKeyMatches, hashEditKey } from "./editKeys";
+import { getSongRepository, SongArrangement } from "./repository";
+import { getReviewStatus } from "./songs";
+import { ARRANGEMENT_NAME_LIMIT, parseArrangement } from "@/utils/arrangements";
+import { parseLyrics } from "@/utils/lyricsParser";
+import { errorMessage } from "@/utils/errors";
+
+/** Most arrangements one song may have */
+export const ARRANGEMENTS_PER_SONG = 10;
+
+/** Result of saving or deleting an arrangement */
+export interface ArrangementResult {
+    success: boolean;
+    error?: string;
+    /** The key needed to change the arrangement (only returned when it's first saved) */
+    editKey?: string;
+}
+
+/** Who is making a change to an arrangement */
+export interface ArrangementAccess {
+    /** The edit key the device saved the arrangement with, if it has one (untrusted) */
+    editKey: string | null;
+    /** Whether the request comes from a signed-in moderator */
+    moderator: boolean;
+}
+
+/** Error for a change to an arrangement saved by someone else */
+const NOT_YOURS = "This arrangement can only be changed from the device that saved it, or by a moderator";
+
+/** Whether a change to a stored arrangement is allowed */
+function canChange(arrangement: SongArrangement, access: ArrangementAccess): boolean {
+    return access.moderator || editKeyMatches(access.editKey, arrangement.edit_key_hash);
+}
+
+/**
+ * Lists a song's arrangements, ordered by name.
+ * 
+ * @param songId - The song
+ * @returns The arrangements (empty on error)
+ */
+export async function getArrangements(songId: number): Promise<SongArrangement[]> {
+    try {
+        return await getSongRepository().listArrangements(songId);
+    } catch (error) {
+        console.error("Error listing arrangements:", error);
+        return [];
+    }
+}
+
+/**
+ * Saves a named arrangement of a song, replacing one with the same name
+ * if the access allows it.
+ * 
+ * @param songId - The song
+ * @param name - The arrangement's name (e.g. "Short")
+ * @param text - The arrangement as typed (e.g. "V1 C V2 C x2"); see parseArrangement
+ * @param access - The edit key sent with the change, and whether a moderator sent it
+ * @returns Object with success status and optional error message;
+ *   a new arrangement's edit key is returned too
+ */
+export async function saveArrangement(
+    songId: number,
+    name: string,
+    text: string,
+    access: ArrangementAccess
+): Promise<ArrangementResult> {
+    const trimmed = name.trim();
+    if (!trimmed) return { success: false, error: "Give the arrangement a name" };
+    if (trimmed.length > ARRANGEMENT_NAME_LIMIT) {
+        return { success: false, error: `Name is too long (limit ${ARRANGEMENT_NAME_LIMIT} characters)` };
+    }
+
+    try {
+        const repository = getSongRepository();
+        const song = await repository.getById(songId);
+        if (!song || getReviewStatus(song) === "rejected") {
+            return { success: false, error: "Song not found" };
+        }
+
+        const parsed = parseArrangement(text, parseLyrics(song.lyrics));
+        if ("error" in parsed) return { success: false, error: parsed.error };
+
+        const existing = await repository.listArrangements(songId);
+        const replaced = existing.find((arrangement) => arrangement.name === trimmed);
+        if (replaced) {
+            if (!canChange(replaced, access)) return { success: false, error: NOT_YOURS };
+
+            await repository.saveArrangement({
+                song_id: songId,
+                name: trimmed,
+                sequence: parsed.sequence,
+                edit_key_hash: replaced.edit_key_hash,
+            });
+            return { success: true };
+        }
+
+        if (existing.length >= ARRANGEMENTS_PER_SONG) {
+            return { success: false, error: `A song can have up to ${ARRANGEMENTS_PER_SONG} arrangements` };
+        }
+
+        const editKey = createEditKey();
+        await repository.saveArrangement({
+            song_id: songId,
+            name: trimmed,
+            sequence: parsed.sequence,
+            edit_key_hash: hashEditKey(editKey),
+        });
+        return { success: true, editKey };
+    } catch (error) {
+        console.error("Error saving arrangement:", error);
+        return { success: false, error: errorMessage(error) };
+    }
+}
+
+/**
+ * Deletes a named arrangement of a song, if the access allows it.
+ * 
+ * @param songId - The song
+ * @param name - The arrangement's name
+ * @param access - The edit key sent with the change, and whether a moderator sent it
+ * @returns Object with success status and optional error message
+ */
+export async function deleteArrangement(songId: number, name: string, access: ArrangementAccess): Promise<ArrangementResult> {
+    try {
+        const repository = getSongRepository();
+        const arrangement = (await repository.listArrangements(songId)).find((stored) => stored.name === name);
+        if (!arrangement) return { success: false, error: "Arrangement not found" };
+        if (!canChange(arrangement, access)) return { success: false, error: NOT_YOURS };
+
+        if (!(await repository.deleteArrangement(songId, name))) {
+            return { success: false, error: "Arrangement not found" };
+        }
+    } catch (error) {
+        console.error("Error deleting arrangement:", error);
+        return { success: false, error: errorMessage(error) };
+    }
+
+    return { success: true };
+}
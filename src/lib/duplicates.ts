@@ -0,0 +1,133 @@
+/**
+ * @file duplicates.ts
+ * @description Finds existing songs that a new submission probably duplicates.
+ * 
+ * Contributors often resubmit songs that are already in the library,
+ * with the title spelled a little differently or typed without Twi
+ * characters. A song counts as a likely duplicate when either:
+ * - its title is nearly the same as the new title, or
+ * - a large share of the new lyrics also appears in its lyrics
+ * 
+ * Both checks compare text after normalizeForSearch, so "Aseda Yɛ Wo De"
+ * and "Aseda ye wo de" are the same title.
+ */
+
+import type { Song } from "./repository";
+import { editDistance } from "./fuzzySearch";
+import { normalizeForSearch, tokenizeSearchText } from "@/utils/normalize";
+
+/** Title similarity (0–1) at which a song is reported as a duplicate */
+export const TITLE_THRESHOLD = 0.8;
+
+/** Share of lyric phrases (0–1) two songs must have in common to be reported */
+const LYRICS_THRESHOLD = 0.5;
+
+/** Number of consecutive words compared as one lyric phrase */
+const PHRASE_LENGTH = 3;
+
+/**
+ * Minimum number of phrases the new lyrics need before they are compared.
+ * A line or two in common says little; "Hallelujah, amen" is in many songs.
+ */
+const MIN_PHRASES = 10;
+
+/** The parts of a new song that are compared against the library */
+export interface DuplicateDraft {
+    title: string;
+    lyrics: string;
+}
+
+/** An existing song that looks like the one being added */
+export interface DuplicateMatch {
+    song: Song;
+    /** How alike the normalized titles are, from 0 to 1 */
+    titleSimilarity: number;
+    /** Share of lyric phrases the songs have in common, from 0 to 1 */
+    lyricOverlap: number;
+}
+
+/** Normalizes a title to its words, ignoring letters, tone marks and punctuation */
+function titleKey(title: string): string {
+    return tokenizeSearchText(normalizeForSearch(title)).join(" ");
+}
+
+/**
+ * Scores how alike two normalized titles are.
+ * 
+ * @returns 1 for the same title, falling towards 0 as more letters differ
+ */
+function titleSimilarity(a: string, b: string): number {
+    if (!a || !b) return 0;
+
+    // Titles differing in length by more than the threshold allows can't match
+    const longest = Math.max(a.length, b.length);
+    if (Math.abs(a.length - b.length) > longest * (1 - TITLE_THRESHOLD)) return 0;
+
+    return 1 - editDistance(a, b) / longest;
+}
+
+/**
+ * Splits lyrics into overlapping runs of PHRASE_LENGTH words.
+ * Comparing phrases rather than lines ignores how the lyrics were broken
+ * into lines, and a single typo only affects the phrases around it.
+ */
+function lyricPhrases(lyrics: string): Set<string> {
+    const words = tokenizeSearchText(normalizeForSearch(lyrics));
+    const phrases = new Set<string>();
+
+    for (let i = 0; i + PHRASE_LENGTH <= words.length; i++) {
+        phrases.add(words.slice(i, i + PHRASE_LENGTH).join(" "));
+    }
+
+    return phrases;
+}
+
+/**
+ * Measures how much of the shorter lyrics appears in the longer.
+ * Dividing by the shorter side means a submission of just the chorus
+ * still matches the full song it came from.
+ * 
+ * @returns Share of shared phrases, from 0 to 1
+ */
+function lyricOverlap(draft: Set<string>, existing: Set<string>): number {
+    if (draft.size < MIN_PHRASES || existing.size === 0) return 0;
+
+    let shared = 0;
+    for (const phrase of draft) {
+        if (existing.has(phrase)) shared++;
+    }
+
+    return shared / Math.min(draft.size, existing.size);
+}
+
+/**
+ * Finds the songs most likely to be the same song as a new submission.
+ * 
+ * @param songs - Songs to compare against (typically the whole library)
+ * @param draft - The title and lyrics being submitted
+ * @param limit - Maximum number of matches to return
+ * @returns Likely duplicates, closest first
+ * 
+ * @example
+ * findDuplicates(allSongs, { title: "Aseda ye wo de", lyrics: "" }, 5);
+ * // [{ song: { title: "Aseda Yɛ Wo De", ... }, titleSimilarity: 1, lyricOverlap: 0 }]
+ */
+export function findDuplicates(songs: Song[], draft: DuplicateDraft, limit: number): DuplicateMatch[] {
+    const title = titleKey(draft.title);
+    const phrases = lyricPhrases(draft.lyrics);
+    if (!title && phrases.size < MIN_PHRASES) return [];
+
+    return songs
+        .map((song) => ({
+            song,
+            titleSimilarity: titleSimilarity(title, titleKey(song.title)),
+            lyricOverlap: lyricOverlap(phrases, lyricPhrases(song.lyrics)),
+        }))
+        .filter((match) => match.titleSimilarity >= TITLE_THRESHOLD || match.lyricOverlap >= LYRICS_THRESHOLD)
+        .sort(
+            (a, b) =>
+                Math.max(b.titleSimilarity, b.lyricOverlap) - Math.max(a.titleSimilarity, a.lyricOverlap) ||
+                a.song.title.localeCompare(b.song.title)
+        )
+        .slice(0, limit);
+}
@@ -0,0 +1,35 @@
+/**
+ * @file editKeys.ts
+ * @description Random edit keys for things anyone can create but only their creator can change.
+ * 
+ * Saving a setlist or a new arrangement returns an edit key, which the
+ * browser keeps on the device that saved it. Only the key's SHA-256 hash
+ * is stored, so the stored rows can't be used to make changes.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+/** Creates a new random edit key */
+export function createEditKey(): string {
+    return randomBytes(18).toString("base64url");
+}
+
+/** Hashes an edit key for storage */
+export function hashEditKey(key: string): string {
+    return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Whether an edit key matches the stored hash (compared in constant time).
+ * 
+ * @param key - The key sent with the change (untrusted)
+ * @param hash - The stored hash, or null when the row has no edit key
+ * @returns False for a missing key or hash
+ */
+export function editKeyMatches(key: unknown, hash: string | null): boolean {
+    if (typeof key !== "string" || !hash) return false;
+
+    const given = Buffer.from(hashEditKey(key), "hex");
+    const stored = Buffer.from(hash, "hex");
+    return given.length === stored.length && timingSafeEqual(given, stored);
+}
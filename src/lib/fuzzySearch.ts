@@ -0,0 +1,150 @@
+/**
+ * @file fuzzySearch.ts
+ * @description Typo-tolerant song matching for "did you mean" suggestions.
+ * 
+ * Strict search needs every query word to appear in the song. When that
+ * finds nothing, this module looks for songs whose words are within a
+ * small edit distance of the query words, so "Agyenkw pa" (missing
+ * letter) or "agyenkaw" (swapped letters) still finds "Agyenkwa Pa".
+ * 
+ * Words are compared after normalizeForSearch, so a missing Twi
+ * character never counts as a typo.
+ */
+
+import type { Song } from "./repository";
+import { normalizeForSearch, tokenizeSearchText } from "@/utils/normalize";
+
+/**
+ * How much a match in each field counts, from 0 to 1.
+ * A close match on the title beats the same match deep in the lyrics.
+ */
+const FIELD_WEIGHTS = {
+    title: 1,
+    artist: 0.8,
+    lyrics: 0.5,
+};
+
+/**
+ * Computes the edit distance between two words, counting insertions,
+ * deletions, substitutions and swaps of adjacent letters as one edit each
+ * (optimal string alignment distance).
+ * 
+ * @param a - First word
+ * @param b - Second word
+ * @returns Number of edits needed to turn a into b
+ * 
+ * @example
+ * editDistance("agyenkaw", "agyenkwa"); // 1 (swapped letters)
+ */
+export function editDistance(a: string, b: string): number {
+    if (a === b) return 0;
+    if (!a.length) return b.length;
+    if (!b.length) return a.length;
+
+    // Three rolling rows: two back (for swaps), previous and current
+    let twoBack: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(
+                previous[j] + 1, // deletion
+                current[j - 1] + 1, // insertion
+                previous[j - 1] + cost // substitution
+            );
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                current[j] = Math.min(current[j], twoBack[j - 2] + 1); // swap
+            }
+        }
+        twoBack = previous;
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+/**
+ * Number of typos tolerated in a query word of the given length.
+ * Short words must match exactly, otherwise "pa" would match half the library.
+ */
+function allowedTypos(length: number): number {
+    if (length <= 2) return 0;
+    if (length <= 5) return 1;
+    return 2;
+}
+
+/**
+ * Scores how closely a query word matches its best candidate word.
+ * 
+ * @returns Similarity from 0 (no acceptable match) to 1 (exact match)
+ */
+function wordSimilarity(queryWord: string, candidates: Set<string>): number {
+    if (candidates.has(queryWord)) return 1;
+
+    const budget = allowedTypos(queryWord.length);
+    let best = 0;
+
+    for (const candidate of candidates) {
+        // Words whose lengths differ by more than the budget can't match
+        if (Math.abs(candidate.length - queryWord.length) > budget) continue;
+
+        const distance = editDistance(queryWord, candidate);
+        if (distance <= budget) {
+            best = Math.max(best, 1 - distance / Math.max(queryWord.length, candidate.length));
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Scores a field against the query words.
+ * Every query word must have an acceptable match in the field.
+ * 
+ * @returns Average word similarity, or 0 if any word has no match
+ */
+function fieldSimilarity(queryWords: string[], fieldText: string): number {
+    const candidates = new Set(tokenizeSearchText(normalizeForSearch(fieldText)));
+    let total = 0;
+
+    for (const word of queryWords) {
+        const similarity = wordSimilarity(word, candidates);
+        if (similarity === 0) return 0;
+        total += similarity;
+    }
+
+    return total / queryWords.length;
+}
+
+/**
+ * Finds the songs that most closely match a query, allowing typos.
+ * 
+ * @param songs - Songs to consider (typically the whole library)
+ * @param query - The raw search query
+ * @param limit - Maximum number of songs to return
+ * @returns Best matching songs, closest first
+ * 
+ * @example
+ * findFuzzyMatches(allSongs, "Agyenkw pa", 5);
+ * // [{ title: "Agyenkwa Pa", ... }]
+ */
+export function findFuzzyMatches(songs: Song[], query: string, limit: number): Song[] {
+    const queryWords = tokenizeSearchText(normalizeForSearch(query));
+    if (queryWords.length === 0) return [];
+
+    return songs
+        .map((song) => ({
+            song,
+            score: Math.max(
+                FIELD_WEIGHTS.title * fieldSimilarity(queryWords, song.title),
+                FIELD_WEIGHTS.artist * fieldSimilarity(queryWords, song.artist ?? ""),
+                FIELD_WEIGHTS.lyrics * fieldSimilarity(queryWords, song.lyrics)
+            ),
+        }))
+        .filter((entry) => entry.score > 0)
+        .sort((a, b) => b.score - a.score || a.song.title.localeCompare(b.song.title))
+        .slice(0, limit)
+        .map((entry) => entry.song);
+}
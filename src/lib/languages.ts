@@ -0,0 +1,114 @@
+/**
+ * @file languages.ts
+ * @description Languages songs can be submitted in, and their special letters.
+ * 
+ * Shared by:
+ * - The Add Song form (language dropdown and insert-character buttons)
+ * - The CSV import command (row validation)
+ * - Search normalization (normalize.ts), in TypeScript and, through
+ *   scripts/generate-search-sql.ts, in the database trigger
+ * 
+ * Keeping the orthography table here means the search code and the
+ * database can't drift apart: both are built from ORTHOGRAPHY.
+ */
+
+/** Available language options for songs */
+export const LANGUAGES = ["Twi", "English", "Ga", "Ewe", "Fante", "Dagbani"] as const;
+
+/** A supported song language */
+export type Language = (typeof LANGUAGES)[number];
+
+/**
+ * ISO 639 codes for each language, used for lang: search filters
+ * and language attributes in exported files.
+ */
+export const LANGUAGE_CODES: Record<Language, string> = {
+    Twi: "tw",
+    English: "en",
+    Ga: "gaa",
+    Ewe: "ee",
+    Fante: "fat",
+    Dagbani: "dag",
+};
+
+/**
+ * Special letters used by each language, mapped to the plain letter
+ * they are searched as. Only lowercase letters are listed; uppercase
+ * forms are derived with toUpperCase().
+ * 
+ * Tone and nasal marks (á, è, ɔ̃) are not listed: search strips all
+ * combining accents, see normalizeForSearch.
+ */
+export const ORTHOGRAPHY: Record<Language, Record<string, string>> = {
+    Twi: { "ɛ": "e", "ɔ": "o", "ŋ": "n" },
+    English: {},
+    Ga: { "ɛ": "e", "ɔ": "o", "ŋ": "n" },
+    Ewe: { "ɖ": "d", "ɛ": "e", "ƒ": "f", "ɣ": "g", "ŋ": "n", "ɔ": "o", "ʋ": "v" },
+    Fante: { "ɛ": "e", "ɔ": "o" },
+    Dagbani: { "ɛ": "e", "ɣ": "g", "ŋ": "n", "ɔ": "o", "ʒ": "z" },
+};
+
+/** Combining tone and nasal marks, labelled on a dotted circle (◌) */
+const TONE_MARK_BUTTONS = [
+    { mark: "\u0301", label: "◌\u0301" },
+    { mark: "\u0300", label: "◌\u0300" },
+    { mark: "\u0303", label: "◌\u0303" },
+];
+
+/**
+ * Combining tone and nasal marks offered as insert buttons, per language.
+ * Inserted after a vowel they produce e.g. á, è or ɔ̃.
+ */
+export const TONE_MARKS: Record<Language, { mark: string; label: string }[]> = {
+    Twi: [],
+    English: [],
+    Ga: TONE_MARK_BUTTONS,
+    Ewe: TONE_MARK_BUTTONS,
+    Fante: [],
+    Dagbani: [],
+};
+
+/**
+ * Checks whether a value is one of the supported languages.
+ * The comparison is exact (case-sensitive), matching the dropdown values.
+ * 
+ * @param value - The language name to check
+ */
+export function isLanguage(value: string): value is Language {
+    return (LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Looks up a language by name or ISO code, ignoring case.
+ * 
+ * @param nameOrCode - e.g. "Ga", "ga", "gaa" or "EWE"
+ * @returns The matching language, or null if unknown
+ * 
+ * @example
+ * findLanguage("ee"); // "Ewe"
+ */
+export function findLanguage(nameOrCode: string): Language | null {
+    const value = nameOrCode.trim().toLowerCase();
+    return (
+        LANGUAGES.find(
+            (language) => language.toLowerCase() === value || LANGUAGE_CODES[language] === value
+        ) ?? null
+    );
+}
+
+/**
+ * Lists the special letters to offer as insert buttons for a language:
+ * lowercase letters first, then their uppercase forms.
+ * 
+ * @param language - The selected song language
+ * @returns Array of letters (empty for English or unknown languages)
+ * 
+ * @example
+ * specialCharactersFor("Ewe"); // ["ɖ", "ɛ", "ƒ", ..., "Ɖ", "Ɛ", "Ƒ", ...]
+ */
+export function specialCharactersFor(language: string): string[] {
+    if (!isLanguage(language)) return [];
+
+    const letters = Object.keys(ORTHOGRAPHY[language]);
+    return [...letters, ...letters.map((letter) => letter.toUpperCase())];
+}
@@ -0,0 +1,204 @@
+/**
+ * @file liveSessions.ts
+ * @description Live sessions: phones following the presenter in real time.
+ * 
+ * The operator starts a session from presenter mode and shows its QR
+ * code; phones that scan it open /live/{id} and receive every slide
+ * change over server-sent events (see live/[id]/events/route.ts).
+ * 
+ * Starting a session returns a control key; only requests with that key
+ * can move or end the session. Sessions live in the server process, like
+ * rate limits (see rateLimit.ts): they end on restart and aren't shared
+ * between instances, so live sessions need the app to run as a single
+ * server (as it does for a local setup).
+ */
+
+import { randomBytes, timingSafeEqual } from "crypto";
+import type { PositionSlide, PresenterPosition } from "@/utils/presentation";
+
+/** Called with each new position, or null when the session ends */
+type LiveListener = (position: PresenterPosition | null) => void;
+
+/** A live session in this server process */
+interface LiveSession {
+    controlKey: string;
+    /** Where the presenter is, or null before the first update */
+    position: PresenterPosition | null;
+    /** Phones following the session */
+    listeners: Set<LiveListener>;
+    /** When the presenter last started or moved the session */
+    lastActive: number;
+}
+
+/** Limits on live sessions */
+export const LIVE_SESSION_LIMITS = {
+    /** Sessions running at once on this server */
+    sessions: 100,
+    /** Sessions end after this long without an update from the presenter */
+    idleMs: 6 * 60 * 60 * 1000,
+    /** Characters in a title or slide text */
+    text: 2000,
+};
+
+/** Result of starting, moving or ending a session */
+export interface LiveSessionResult {
+    success: boolean;
+    error?: string;
+    /** The session's ID (phones follow /live/{id}) */
+    id?: string;
+    /** The key needed to move or end the session (only returned when it starts) */
+    controlKey?: string;
+}
+
+/**
+ * Every running session, by ID. Kept on globalThis so the server actions
+ * and the events route, which Next.js may load as separate module
+ * instances, share one map.
+ */
+const liveGlobal = globalThis as typeof globalThis & { liveSessions?: Map<string, LiveSession> };
+const sessions = (liveGlobal.liveSessions ??= new Map<string, LiveSession>());
+
+/** Ends a session and tells its followers */
+function close(id: string, session: LiveSession): void {
+    sessions.delete(id);
+    for (const listener of session.listeners) listener(null);
+}
+
+/** Ends sessions the presenter has left, so the map doesn't grow forever */
+function closeIdleSessions(): void {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+        if (now - session.lastActive >= LIVE_SESSION_LIMITS.idleMs) close(id, session);
+    }
+}
+
+/** Finds a running session, checking the control key in constant time */
+function controlledSession(id: string, controlKey: string): LiveSession | null {
+    const session = sessions.get(id);
+    if (!session || typeof controlKey !== "string") return null;
+
+    const given = Buffer.from(controlKey);
+    const stored = Buffer.from(session.controlKey);
+    return given.length === stored.length && timingSafeEqual(given, stored) ? session : null;
+}
+
+/** Cleans up a slide sent by the presenter, or returns null if it isn't one */
+function validSlide(input: unknown): PositionSlide | null {
+    const slide = input as Record<string, unknown> | null;
+    if (
+        !slide ||
+        typeof slide !== "object" ||
+        !Number.isInteger(slide.songId) ||
+        !Number.isInteger(slide.songIndex) ||
+        typeof slide.songTitle !== "string" ||
+        (slide.label !== null && typeof slide.label !== "string") ||
+        typeof slide.text !== "string"
+    ) {
+        return null;
+    }
+
+    return {
+        songId: slide.songId as number,
+        songIndex: slide.songIndex as number,
+        songTitle: slide.songTitle.slice(0, LIVE_SESSION_LIMITS.text),
+        label: (slide.label as string | null)?.slice(0, LIVE_SESSION_LIMITS.text) ?? null,
+        text: slide.text.slice(0, LIVE_SESSION_LIMITS.text),
+    };
+}
+
+/**
+ * Checks a position sent by the presenter and keeps only known fields.
+ * 
+ * @param input - The untrusted position
+ * @returns The cleaned position, or null if it has the wrong shape
+ */
+export function validatePosition(input: unknown): PresenterPosition | null {
+    const position = input as Record<string, unknown> | null;
+    if (!position || typeof position !== "object" || typeof position.title !== "string") return null;
+
+    const current = position.current === null ? null : validSlide(position.current);
+    const next = position.next === null ? null : validSlide(position.next);
+    if ((position.current !== null && !current) || (position.next !== null && !next)) return null;
+
+    return {
+        title: position.title.slice(0, LIVE_SESSION_LIMITS.text),
+        current,
+        next,
+        slideNumber: Number.isInteger(position.slideNumber) ? (position.slideNumber as number) : 0,
+        slideCount: Number.isInteger(position.slideCount) ? (position.slideCount as number) : 0,
+        black: Boolean(position.black),
+        clear: Boolean(position.clear),
+    };
+}
+
+/**
+ * Starts a live session.
+ * 
+ * @returns The session's ID and control key, or an error message when the server is full
+ */
+export function startLiveSession(): LiveSessionResult {
+    closeIdleSessions();
+    if (sessions.size >= LIVE_SESSION_LIMITS.sessions) {
+        return { success: false, error: "Too many live sessions are running. Please try again later." };
+    }
+
+    const id = randomBytes(6).toString("base64url");
+    const controlKey = randomBytes(18).toString("base64url");
+    sessions.set(id, { controlKey, position: null, listeners: new Set(), lastActive: Date.now() });
+
+    return { success: true, id, controlKey };
+}
+
+/**
+ * Moves a live session to a new position and tells its followers.
+ * 
+ * @param id - The session
+ * @param controlKey - The key returned when the session started
+ * @param position - Where the presenter is now (already checked with validatePosition)
+ * @returns Object with success status and optional error message
+ */
+export function updateLiveSession(id: string, controlKey: string, position: PresenterPosition): LiveSessionResult {
+    const session = controlledSession(id, controlKey);
+    if (!session) return { success: false, error: "This live session has ended" };
+
+    session.position = position;
+    session.lastActive = Date.now();
+    for (const listener of session.listeners) listener(position);
+
+    return { success: true, id };
+}
+
+/**
+ * Ends a live session; its followers are told it's over.
+ * 
+ * @param id - The session
+ * @param controlKey - The key returned when the session started
+ * @returns Object with success status and optional error message
+ */
+export function endLiveSession(id: string, controlKey: string): LiveSessionResult {
+    const session = controlledSession(id, controlKey);
+    if (!session) return { success: false, error: "This live session has ended" };
+
+    close(id, session);
+    return { success: true, id };
+}
+
+/**
+ * Follows a live session. The listener is called straight away with the
+ * current position (if any), then with every change, and with null
+ * when the session ends.
+ * 
+ * @param id - The session
+ * @param listener - Called with each position
+ * @returns A function that stops following, or null if there's no such session
+ */
+export function followLiveSession(id: string, listener: LiveListener): (() => void) | null {
+    closeIdleSessions();
+    const session = sessions.get(id);
+    if (!session) return null;
+
+    session.listeners.add(listener);
+    if (session.position) listener(session.position);
+
+    return () => session.listeners.delete(listener);
+}
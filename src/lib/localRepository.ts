@@ -0,0 +1,318 @@
+/**
+ * @file localRepository.ts
+ * @description SongRepository backed by a JSON file on disk.
+ * 
+ * Lets the app run (and be tested) without a Supabase project.
+ * On first use the database file is created and seeded with the
+ * curated songs in data/songs.csv.
+ * 
+ * Environment variables (optional):
+ * - LOCAL_DB_PATH: Path of the JSON database file (default: data/local-db.json)
+ * - LOCAL_SEED_PATH: CSV file used to seed a new database (default: data/songs.csv)
+ */
+
+import { existsSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { parseCsvRecords } from "@/utils/csv";
+import { normalizeForSearch } from "@/utils/normalize";
+import type {
+    NewSetlist,
+    NewSong,
+    NewSongArrangement,
+    NewSongRevision,
+    Setlist,
+    SetlistUpdate,
+    Song,
+    SongArrangement,
+    SongRepository,
+    SongRevision,
+    SongRevisionUpdate,
+    SongUpdate,
+} from "./repository";
+
+/** Shape of the JSON database file */
+interface LocalDatabase {
+    /** ID to assign to the next inserted song */
+    nextId: number;
+    /** All stored songs */
+    songs: Song[];
+    /** ID to assign to the next inserted revision */
+    nextRevisionId: number;
+    /** All stored revisions (suggested corrections and history) */
+    revisions: SongRevision[];
+    /** ID to assign to the next inserted arrangement */
+    nextArrangementId: number;
+    /** All stored arrangements */
+    arrangements: SongArrangement[];
+    /** All stored setlists */
+    setlists: Setlist[];
+}
+
+/**
+ * Builds the initial database from the seed CSV.
+ * Seeded songs are curated, so they're marked as verified.
+ * Rows missing a title or lyrics are skipped.
+ * 
+ * @param seedPath - Path to the seed CSV file
+ */
+async function seedDatabase(seedPath: string): Promise<LocalDatabase> {
+    if (!existsSync(seedPath)) {
+        return {
+            nextId: 1,
+            songs: [],
+            nextRevisionId: 1,
+            revisions: [],
+            nextArrangementId: 1,
+            arrangements: [],
+            setlists: [],
+        };
+    }
+
+    const records = parseCsvRecords(await readFile(seedPath, "utf-8"));
+    const createdAt = new Date().toISOString();
+
+    const songs: Song[] = records
+        .filter((record) => record.title?.trim() && record.lyrics?.trim())
+        .map((record, index) => ({
+            id: index + 1,
+            title: record.title.trim(),
+            artist: record.artist?.trim() || null,
+            lyrics: record.lyrics.trim(),
+            language: record.language?.trim() || "Twi",
+            is_verified: true,
+            created_at: createdAt,
+            reviewed_at: null,
+            rejection_reason: null,
+        }));
+
+    return {
+        nextId: songs.length + 1,
+        songs,
+        nextRevisionId: 1,
+        revisions: [],
+        nextArrangementId: 1,
+        arrangements: [],
+        setlists: [],
+    };
+}
+
+/**
+ * Builds the normalized text a song is searched by.
+ * Mirrors the search_text trigger used by the Supabase backend.
+ */
+function searchTextFor(song: Song): string {
+    return normalizeForSearch(`${song.title} ${song.artist ?? ""} ${song.lyrics}`);
+}
+
+/**
+ * Creates a repository that stores songs in a local JSON file.
+ * 
+ * The file is read once and kept in memory; every write saves
+ * the whole file back. This is meant for development and small
+ * self-hosted setups, not concurrent multi-process writers.
+ * 
+ * @param options.dbPath - Path of the JSON database file
+ * @param options.seedPath - CSV file used to seed a new database
+ * @returns SongRepository implementation using the JSON file
+ */
+export function createLocalRepository(options: { dbPath?: string; seedPath?: string } = {}): SongRepository {
+    const dbPath = path.resolve(
+        options.dbPath ?? process.env.LOCAL_DB_PATH ?? "data/local-db.json"
+    );
+    const seedPath = path.resolve(
+        options.seedPath ?? process.env.LOCAL_SEED_PATH ?? "data/songs.csv"
+    );
+
+    // Loaded lazily on first access, then shared by all calls
+    let loading: Promise<LocalDatabase> | null = null;
+
+    // Serializes writes so concurrent inserts don't interleave
+    let writing: Promise<void> = Promise.resolve();
+
+    function load(): Promise<LocalDatabase> {
+        if (!loading) {
+            loading = (async () => {
+                if (existsSync(dbPath)) {
+                    const db = JSON.parse(await readFile(dbPath, "utf-8")) as LocalDatabase;
+
+                    // Files written before revisions, arrangements or setlists existed don't have these fields
+                    db.revisions ??= [];
+                    db.nextRevisionId ??= 1;
+                    db.arrangements ??= [];
+                    db.nextArrangementId ??= 1;
+                    db.setlists ??= [];
+                    return db;
+                }
+
+                const db = await seedDatabase(seedPath);
+                await persist(db);
+                return db;
+            })();
+
+            // A failed read is retried on the next call instead of failing every call
+            loading.catch(() => {
+                loading = null;
+            });
+        }
+        return loading;
+    }
+
+    function persist(db: LocalDatabase): Promise<void> {
+        // Each write waits for the previous one, but doesn't fail because of it
+        writing = writing.catch(() => {}).then(async () => {
+            await mkdir(path.dirname(dbPath), { recursive: true });
+            await writeFile(dbPath, JSON.stringify(db, null, 2), "utf-8");
+        });
+        return writing;
+    }
+
+    return {
+        async getById(id) {
+            const db = await load();
+            return db.songs.find((song) => song.id === id) ?? null;
+        },
+
+        async search(normalizedWords, limit) {
+            const db = await load();
+            return db.songs
+                .filter((song) => {
+                    const searchText = searchTextFor(song);
+                    return normalizedWords.every((word) => searchText.includes(word));
+                })
+                .sort((a, b) => a.title.localeCompare(b.title))
+                .slice(0, limit);
+        },
+
+        async listAll() {
+            const db = await load();
+            return [...db.songs].sort((a, b) => a.id - b.id);
+        },
+
+        async insert(song: NewSong) {
+            const db = await load();
+            const stored: Song = {
+                ...song,
+                id: db.nextId++,
+                created_at: new Date().toISOString(),
+                reviewed_at: null,
+                rejection_reason: null,
+            };
+
+            db.songs.push(stored);
+            await persist(db);
+            return stored;
+        },
+
+        async update(id: number, changes: SongUpdate) {
+            const db = await load();
+            const index = db.songs.findIndex((song) => song.id === id);
+            if (index === -1) return null;
+
+            db.songs[index] = { ...db.songs[index], ...changes };
+            await persist(db);
+            return db.songs[index];
+        },
+
+        async getRevision(id) {
+            const db = await load();
+            return db.revisions.find((revision) => revision.id === id) ?? null;
+        },
+
+        async listRevisions({ songId, status }) {
+            const db = await load();
+            return db.revisions
+                .filter((revision) => songId === undefined || revision.song_id === songId)
+                .filter((revision) => status === undefined || revision.status === status)
+                .sort((a, b) => a.id - b.id);
+        },
+
+        async insertRevision(revision: NewSongRevision) {
+            const db = await load();
+            const stored: SongRevision = {
+                ...revision,
+                id: db.nextRevisionId++,
+                created_at: new Date().toISOString(),
+            };
+
+            db.revisions.push(stored);
+            await persist(db);
+            return stored;
+        },
+
+        async updateRevision(id: number, changes: SongRevisionUpdate) {
+            const db = await load();
+            const index = db.revisions.findIndex((revision) => revision.id === id);
+            if (index === -1) return null;
+
+            db.revisions[index] = { ...db.revisions[index], ...changes };
+            await persist(db);
+            return db.revisions[index];
+        },
+
+        async listArrangements(songId) {
+            const db = await load();
+            return db.arrangements
+                .filter((arrangement) => arrangement.song_id === songId)
+                .sort((a, b) => a.name.localeCompare(b.name));
+        },
+
+        async saveArrangement(arrangement: NewSongArrangement) {
+            const db = await load();
+            const now = new Date().toISOString();
+            const index = db.arrangements.findIndex(
+                (stored) => stored.song_id === arrangement.song_id && stored.name === arrangement.name
+            );
+
+            if (index === -1) {
+                db.arrangements.push({ ...arrangement, id: db.nextArrangementId++, created_at: now, updated_at: now });
+            } else {
+                db.arrangements[index] = {
+                    ...db.arrangements[index],
+                    sequence: arrangement.sequence,
+                    edit_key_hash: arrangement.edit_key_hash,
+                    updated_at: now,
+                };
+            }
+            await persist(db);
+            return db.arrangements[index === -1 ? db.arrangements.length - 1 : index];
+        },
+
+        async deleteArrangement(songId, name) {
+            const db = await load();
+            const before = db.arrangements.length;
+            db.arrangements = db.arrangements.filter(
+                (arrangement) => arrangement.song_id !== songId || arrangement.name !== name
+            );
+            if (db.arrangements.length === before) return false;
+
+            await persist(db);
+            return true;
+        },
+
+        async getSetlist(id) {
+            const db = await load();
+            return db.setlists.find((setlist) => setlist.id === id) ?? null;
+        },
+
+        async insertSetlist(setlist: NewSetlist) {
+            const db = await load();
+            const now = new Date().toISOString();
+            const stored: Setlist = { ...setlist, created_at: now, updated_at: now };
+
+            db.setlists.push(stored);
+            await persist(db);
+            return stored;
+        },
+
+        async updateSetlist(id: string, changes: SetlistUpdate) {
+            const db = await load();
+            const index = db.setlists.findIndex((setlist) => setlist.id === id);
+            if (index === -1) return null;
+
+            db.setlists[index] = { ...db.setlists[index], ...changes, updated_at: new Date().toISOString() };
+            await persist(db);
+            return db.setlists[index];
+        },
+    };
+}
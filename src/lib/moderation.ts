@@ -0,0 +1,144 @@
+/**
+ * @file moderation.ts
+ * @description Review queue operations for moderators.
+ * 
+ * New songs are stored unverified ("pending"). A moderator can
+ * correct them and approve them, which marks them verified, or
+ * reject them with a reason, which hides them from the site.
+ * A moderator's edits are recorded in the song's revision history.
+ * Callers must check isModerator() first (see adminAuth.ts).
+ */
+
+import { getSongRepository, Song, SongUpdate } from "./repository";
+import { getReviewStatus, ReviewStatus } from "./songs";
+import { publishSongChange } from "./revisions";
+import { isLanguage } from "./languages";
+import { errorMessage } from "@/utils/errors";
+
+/** Fields a moderator can correct before approving */
+export interface SongEdits {
+    title: string;
+    artist: string;
+    lyrics: string;
+    language: string;
+}
+
+/** Result of a moderation action */
+export interface ModerationResult {
+    success: boolean;
+    error?: string;
+}
+
+/**
+ * Lists songs with the given review status, oldest first
+ * (so the queue is worked through in submission order).
+ * 
+ * @param status - Which songs to list (default: "pending")
+ * @returns Matching songs (empty on error)
+ */
+export async function getSongsForReview(status: ReviewStatus = "pending"): Promise<Song[]> {
+    try {
+        const songs = await getSongRepository().listAll();
+        return songs.filter((song) => getReviewStatus(song) === status);
+    } catch (error) {
+        console.error("Error listing songs for review:", error);
+        return [];
+    }
+}
+
+/**
+ * Fetches any song by ID, including rejected ones.
+ * 
+ * @param id - The song ID from the URL
+ * @returns The song, or null if not found
+ */
+export async function getSongForReview(id: string): Promise<Song | null> {
+    const songId = parseInt(id);
+    if (isNaN(songId)) return null;
+
+    try {
+        return await getSongRepository().getById(songId);
+    } catch (error) {
+        console.error("Error fetching song for review:", error);
+        return null;
+    }
+}
+
+/**
+ * Checks a moderator's edits before they're saved.
+ * 
+ * @returns List of error messages (empty if the edits are valid)
+ */
+function validateEdits(edits: SongEdits): string[] {
+    const errors: string[] = [];
+    if (!edits.title.trim()) errors.push("Title is empty");
+    if (!edits.lyrics.trim()) errors.push("Lyrics are empty");
+    if (!isLanguage(edits.language)) errors.push(`Unknown language "${edits.language}"`);
+    return errors;
+}
+
+/**
+ * Saves a moderator's corrections and approves the song.
+ * 
+ * @param id - The song ID
+ * @param edits - The corrected title, artist, lyrics and language
+ * @returns Object with success status and optional error message
+ */
+export async function approveSong(id: number, edits: SongEdits): Promise<ModerationResult> {
+    const errors = validateEdits(edits);
+    if (errors.length > 0) return { success: false, error: errors.join(". ") };
+
+    try {
+        const song = await getSongRepository().getById(id);
+        if (!song) return { success: false, error: "Song not found" };
+
+        // Corrections made while approving go into the revision history
+        await publishSongChange(
+            song,
+            {
+                title: edits.title.trim(),
+                artist: edits.artist.trim() || null,
+                lyrics: edits.lyrics.trim(),
+                language: edits.language,
+            },
+            "Edited by a moderator"
+        );
+    } catch (error) {
+        console.error("Error saving song edits:", error);
+        return { success: false, error: errorMessage(error) };
+    }
+
+    return updateSong(id, {
+        is_verified: true,
+        reviewed_at: new Date().toISOString(),
+        rejection_reason: null,
+    });
+}
+
+/**
+ * Rejects a song, hiding it from the site.
+ * 
+ * @param id - The song ID
+ * @param reason - Why the song was rejected (required)
+ * @returns Object with success status and optional error message
+ */
+export async function rejectSong(id: number, reason: string): Promise<ModerationResult> {
+    if (!reason.trim()) return { success: false, error: "Please give a reason for rejecting" };
+
+    return updateSong(id, {
+        is_verified: false,
+        reviewed_at: new Date().toISOString(),
+        rejection_reason: reason.trim(),
+    });
+}
+
+/** Applies an update, turning "not found" and storage errors into results */
+async function updateSong(id: number, changes: SongUpdate): Promise<ModerationResult> {
+    try {
+        const song = await getSongRepository().update(id, changes);
+        return song ? { success: true } : { success: false, error: "Song not found" };
+    } catch (error) {
+        console.error("Error updating song:", error);
+        return { success: false, error: errorMessage(error) };
+    }
+}
@@ -0,0 +1,79 @@
+/**
+ * @file rateLimit.ts
+ * @description In-memory fixed-window rate limiting.
+ * 
+ * Counts requests per key (e.g. client IP) within a time window.
+ * State lives in the server process, so limits reset on restart and
+ * aren't shared between instances; that's enough to stop a single
+ * client flooding the submission form.
+ */
+
+import { headers } from "next/headers";
+
+/** Result of checking a key against the limit */
+export interface RateLimitResult {
+    /** Whether this request is allowed */
+    allowed: boolean;
+    /** Seconds until the key may try again (0 when allowed) */
+    retryAfter: number;
+}
+
+/** A rate limiter created by createRateLimiter */
+export interface RateLimiter {
+    /** Records a request for the key and reports whether it's allowed */
+    check(key: string): RateLimitResult;
+}
+
+/**
+ * Creates a rate limiter allowing `limit` requests per key per window.
+ * 
+ * @param options.limit - Requests allowed in each window
+ * @param options.windowMs - Window length in milliseconds
+ * @returns The rate limiter
+ * 
+ * @example
+ * const limiter = createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 });
+ * if (!limiter.check(ip).allowed) return { success: false, error: "Slow down" };
+ */
+export function createRateLimiter(options: { limit: number; windowMs: number }): RateLimiter {
+    // Request count and window start per key
+    const windows = new Map<string, { count: number; start: number }>();
+
+    return {
+        check(key) {
+            const now = Date.now();
+
+            // Forget windows that have ended so the map doesn't grow forever
+            for (const [storedKey, window] of windows) {
+                if (now - window.start >= options.windowMs) windows.delete(storedKey);
+            }
+
+            const window = windows.get(key) ?? { count: 0, start: now };
+            windows.set(key, window);
+
+            if (window.count >= options.limit) {
+                return {
+                    allowed: false,
+                    retryAfter: Math.ceil((window.start + options.windowMs - now) / 1000),
+                };
+            }
+
+            window.count++;
+            return { allowed: true, retryAfter: 0 };
+        },
+    };
+}
+
+/**
+ * Reads the client's IP address from the proxy headers, to use as a rate limit key.
+ * 
+ * X-Forwarded-For is a list that each proxy appends to, and the client
+ * can send it with any entries it likes; only the last entry, added by
+ * the proxy in front of the app, can be trusted. Falls back to a shared
+ * "unknown" key when no header is present.
+ */
+export async function clientIp(): Promise<string> {
+    const requestHeaders = await headers();
+    const forwarded = requestHeaders.get("x-forwarded-for")?.split(",").map((hop) => hop.trim()).filter(Boolean);
+    return forwarded?.[forwarded.length - 1] || requestHeaders.get("x-real-ip") || "unknown";
+}
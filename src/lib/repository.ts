@@ -0,0 +1,262 @@
+/**
+ * @file repository.ts
+ * @description Storage abstraction for songs.
+ * 
+ * All song (and song revision, arrangement and setlist) reads and writes go through a SongRepository so the app can run
+ * against different backends:
+ * - "supabase": the hosted Supabase (PostgreSQL) database
+ * - "local": a JSON file on disk, seeded from data/songs.csv
+ * 
+ * The backend is picked by the SONGS_BACKEND environment variable.
+ * If it isn't set, Supabase is used when its URL is configured,
+ * otherwise the app falls back to the local backend so it can run
+ * without a Supabase project.
+ */
+
+import type { SlideFormat } from "@/utils/formatLyrics";
+import { createLocalRepository } from "./localRepository";
+import { createSupabaseRepository } from "./supabaseRepository";
+
+/**
+ * Song type definition matching the 'songs' table schema.
+ * 
+ * @property id - Unique identifier (auto-generated)
+ * @property title - Song title (required)
+ * @property artist - Artist or group name (optional)
+ * @property lyrics - Full song lyrics (required)
+ * @property language - Song language (defaults to 'Twi')
+ * @property is_verified - Whether lyrics have been reviewed and approved
+ * @property created_at - Timestamp of when the song was added
+ * @property reviewed_at - When a moderator approved or rejected the song (null if never reviewed)
+ * @property rejection_reason - Why a moderator rejected the song (null unless rejected)
+ */
+export interface Song {
+    id: number;
+    title: string;
+    artist: string | null;
+    lyrics: string;
+    language: string;
+    is_verified: boolean;
+    created_at: string;
+    reviewed_at: string | null;
+    rejection_reason: string | null;
+}
+
+/** Fields supplied when inserting a new song (the rest are generated) */
+export type NewSong = Pick<Song, "title" | "artist" | "lyrics" | "language" | "is_verified">;
+
+/** Fields that can be changed on a stored song */
+export type SongUpdate = Partial<
+    Pick<Song, "title" | "artist" | "lyrics" | "language" | "is_verified" | "reviewed_at" | "rejection_reason">
+>;
+
+/** Where a suggested correction is in review */
+export type RevisionStatus = "pending" | "approved" | "rejected";
+
+/**
+ * A version of a song's text, matching the 'song_revisions' table schema.
+ * 
+ * Suggested corrections are stored as pending revisions. Approved
+ * revisions form the song's history: each one is a full copy of the
+ * song as it was published at that point, so any of them can be
+ * restored.
+ * 
+ * @property id - Unique identifier (auto-generated)
+ * @property song_id - The song this revision belongs to
+ * @property title / artist / lyrics / language - The song's content in this version
+ * @property summary - Short description of the change (e.g. "Fixed verse 2")
+ * @property status - pending, approved or rejected
+ * @property created_at - When the revision was suggested or recorded
+ * @property reviewed_at - When a moderator approved or rejected it
+ * @property rejection_reason - Why a moderator rejected it
+ */
+export interface SongRevision {
+    id: number;
+    song_id: number;
+    title: string;
+    artist: string | null;
+    lyrics: string;
+    language: string;
+    summary: string | null;
+    status: RevisionStatus;
+    created_at: string;
+    reviewed_at: string | null;
+    rejection_reason: string | null;
+}
+
+/** Fields supplied when inserting a revision (the rest are generated) */
+export type NewSongRevision = Omit<SongRevision, "id" | "created_at">;
+
+/** Fields that can be changed on a stored revision */
+export type SongRevisionUpdate = Partial<Pick<SongRevision, "status" | "reviewed_at" | "rejection_reason">>;
+
+/**
+ * A named order to sing a song's sections in, matching the
+ * 'song_arrangements' table schema.
+ * 
+ * @property id - Unique identifier (auto-generated)
+ * @property song_id - The song this arrangement belongs to
+ * @property name - Name shown to users (e.g. "Default", "Short"); unique per song
+ * @property sequence - Section IDs in the order they are sung, repeats expanded
+ *   (e.g. ["v1", "c1", "v2", "c1", "c1"]; see parseLyrics)
+ * @property edit_key_hash - SHA-256 of the key needed to change the arrangement,
+ *   or null for arrangements saved before edit keys (only moderators can change those)
+ * @property created_at - When the arrangement was first saved
+ * @property updated_at - When the arrangement was last saved
+ */
+export interface SongArrangement {
+    id: number;
+    song_id: number;
+    name: string;
+    sequence: string[];
+    edit_key_hash: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+/** Fields supplied when saving an arrangement (the rest are generated) */
+export type NewSongArrangement = Pick<SongArrangement, "song_id" | "name" | "sequence" | "edit_key_hash">;
+
+/** One song in a setlist */
+export interface SetlistItem {
+    song_id: number;
+    /** Name of the song arrangement to sing, or null for the written order */
+    arrangement: string | null;
+    /** How the song is split into slides */
+    format: SlideFormat;
+}
+
+/**
+ * A saved service setlist, matching the 'setlists' table schema.
+ * 
+ * @property id - Random, unguessable ID; the setlist's share URL is /setlist/{id}
+ * @property name - Name shown to users (e.g. "Sunday Service")
+ * @property service_date - Date of the service (YYYY-MM-DD), if given
+ * @property items - The songs, in the order they are sung
+ * @property edit_key_hash - SHA-256 of the key needed to change the setlist
+ *   (the key itself is only given to the device that created it)
+ * @property created_at - When the setlist was first saved
+ * @property updated_at - When the setlist was last saved
+ */
+export interface Setlist {
+    id: string;
+    name: string;
+    service_date: string | null;
+    items: SetlistItem[];
+    edit_key_hash: string;
+    created_at: string;
+    updated_at: string;
+}
+
+/** Fields supplied when inserting a setlist (the rest are generated) */
+export type NewSetlist = Pick<Setlist, "id" | "name" | "service_date" | "items" | "edit_key_hash">;
+
+/** Fields that can be changed on a stored setlist */
+export type SetlistUpdate = Partial<Pick<Setlist, "name" | "service_date" | "items">>;
+
+/** Names of the available storage backends */
+export type SongBackend = "supabase" | "local";
+
+/**
+ * Operations every song storage backend must support.
+ * 
+ * Implementations return null / empty arrays for "not found" and
+ * throw on unexpected storage errors; callers in songs.ts decide
+ * how to surface those errors to the UI.
+ */
+export interface SongRepository {
+    /** Fetches a single song, or null if no song has this ID */
+    getById(id: number): Promise<Song | null>;
+
+    /**
+     * Finds songs whose normalized title, artist and lyrics together
+     * contain every one of the given words (in any order).
+     * Words must already be normalized with normalizeForSearch.
+     * Results are ordered by title; relevance ranking happens in songs.ts.
+     */
+    search(normalizedWords: string[], limit: number): Promise<Song[]>;
+
+    /** Lists every song, ordered by ID */
+    listAll(): Promise<Song[]>;
+
+    /** Inserts a new song and returns the stored row */
+    insert(song: NewSong): Promise<Song>;
+
+    /** Changes some fields of a song and returns the stored row, or null if no song has this ID */
+    update(id: number, changes: SongUpdate): Promise<Song | null>;
+
+    /** Fetches a single revision, or null if no revision has this ID */
+    getRevision(id: number): Promise<SongRevision | null>;
+
+    /**
+     * Lists revisions, oldest first.
+     * Both filters are optional; without them every revision is returned.
+     */
+    listRevisions(filter: { songId?: number; status?: RevisionStatus }): Promise<SongRevision[]>;
+
+    /** Inserts a new revision and returns the stored row */
+    insertRevision(revision: NewSongRevision): Promise<SongRevision>;
+
+    /** Changes the review fields of a revision, or returns null if no revision has this ID */
+    updateRevision(id: number, changes: SongRevisionUpdate): Promise<SongRevision | null>;
+
+    /** Lists a song's arrangements, ordered by name */
+    listArrangements(songId: number): Promise<SongArrangement[]>;
+
+    /**
+     * Saves an arrangement and returns the stored row.
+     * An existing arrangement of the song with the same name is replaced.
+     */
+    saveArrangement(arrangement: NewSongArrangement): Promise<SongArrangement>;
+
+    /** Deletes a song's arrangement by name; returns false if there was none */
+    deleteArrangement(songId: number, name: string): Promise<boolean>;
+
+    /** Fetches a setlist, or null if no setlist has this ID */
+    getSetlist(id: string): Promise<Setlist | null>;
+
+    /** Inserts a new setlist and returns the stored row */
+    insertSetlist(setlist: NewSetlist): Promise<Setlist>;
+
+    /** Changes a setlist and returns the stored row, or null if no setlist has this ID */
+    updateSetlist(id: string, changes: SetlistUpdate): Promise<Setlist | null>;
+}
+
+/** Cached repository instance (one per server process) */
+let repository: SongRepository | null = null;
+
+/**
+ * Resolves which backend to use from the environment.
+ * 
+ * @returns The configured backend name
+ * @throws Error if SONGS_BACKEND is set to an unknown value
+ */
+export function getSongBackend(): SongBackend {
+    const configured = process.env.SONGS_BACKEND?.trim().toLowerCase();
+
+    if (configured === "supabase" || configured === "local") {
+        return configured;
+    }
+    if (configured) {
+        throw new Error(`Unknown SONGS_BACKEND "${configured}" (expected "supabase" or "local")`);
+    }
+
+    return process.env.NEXT_PUBLIC_SUPABASE_URL ? "supabase" : "local";
+}
+
+/**
+ * Returns the song repository for the configured backend.
+ * The instance is created on first use and reused afterwards.
+ * 
+ * @example
+ * const song = await getSongRepository().getById(1);
+ */
+export function getSongRepository(): SongRepository {
+    if (!repository) {
+        repository =
+            getSongBackend() === "supabase"
+                ? createSupabaseRepository()
+                : createLocalRepository();
+    }
+    return repository;
+}
@@ -0,0 +1,297 @@
+/**
+ * @file revisions.ts
+ * @description Suggested corrections and revision history for songs.
+ * 
+ * Anyone can suggest a correction to a song; it is stored as a pending
+ * revision until a moderator approves or rejects it. Every change that
+ * is published (an approved correction, a moderator's edit, a rollback)
+ * is recorded as an approved revision holding a full copy of the song,
+ * so the history can be browsed and any version restored.
+ * 
+ * Songs added before revisions existed have no history; the first
+ * published change also records the text it replaces as "Original version".
+ * 
+ * Moderator-only functions here don't check permissions; callers must
+ * check isModerator() first (see adminAuth.ts).
+ */
+
+import { getSongRepository, Song, SongRevision } from "./repository";
+import { getReviewStatus } from "./songs";
+import { CORRECTION_SUMMARY_LIMIT, SongSubmission } from "./songSubmission";
+import { errorMessage } from "@/utils/errors";
+
+/** The parts of a song that revisions track */
+export type SongContent = Pick<Song, "title" | "artist" | "lyrics" | "language">;
+
+/** A suggested correction together with the song it would change */
+export interface Correction {
+    revision: SongRevision;
+    song: Song;
+}
+
+/** Result of a revision action */
+export interface RevisionResult {
+    success: boolean;
+    error?: string;
+}
+
+/** Picks the tracked fields out of a song or revision */
+function contentOf(source: SongContent): SongContent {
+    return {
+        title: source.title,
+        artist: source.artist || null,
+        lyrics: source.lyrics,
+        language: source.language,
+    };
+}
+
+/** Whether two versions of a song have the same content */
+function sameContent(a: SongContent, b: SongContent): boolean {
+    return (
+        a.title === b.title &&
+        (a.artist || null) === (b.artist || null) &&
+        a.lyrics === b.lyrics &&
+        a.language === b.language
+    );
+}
+
+/**
+ * Stores a suggested correction as a pending revision.
+ * 
+ * @param songId - The song being corrected
+ * @param submission - The corrected song (already checked with validateSongSubmission)
+ * @param summary - What was changed, in the contributor's words (optional)
+ * @returns Object with success status and optional error message
+ */
+export async function suggestCorrection(
+    songId: number,
+    submission: SongSubmission,
+    summary: string
+): Promise<RevisionResult> {
+    if (summary.length > CORRECTION_SUMMARY_LIMIT) {
+        return { success: false, error: `Summary is too long (limit ${CORRECTION_SUMMARY_LIMIT} characters)` };
+    }
+
+    try {
+        const repository = getSongRepository();
+        const song = await repository.getById(songId);
+        if (!song || getReviewStatus(song) === "rejected") {
+            return { success: false, error: "Song not found" };
+        }
+
+        const content = contentOf({ ...submission, artist: submission.artist || null });
+        if (sameContent(content, song)) {
+            return { success: false, error: "Nothing was changed" };
+        }
+
+        await repository.insertRevision({
+            ...content,
+            song_id: songId,
+            summary: summary.trim() || null,
+            status: "pending",
+            reviewed_at: null,
+            rejection_reason: null,
+        });
+    } catch (error) {
+        console.error("Error suggesting correction:", error);
+        return { success: false, error: errorMessage(error) };
+    }
+
+    return { success: true };
+}
+
+/**
+ * Publishes new content for a song and records it in the history.
+ * Used by approved corrections, moderator edits and rollbacks.
+ * 
+ * @param song - The song as currently stored
+ * @param content - The content to publish
+ * @param summary - Description of the change for the history
+ * @param pendingId - When publishing a suggested correction, its revision ID;
+ *   that revision is marked approved instead of recording a new one
+ * @returns False if the content matches the song (nothing was published)
+ * @throws Storage errors from the repository
+ */
+export async function publishSongChange(
+    song: Song,
+    content: SongContent,
+    summary: string | null,
+    pendingId?: number
+): Promise<boolean> {
+    if (sameContent(content, song)) return false;
+
+    const repository = getSongRepository();
+    const now = new Date().toISOString();
+
+    // Keep the text being replaced if the song has no history yet.
+    // It was published when the song was created, so it sorts first.
+    const history = await repository.listRevisions({ songId: song.id, status: "approved" });
+    if (history.length === 0) {
+        await repository.insertRevision({
+            ...contentOf(song),
+            song_id: song.id,
+            summary: "Original version",
+            status: "approved",
+            reviewed_at: song.created_at,
+            rejection_reason: null,
+        });
+    }
+
+    await repository.update(song.id, contentOf(content));
+
+    if (pendingId !== undefined) {
+        await repository.updateRevision(pendingId, { status: "approved", reviewed_at: now });
+    } else {
+        await repository.insertRevision({
+            ...contentOf(content),
+            song_id: song.id,
+            summary,
+            status: "approved",
+            reviewed_at: now,
+            rejection_reason: null,
+        });
+    }
+    return true;
+}
+
+/**
+ * Lists suggested corrections waiting for review, oldest first.
+ * 
+ * @returns Pending corrections with their songs (empty on error)
+ */
+export async function getPendingCorrections(): Promise<Correction[]> {
+    try {
+        const repository = getSongRepository();
+        const revisions = await repository.listRevisions({ status: "pending" });
+        const corrections: Correction[] = [];
+
+        for (const revision of revisions) {
+            const song = await repository.getById(revision.song_id);
+            if (song) corrections.push({ revision, song });
+        }
+
+        return corrections;
+    } catch (error) {
+        console.error("Error listing corrections:", error);
+        return [];
+    }
+}
+
+/**
+ * Fetches a revision together with its song.
+ * 
+ * @param id - The revision ID from the URL
+ * @returns The revision and song, or null if either is missing
+ */
+export async function getCorrection(id: string): Promise<Correction | null> {
+    const revisionId = parseInt(id);
+    if (isNaN(revisionId)) return null;
+
+    try {
+        const repository = getSongRepository();
+        const revision = await repository.getRevision(revisionId);
+        const song = revision ? await repository.getById(revision.song_id) : null;
+        return revision && song ? { revision, song } : null;
+    } catch (error) {
+        console.error("Error fetching correction:", error);
+        return null;
+    }
+}
+
+/**
+ * Lists the published versions of a song, newest first
+ * (ordered by when they were published, not when they were suggested).
+ * The first entry matches the song's current content.
+ * 
+ * @param songId - The song ID
+ * @returns Approved revisions (empty if the song was never changed, or on error)
+ */
+export async function getSongHistory(songId: number): Promise<SongRevision[]> {
+    try {
+        const history = await getSongRepository().listRevisions({ songId, status: "approved" });
+        return history.sort(
+            (a, b) => (b.reviewed_at ?? "").localeCompare(a.reviewed_at ?? "") || b.id - a.id
+        );
+    } catch (error) {
+        console.error("Error fetching song history:", error);
+        return [];
+    }
+}
+
+/**
+ * Approves a pending correction and publishes it.
+ * 
+ * @param id - The revision ID
+ * @returns Object with success status and optional error message
+ */
+export async function approveCorrection(id: number): Promise<RevisionResult> {
+    try {
+        const repository = getSongRepository();
+        const revision = await repository.getRevision(id);
+        const song = revision ? await repository.getById(revision.song_id) : null;
+        if (!revision || !song || revision.status !== "pending") {
+            return { success: false, error: "Correction not found or already reviewed" };
+        }
+
+        const published = await publishSongChange(song, revision, revision.summary, id);
+        if (!published) {
+            // The song already has this content (e.g. the same fix was approved earlier)
+            await repository.updateRevision(id, { status: "approved", reviewed_at: new Date().toISOString() });
+        }
+    } catch (error) {
+        console.error("Error approving correction:", error);
+        return { success: false, error: errorMessage(error) };
+    }
+
+    return { success: true };
+}
+
+/**
+ * Rejects a pending correction, leaving the song unchanged.
+ * 
+ * @param id - The revision ID
+ * @param reason - Why the correction was rejected (required)
+ * @returns Object with success status and optional error message
+ */
+export async function rejectCorrection(id: number, reason: string): Promise<RevisionResult> {
+    if (!reason.trim()) return { success: false, error: "Please give a reason for rejecting" };
+
+    try {
+        const revision = await getSongRepository().updateRevision(id, {
+            status: "rejected",
+            reviewed_at: new Date().toISOString(),
+            rejection_reason: reason.trim(),
+        });
+        return revision ? { success: true } : { success: false, error: "Correction not found" };
+    } catch (error) {
+        console.error("Error rejecting correction:", error);
+        return { success: false, error: errorMessage(error) };
+    }
+}
+
+/**
+ * Restores a song to one of its earlier published versions.
+ * The rollback is itself recorded in the history, so it can be undone.
+ * 
+ * @param songId - The song ID
+ * @param revisionId - The approved revision to restore
+ * @returns Object with success status and optional error message
+ */
+export async function rollbackSong(songId: number, revisionId: number): Promise<RevisionResult> {
+    try {
+        const repository = getSongRepository();
+        const song = await repository.getById(songId);
+        const revision = await repository.getRevision(revisionId);
+        if (!song || !revision || revision.song_id !== songId || revision.status !== "approved") {
+            return { success: false, error: "Revision not found" };
+        }
+
+        const published = await publishSongChange(song, revision, `Rolled back to revision #${revision.id}`);
+        if (!published) return { success: false, error: "The song already matches this revision" };
+    } catch (error) {
+        console.error("Error rolling back song:", error);
+        return { success: false, error: errorMessage(error) };
+    }
+
+    return { success: true };
+}
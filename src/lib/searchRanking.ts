@@ -0,0 +1,145 @@
+/**
+ * @file searchRanking.ts
+ * @description Relevance scoring for song search results.
+ * 
+ * Songs are scored by where the query matched, in tiers:
+ * 1. Title
+ * 2. Artist
+ * 3. Opening line or chorus
+ * 4. Anywhere else in the lyrics
+ * 
+ * Within each tier the whole query as a phrase scores above the
+ * query's words appearing scattered through the field. A match in a
+ * higher tier always outranks any combination of lower-tier matches.
+ * 
+ * All comparisons use normalizeForSearch, so "aseda" matches "asɛda".
+ */
+
+import type { Song } from "./repository";
+import { normalizeForSearch, tokenizeSearchText } from "@/utils/normalize";
+import { parseLyrics, sectionText } from "@/utils/lyricsParser";
+
+/** Weight of each field tier (each tier is worth more than all lower tiers combined) */
+const FIELD_WEIGHTS = {
+    title: 1000,
+    artist: 100,
+    hook: 10,
+    lyrics: 1,
+};
+
+/** Match quality multipliers within a field */
+const QUALITY = {
+    /** Field is exactly the query (title only) */
+    exact: 4,
+    /** Field starts with the query phrase */
+    prefix: 3,
+    /** Query appears as a contiguous phrase */
+    phrase: 2,
+    /** Every query word appears, but not together */
+    scattered: 1,
+};
+
+/** Song text fields used for scoring, already normalized */
+interface SearchFields {
+    title: string;
+    artist: string;
+    /** Opening line and chorus lines */
+    hook: string;
+    lyrics: string;
+}
+
+/**
+ * Extracts the "hook" of a song: its first lyric line plus any chorus lines.
+ * These are what people usually remember and type into search.
+ */
+function extractHook(lyrics: string): string {
+    const { sections } = parseLyrics(lyrics);
+    const firstLine = sections[0]?.stanzas[0][0].text ?? "";
+    const chorus = sections
+        .filter((section) => section.kind === "chorus")
+        .map(sectionText);
+
+    return [firstLine, ...chorus].join("\n");
+}
+
+/**
+ * Normalizes the searchable fields of a song.
+ * Punctuation and line breaks are collapsed to single spaces so a
+ * phrase still matches when it runs across a comma or a line break.
+ */
+function searchFieldsFor(song: Song): SearchFields {
+    const clean = (text: string) => tokenizeSearchText(normalizeForSearch(text)).join(" ");
+
+    return {
+        title: clean(song.title),
+        artist: clean(song.artist ?? ""),
+        hook: clean(extractHook(song.lyrics)),
+        lyrics: clean(song.lyrics),
+    };
+}
+
+/**
+ * Scores how well one field matches the query.
+ * 
+ * @returns A QUALITY multiplier, or 0 if not every word is in the field
+ */
+function matchQuality(field: string, phrase: string, words: string[], allowExact: boolean): number {
+    if (!field) return 0;
+
+    if (allowExact && field === phrase) return QUALITY.exact;
+    if (allowExact && field.startsWith(phrase)) return QUALITY.prefix;
+    if (field.includes(phrase)) return QUALITY.phrase;
+    if (words.length > 0 && words.every((word) => field.includes(word))) return QUALITY.scattered;
+
+    return 0;
+}
+
+/**
+ * Computes the relevance score of a song for a query.
+ * A score of 0 means the song does not match.
+ * 
+ * @param song - The song to score
+ * @param query - The raw search query
+ * @returns Relevance score (higher is better)
+ * 
+ * @example
+ * scoreSong(song, "agyenkwa pa"); // 4000 when the title is "Agyenkwa Pa"
+ */
+export function scoreSong(song: Song, query: string): number {
+    const normalizedQuery = normalizeForSearch(query);
+    const words = tokenizeSearchText(normalizedQuery);
+    const phrase = words.join(" ");
+    if (!phrase) return 0;
+
+    return scoreFields(searchFieldsFor(song), phrase, words);
+}
+
+/** Sums the weighted match quality of every field */
+function scoreFields(fields: SearchFields, phrase: string, words: string[]): number {
+    return (
+        FIELD_WEIGHTS.title * matchQuality(fields.title, phrase, words, true) +
+        FIELD_WEIGHTS.artist * matchQuality(fields.artist, phrase, words, false) +
+        FIELD_WEIGHTS.hook * matchQuality(fields.hook, phrase, words, false) +
+        FIELD_WEIGHTS.lyrics * matchQuality(fields.lyrics, phrase, words, false)
+    );
+}
+
+/**
+ * Orders songs by relevance to the query, best match first.
+ * Songs that don't match at all are dropped; ties are broken by title.
+ * 
+ * @param songs - Candidate songs (e.g. from SongRepository.search)
+ * @param query - The raw search query
+ * @returns Matching songs sorted by descending score
+ */
+export function rankSongs(songs: Song[], query: string): Song[] {
+    const words = tokenizeSearchText(normalizeForSearch(query));
+    const phrase = words.join(" ");
+    if (!phrase) return [];
+
+    return songs
+        .map((song) => ({ song, score: scoreFields(searchFieldsFor(song), phrase, words) }))
+        .filter((entry) => entry.score > 0)
+        .sort((a, b) => b.score - a.score || a.song.title.localeCompare(b.song.title))
+        .map((entry) => entry.song);
+}
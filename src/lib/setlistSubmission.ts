@@ -0,0 +1,90 @@
+/**
+ * @file setlistSubmission.ts
+ * @description Validation rules for setlists saved from the setlist builder.
+ * 
+ * The server re-checks every setlist with validateSetlist before it is
+ * stored. The same limits are used by the builder, so this module must
+ * stay client-safe.
+ */
+
+import type { SlideFormat } from "@/utils/formatLyrics";
+import type { SetlistItem } from "./repository";
+
+/** Limits on a saved setlist */
+export const SETLIST_LIMITS = {
+    /** Characters in the name */
+    name: 80,
+    /** Songs in one setlist */
+    items: 30,
+};
+
+/** Slide formats a setlist song can use */
+export const SETLIST_FORMATS: SlideFormat[] = ["2-lines", "4-lines", "full-verse"];
+
+/** How each slide format is named in the setlist builder */
+export const SLIDE_FORMAT_LABELS: Record<SlideFormat, string> = {
+    "2-lines": "2 lines/slide",
+    "4-lines": "4 lines/slide",
+    "full-verse": "Full verse",
+};
+
+/** A setlist that passed validation */
+export interface SetlistSubmission {
+    name: string;
+    /** YYYY-MM-DD, or null */
+    service_date: string | null;
+    items: SetlistItem[];
+}
+
+/**
+ * Checks that a setlist has the right shape and fits the limits.
+ * Song IDs are checked for shape only; songs that don't exist are
+ * left out when the setlist is shown.
+ * 
+ * @param input - The untrusted value received from the client
+ * @returns The cleaned setlist, or null with the list of problems
+ */
+export function validateSetlist(input: unknown): { setlist: SetlistSubmission | null; errors: string[] } {
+    if (!input || typeof input !== "object") {
+        return { setlist: null, errors: ["Invalid setlist"] };
+    }
+
+    const record = input as Record<string, unknown>;
+    const errors: string[] = [];
+
+    const name = typeof record.name === "string" ? record.name.trim() : "";
+    if (!name) errors.push("Give the setlist a name");
+    else if (name.length > SETLIST_LIMITS.name) errors.push(`Name is too long (limit ${SETLIST_LIMITS.name} characters)`);
+
+    const date = typeof record.service_date === "string" ? record.service_date.trim() : "";
+    if (date && (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date)))) {
+        errors.push("Invalid service date");
+    }
+
+    const items: SetlistItem[] = [];
+    if (!Array.isArray(record.items) || record.items.length === 0) {
+        errors.push("Add at least one song");
+    } else if (record.items.length > SETLIST_LIMITS.items) {
+        errors.push(`Too many songs (limit ${SETLIST_LIMITS.items})`);
+    } else {
+        for (const item of record.items as Array<Record<string, unknown> | null>) {
+            const valid =
+                Number.isInteger(item?.song_id) &&
+                (item?.arrangement === null || typeof item?.arrangement === "string") &&
+                (SETLIST_FORMATS as unknown[]).includes(item?.format);
+            if (!valid) {
+                errors.push("Invalid song in setlist");
+                break;
+            }
+            items.push({
+                song_id: item!.song_id as number,
+                arrangement: (item!.arrangement as string | null)?.slice(0, 100) || null,
+                format: item!.format as SlideFormat,
+            });
+        }
+    }
+
+    return errors.length > 0
+        ? { setlist: null, errors }
+        : { setlist: { name, service_date: date || null, items }, errors };
+}
@@ -0,0 +1,125 @@
+/**
+ * @file setlists.ts
+ * @description Saved service setlists with shareable links.
+ * 
+ * A setlist is saved under a random ID, which is also its share URL
+ * (/setlist/{id}): anyone with the link can view, copy and export it.
+ * Saving returns an edit key as well; only a request with that key can
+ * change the setlist. The key is kept on the device that saved the
+ * setlist, and only its SHA-256 hash is stored (see editKeys.ts).
+ */
+
+import { randomBytes } from "crypto";
+import { createEditKey, editKeyMatches, hashEditKey } from "./editKeys";
+import { getSongRepository, Setlist, SetlistItem, Song, SongArrangement } from "./repository";
+import { getReviewStatus } from "./songs";
+import type { SetlistSubmission } from "./setlistSubmission";
+import { errorMessage } from "@/utils/errors";
+
+/** A setlist song with everything needed to show or export it */
+export interface SetlistEntry {
+    item: SetlistItem;
+    song: Song;
+    /** The chosen arrangement, or null for the written order (also when it was deleted) */
+    arrangement: SongArrangement | null;
+}
+
+/** Result of saving a setlist */
+export interface SetlistResult {
+    success: boolean;
+    error?: string;
+    /** The setlist's ID (its share URL is /setlist/{id}) */
+    id?: string;
+    /** The key needed to change the setlist (only returned when it's first saved) */
+    editKey?: string;
+}
+
+/**
+ * Fetches a setlist by its ID.
+ * 
+ * @param id - The setlist ID from the URL
+ * @returns The setlist, or null if not found or on error
+ */
+export async function getSetlist(id: string): Promise<Setlist | null> {
+    if (!/^[\w-]{1,40}$/.test(id)) return null;
+
+    try {
+        return await getSongRepository().getSetlist(id);
+    } catch (error) {
+        console.error("Error fetching setlist:", error);
+        return null;
+    }
+}
+
+/**
+ * Looks up the songs of a setlist, with their chosen arrangements.
+ * Songs that no longer exist (or were rejected) are left out.
+ * 
+ * @param items - The setlist's songs
+ * @returns One entry per song still available, in setlist order
+ */
+export async function getSetlistEntries(items: SetlistItem[]): Promise<SetlistEntry[]> {
+    const repository = getSongRepository();
+    const entries: SetlistEntry[] = [];
+
+    try {
+        for (const item of items) {
+            const song = await repository.getById(item.song_id);
+            if (!song || getReviewStatus(song) === "rejected") continue;
+
+            const arrangements = item.arrangement ? await repository.listArrangements(song.id) : [];
+            const arrangement = arrangements.find((a) => a.name === item.arrangement) ?? null;
+            entries.push({ item, song, arrangement });
+        }
+    } catch (error) {
+        console.error("Error fetching setlist songs:", error);
+    }
+
+    return entries;
+}
+
+/**
+ * Saves a new setlist.
+ * 
+ * @param setlist - The setlist (already checked with validateSetlist)
+ * @returns The new setlist's ID and edit key, or an error message
+ */
+export async function createSetlist(setlist: SetlistSubmission): Promise<SetlistResult> {
+    const id = randomBytes(9).toString("base64url");
+    const editKey = createEditKey();
+
+    try {
+        await getSongRepository().insertSetlist({ ...setlist, id, edit_key_hash: hashEditKey(editKey) });
+    } catch (error) {
+        console.error("Error saving setlist:", error);
+        return { success: false, error: errorMessage(error) };
+    }
+
+    return { success: true, id, editKey };
+}
+
+/**
+ * Saves changes to an existing setlist.
+ * 
+ * @param id - The setlist to change
+ * @param editKey - The key returned when the setlist was created
+ * @param setlist - The new content (already checked with validateSetlist)
+ * @returns Object with success status and optional error message
+ */
+export async function updateSetlist(id: string, editKey: string, setlist: SetlistSubmission): Promise<SetlistResult> {
+    try {
+        const repository = getSongRepository();
+        const stored = await getSetlist(id);
+        if (!stored) return { success: false, error: "Setlist not found" };
+        if (!editKeyMatches(editKey, stored.edit_key_hash)) {
+            return { success: false, error: "This setlist can only be changed from the device that saved it" };
+        }
+
+        await repository.updateSetlist(id, setlist);
+    } catch (error) {
+        console.error("Error updating setlist:", error);
+        return { success: false, error: errorMessage(error) };
+    }
+
+    return { success: true, id };
+}
@@ -0,0 +1,197 @@
+/**
+ * @file songImport.ts
+ * @description Bulk import of songs from a CSV file (e.g. data/songs.csv).
+ * 
+ * The import runs in three steps:
+ * 1. Parse the CSV (title, artist, language, lyrics columns)
+ * 2. Validate each row and flag duplicates, both against songs already
+ *    stored and against earlier rows in the same file
+ * 3. Insert the new rows through addSong (skipped in dry-run mode)
+ * 
+ * Duplicates are never inserted, so running the same import twice
+ * leaves the database unchanged the second time.
+ * 
+ * The CSV is curated, so its songs are stored as verified by default,
+ * the same as the local backend's seed; they skip the moderation queue.
+ */
+
+import { addSong, getAllSongs, Song } from "./songs";
+import { isLanguage, LANGUAGES } from "./languages";
+import { parseCsvRecords } from "@/utils/csv";
+import { normalizeForSearch } from "@/utils/normalize";
+
+/** Columns every import file must have */
+const REQUIRED_COLUMNS = ["title", "artist", "language", "lyrics"];
+
+/** A song row read from the CSV file */
+export interface SongImportRow {
+    /** 1-based record number in the file (the header is row 1) */
+    row: number;
+    title: string;
+    artist: string;
+    language: string;
+    lyrics: string;
+}
+
+/** Outcome of checking (and possibly inserting) a single row */
+export type SongImportStatus = "new" | "inserted" | "duplicate" | "invalid" | "failed";
+
+/** Per-row entry in the import report */
+export interface SongImportResult {
+    row: SongImportRow;
+    status: SongImportStatus;
+    /** Validation errors, the duplicate match, or the insert error */
+    messages: string[];
+}
+
+/** Full report returned by importSongsFromCsv */
+export interface SongImportReport {
+    dryRun: boolean;
+    results: SongImportResult[];
+    /** Number of rows per status */
+    counts: Record<SongImportStatus, number>;
+}
+
+/**
+ * Parses CSV text into import rows.
+ * 
+ * @param text - The raw CSV text with a title,artist,language,lyrics header
+ * @returns Array of rows with surrounding whitespace trimmed
+ * @throws Error if a required column is missing from the header
+ */
+export function parseSongCsv(text: string): SongImportRow[] {
+    const records = parseCsvRecords(text);
+
+    const missing = records.length > 0
+        ? REQUIRED_COLUMNS.filter((column) => !(column in records[0]))
+        : [];
+    if (missing.length > 0) {
+        throw new Error(`CSV is missing required column(s): ${missing.join(", ")}`);
+    }
+
+    return records.map((record, index) => ({
+        row: index + 2,
+        title: record.title.trim(),
+        artist: record.artist.trim(),
+        language: record.language.trim(),
+        lyrics: record.lyrics.trim(),
+    }));
+}
+
+/**
+ * Checks a row for problems that would stop it being imported.
+ * 
+ * @param row - The row to validate
+ * @returns List of error messages (empty if the row is valid)
+ */
+export function validateSongRow(row: SongImportRow): string[] {
+    const errors: string[] = [];
+
+    if (!row.title) {
+        errors.push("Title is empty");
+    }
+    if (!row.lyrics) {
+        errors.push("Lyrics are empty");
+    }
+    if (!isLanguage(row.language)) {
+        errors.push(`Language "${row.language}" is not one of: ${LANGUAGES.join(", ")}`);
+    }
+
+    return errors;
+}
+
+/**
+ * Builds the key used to detect duplicates.
+ * Two songs are duplicates when their normalized title and artist match,
+ * so "Asɛda" by "DOGJ" and "Aseda" by "dogj" count as the same song.
+ */
+function duplicateKey(title: string, artist: string | null): string {
+    const normalize = (text: string) => normalizeForSearch(text).replace(/\s+/g, " ").trim();
+    return `${normalize(title)}|${normalize(artist ?? "")}`;
+}
+
+/**
+ * Validates and imports songs from CSV text.
+ * 
+ * @param text - The raw CSV text
+ * @param options.dryRun - When true, report what would happen without inserting
+ * @param options.verified - Whether to store the songs as verified (default true);
+ *   false sends them to the moderation queue like submitted songs
+ * @returns Report with the outcome of every row
+ * 
+ * @example
+ * const report = await importSongsFromCsv(csv, { dryRun: true });
+ * console.log(report.counts.new, "songs would be added");
+ */
+export async function importSongsFromCsv(
+    text: string,
+    options: { dryRun?: boolean; verified?: boolean } = {}
+): Promise<SongImportReport> {
+    const dryRun = options.dryRun ?? false;
+    const verified = options.verified ?? true;
+    const rows = parseSongCsv(text);
+
+    // Index songs already stored so duplicates can point at the existing ID
+    const existing = new Map<string, Song>();
+    for (const song of await getAllSongs()) {
+        existing.set(duplicateKey(song.title, song.artist), song);
+    }
+
+    // Rows seen earlier in this file, by duplicate key
+    const seenInFile = new Map<string, SongImportRow>();
+    const results: SongImportResult[] = [];
+
+    for (const row of rows) {
+        const errors = validateSongRow(row);
+        if (errors.length > 0) {
+            results.push({ row, status: "invalid", messages: errors });
+            continue;
+        }
+
+        const key = duplicateKey(row.title, row.artist);
+        const stored = existing.get(key);
+        if (stored) {
+            results.push({
+                row,
+                status: "duplicate",
+                messages: [`Already stored as song #${stored.id} ("${stored.title}")`],
+            });
+            continue;
+        }
+        const earlier = seenInFile.get(key);
+        if (earlier) {
+            results.push({
+                row,
+                status: "duplicate",
+                messages: [`Same song as row ${earlier.row} in this file`],
+            });
+            continue;
+        }
+        seenInFile.set(key, row);
+
+        if (dryRun) {
+            results.push({ row, status: "new", messages: [] });
+            continue;
+        }
+
+        const result = await addSong(row, { verified });
+        results.push(
+            result.success
+                ? { row, status: "inserted", messages: [] }
+                : { row, status: "failed", messages: [result.error || "Insert failed"] }
+        );
+    }
+
+    const counts: Record<SongImportStatus, number> = {
+        new: 0,
+        inserted: 0,
+        duplicate: 0,
+        invalid: 0,
+        failed: 0,
+    };
+    for (const result of results) {
+        counts[result.status]++;
+    }
+
+    return { dryRun, results, counts };
+}
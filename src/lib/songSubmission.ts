@@ -0,0 +1,96 @@
+/**
+ * @file songSubmission.ts
+ * @description Validation rules for songs submitted through the Add Song,
+ * Import and Suggest a Correction forms.
+ * 
+ * The server re-checks every submission with validateSongSubmission
+ * before it is stored, so a request crafted outside the form can't
+ * insert malformed rows. The same limits are used by AddSongForm
+ * for its maxLength attributes, so this module must stay client-safe.
+ */
+
+import { isLanguage, LANGUAGES } from "./languages";
+
+/** Maximum length of each submitted field, in characters */
+export const SUBMISSION_LIMITS = {
+    title: 200,
+    artist: 200,
+    lyrics: 20000,
+};
+
+/** Maximum number of songs submitted in one go from the import page */
+export const IMPORT_BATCH_LIMIT = 50;
+
+/** Maximum length of the "what did you change?" note on a correction */
+export const CORRECTION_SUMMARY_LIMIT = 200;
+
+/**
+ * Name of the hidden honeypot field on the Add Song form.
+ * People never see it, so a value means the form was filled in by a bot.
+ */
+export const HONEYPOT_FIELD = "website";
+
+/** A submission that passed validation, with whitespace trimmed */
+export interface SongSubmission {
+    title: string;
+    artist: string;
+    lyrics: string;
+    language: string;
+}
+
+/**
+ * Checks that a submission has the right shape, fits the length
+ * limits and uses one of the supported languages.
+ * 
+ * @param input - The untrusted value received from the client
+ * @returns The cleaned submission, or null with the list of problems
+ * 
+ * @example
+ * const { submission, errors } = validateSongSubmission(formData);
+ * if (!submission) return { success: false, error: errors.join(". ") };
+ */
+export function validateSongSubmission(
+    input: unknown
+): { submission: SongSubmission | null; errors: string[] } {
+    if (!input || typeof input !== "object") {
+        return { submission: null, errors: ["Invalid submission"] };
+    }
+
+    const record = input as Record<string, unknown>;
+    const errors: string[] = [];
+
+    // Every field must be a string (artist may be missing)
+    const text = (name: keyof SongSubmission, required: boolean): string => {
+        const value = record[name];
+        if (value === undefined && !required) return "";
+        if (typeof value !== "string") {
+            errors.push(`Invalid ${name}: must be text`);
+            return "";
+        }
+        return value.trim();
+    };
+
+    const submission: SongSubmission = {
+        title: text("title", true),
+        artist: text("artist", false),
+        lyrics: text("lyrics", true),
+        language: text("language", true),
+    };
+    if (errors.length > 0) return { submission: null, errors };
+
+    if (!submission.title) errors.push("Title is required");
+    if (!submission.lyrics) errors.push("Lyrics are required");
+
+    for (const [name, limit] of Object.entries(SUBMISSION_LIMITS)) {
+        const length = submission[name as keyof typeof SUBMISSION_LIMITS].length;
+        if (length > limit) {
+            errors.push(`Too long: ${name} has ${length} characters (limit ${limit})`);
+        }
+    }
+
+    if (!isLanguage(submission.language)) {
+        errors.push(`Language must be one of: ${LANGUAGES.join(", ")}`);
+    }
+
+    return errors.length > 0 ? { submission: null, errors } : { submission, errors };
+}
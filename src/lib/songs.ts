@@ -1,43 +1,274 @@
 /**
  * @file songs.ts
- * @description Database operations for the songs table.
+ * @description Song operations used by pages and server actions.
  * 
- * This file contains all Supabase queries for:
+ * This file contains all song queries for:
  * - Fetching songs by ID
  * - Searching songs with fuzzy matching (Twi character normalization)
+ * - Listing artists (spelling variants grouped together)
+ * - Browsing songs A–Z by title
+ * - Spotting likely duplicates of a new submission
  * - Adding new songs to the database
  * 
- * The search functionality normalizes Twi special characters (ɛ→e, ɔ→o, ŋ→n)
- * so users can find songs even without a Twi keyboard.
+ * Songs a moderator rejected are hidden from every function here;
+ * the review queue reads them through moderation.ts instead.
+ * 
+ * The actual storage is delegated to the configured SongRepository
+ * (Supabase or the local JSON file, see repository.ts).
+ * 
+ * The search functionality normalizes special letters and tone marks (ɛ→e, ɖ→d, á→a)
+ * so users can find songs even without a Twi or Ewe keyboard, and ranks results
+ * by relevance (see searchRanking.ts).
  */
 
-import { supabase, Song } from "./supabase";
+import { getSongRepository, Song } from "./repository";
+import { rankSongs } from "./searchRanking";
+import { findFuzzyMatches } from "./fuzzySearch";
+import { DuplicateDraft, DuplicateMatch, findDuplicates } from "./duplicates";
+import { findLanguage } from "./languages";
+import { normalizeForSearch, tokenizeSearchText } from "@/utils/normalize";
+import { artistSlug } from "@/utils/artists";
+import { errorMessage } from "@/utils/errors";
 
 /**
- * Normalizes Twi special characters for search matching.
- * This allows users to type "aseda" and find "asɛda".
+ * Maximum number of candidate songs fetched before ranking.
+ * Candidates come back in title order, so this needs to comfortably
+ * exceed the number of songs a single search can match
+ * (Supabase caps a single request at 1000 rows by default).
+ */
+const SEARCH_CANDIDATE_LIMIT = 1000;
+
+/** Number of results per page on the search page */
+export const SEARCH_PAGE_SIZE = 20;
+
+/** Number of songs per page on the browse page */
+export const BROWSE_PAGE_SIZE = 50;
+
+/** Letters of the A–Z index; titles starting with anything else go under "#" */
+export const BROWSE_LETTERS = [..."ABCDEFGHIJKLMNOPQRSTUVWXYZ", "#"];
+
+/** Filters that narrow down search results (all optional) */
+export interface SearchFilters {
+    /** Only songs in this language (exact match, e.g. "Twi") */
+    language?: string;
+    /** Only songs by this artist (spelling variants match, see artistSlug) */
+    artist?: string;
+    /** Only songs that have been reviewed */
+    verifiedOnly?: boolean;
+}
+
+/** One page of search results plus facet counts */
+export interface SearchResults {
+    /** Songs on the requested page, best match first */
+    songs: Song[];
+    /** Number of matches across all pages */
+    total: number;
+    /** 1-based page number (clamped to the available pages) */
+    page: number;
+    /** Number of pages (at least 1) */
+    pageCount: number;
+    /**
+     * Matches per language, counted with every filter except language
+     * applied, so the chips show what selecting each language would give.
+     */
+    languageCounts: Record<string, number>;
+    /** Plain search text (operators removed), for highlighting matches */
+    highlight: string;
+}
+
+/**
+ * Where a song is in the review workflow:
+ * - pending: submitted, waiting for a moderator
+ * - approved: reviewed and verified (curated songs start here)
+ * - rejected: turned down by a moderator, hidden from the site
+ */
+export type ReviewStatus = "pending" | "approved" | "rejected";
+
+/** Filters for browsing the library (all optional) */
+export interface BrowseFilters {
+    /** Only songs in this language (exact match, e.g. "Twi") */
+    language?: string;
+    /** Only titles filed under this index letter ("A"–"Z" or "#") */
+    letter?: string;
+}
+
+/** One page of the A–Z browse listing plus facet counts */
+export interface BrowseResults {
+    /** Songs on the requested page, by title */
+    songs: Song[];
+    /** Number of songs across all pages */
+    total: number;
+    /** 1-based page number (clamped to the available pages) */
+    page: number;
+    /** Number of pages (at least 1) */
+    pageCount: number;
+    /** Songs per language, counted with the letter filter applied */
+    languageCounts: Record<string, number>;
+    /** Songs per index letter, counted with the language filter applied */
+    letterCounts: Record<string, number>;
+}
+
+/** An artist with all spelling variants of their name grouped together */
+export interface Artist {
+    /** URL slug shared by every spelling variant (see artistSlug) */
+    slug: string;
+    /** Display name: the most common spelling */
+    name: string;
+    /** Number of songs by this artist */
+    songCount: number;
+    /** Languages the artist's songs are in, alphabetical */
+    languages: string[];
+}
+
+/**
+ * A search query broken down into its parts by parseSearchQuery.
+ * Every part must match for a song to be returned.
+ */
+export interface ParsedSearchQuery {
+    /** Plain words, matched anywhere (title, artist or lyrics) */
+    terms: string[];
+    /** "Quoted phrases" that must appear with their words together */
+    phrases: string[];
+    /** -words and -"phrases" that must not appear */
+    excluded: string[];
+    /** title:words that must appear in the title */
+    title: string[];
+    /** artist:name, matched as part of the artist name */
+    artist?: string;
+    /** lang:code, resolved to a language name when recognised */
+    language?: string;
+    /** verified:true / verified:false */
+    verified?: boolean;
+}
+
+/** Matches one query token: optional "-", optional "field:", then a "quoted phrase" or bare word */
+const QUERY_TOKEN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+/** Field operators recognised by parseSearchQuery (anything else is a plain word) */
+const QUERY_FIELDS = ["title", "artist", "lang", "language", "verified"];
+
+/**
+ * Parses advanced search syntax into a structured query.
+ * 
+ * Supported syntax:
+ * - `word` - plain word, matched anywhere
+ * - `"exact phrase"` - words must appear together
+ * - `-word` or `-"phrase"` - exclude songs containing it
+ * - `title:aseda` - word must be in the title
+ * - `artist:"Daughters of Glorious Jesus"` - artist name contains this
+ * - `lang:ga` - language by name or code (Twi/tw, Ga/gaa, Ewe/ee, ...)
+ * - `verified:true` / `verified:false` - reviewed songs only / unreviewed only
  * 
- * Character mappings:
- * - ɛ, Ɛ → e
- * - ɔ, Ɔ → o
- * - ŋ, Ŋ → n
+ * Unknown operators (e.g. `foo:bar`) are treated as plain words.
  * 
- * @param text - The text to normalize
- * @returns Normalized lowercase text with special characters replaced
+ * @param query - The raw query typed by the user
+ * @returns The structured query
+ * 
+ * @example
+ * parseSearchQuery('"meda wo ase" -yesu lang:tw');
+ * // { terms: [], phrases: ["meda wo ase"], excluded: ["yesu"], title: [], language: "Twi" }
  */
-export function normalizeForSearch(text: string): string {
-    return text
-        .toLowerCase()
-        .replace(/ɛ/g, "e")
-        .replace(/Ɛ/g, "e")
-        .replace(/ɔ/g, "o")
-        .replace(/Ɔ/g, "o")
-        .replace(/ŋ/g, "n")
-        .replace(/Ŋ/g, "n");
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+    const parsed: ParsedSearchQuery = { terms: [], phrases: [], excluded: [], title: [] };
+
+    for (const match of query.matchAll(QUERY_TOKEN)) {
+        const [token, negated, rawField, quoted, bare] = match;
+        const field = rawField?.toLowerCase();
+        const value = (quoted ?? bare ?? "").trim();
+
+        if (!value) continue;
+
+        // Operator prefix that isn't a known field: keep the whole token as a word
+        if (field && !QUERY_FIELDS.includes(field)) {
+            parsed[negated ? "excluded" : "terms"].push(negated ? token.slice(1) : token);
+            continue;
+        }
+
+        if (negated) {
+            parsed.excluded.push(value);
+        } else if (field === "title") {
+            parsed.title.push(value);
+        } else if (field === "artist") {
+            parsed.artist = value;
+        } else if (field === "lang" || field === "language") {
+            parsed.language = findLanguage(value) ?? value;
+        } else if (field === "verified") {
+            if (/^(true|yes|1)$/i.test(value)) parsed.verified = true;
+            if (/^(false|no|0)$/i.test(value)) parsed.verified = false;
+        } else if (quoted !== undefined) {
+            parsed.phrases.push(value);
+        } else {
+            parsed.terms.push(value);
+        }
+    }
+
+    return parsed;
+}
+
+/**
+ * Returns the plain text a parsed query looks for (words, phrases and
+ * title words, without operators). Used for ranking and highlighting.
+ */
+function positiveText(parsed: ParsedSearchQuery): string {
+    return [...parsed.title, ...parsed.phrases, ...parsed.terms].join(" ");
+}
+
+/**
+ * Returns the text to highlight in results for a raw query,
+ * i.e. the query without operators, exclusions or quotes.
+ * 
+ * @param query - The raw query typed by the user
+ * 
+ * @example
+ * searchHighlightText('title:aseda lang:tw -yesu'); // "aseda"
+ */
+export function searchHighlightText(query: string): string {
+    return positiveText(parseSearchQuery(query));
+}
+
+/** Collapses text to normalized words separated by single spaces */
+function searchableText(text: string): string {
+    return tokenizeSearchText(normalizeForSearch(text)).join(" ");
+}
+
+/**
+ * Checks the parts of a parsed query that ranking doesn't cover:
+ * phrases, exclusions, title words and field filters.
+ */
+function matchesParsedQuery(song: Song, parsed: ParsedSearchQuery): boolean {
+    const title = searchableText(song.title);
+    const artist = searchableText(song.artist ?? "");
+    const all = `${title} ${artist} ${searchableText(song.lyrics)}`;
+
+    return (
+        parsed.phrases.every((phrase) => all.includes(searchableText(phrase))) &&
+        parsed.excluded.every((excluded) => !all.includes(searchableText(excluded))) &&
+        parsed.title.every((word) => title.includes(searchableText(word))) &&
+        (!parsed.artist || artist.includes(searchableText(parsed.artist))) &&
+        (!parsed.language || song.language === parsed.language) &&
+        (parsed.verified === undefined || song.is_verified === parsed.verified)
+    );
+}
+
+/**
+ * Works out a song's review status from its verified flag and review date.
+ * 
+ * @param song - The song to check
+ * @returns "approved", "pending" or "rejected"
+ */
+export function getReviewStatus(song: Song): ReviewStatus {
+    if (song.is_verified) return "approved";
+    return song.reviewed_at ? "rejected" : "pending";
+}
+
+/** Whether a song may be shown on the public site (anything not rejected) */
+function isPublic(song: Song): boolean {
+    return getReviewStatus(song) !== "rejected";
 }
 
 /**
  * Fetches a single song by its ID.
+ * Rejected songs are treated as not found.
  * 
  * @param id - The song ID to fetch
  * @returns The song object if found, null otherwise
@@ -49,87 +280,333 @@ export function normalizeForSearch(text: string): string {
  * }
  */
 export async function getSongById(id: string): Promise<Song | null> {
-    const { data, error } = await supabase
-        .from("songs")
-        .select("*")
-        .eq("id", parseInt(id))
-        .single();
+    const songId = parseInt(id);
+    if (isNaN(songId)) return null;
 
-    if (error) {
+    try {
+        const song = await getSongRepository().getById(songId);
+        return song && isPublic(song) ? song : null;
+    } catch (error) {
         console.error("Error fetching song:", error);
         return null;
     }
+}
+
+/**
+ * Runs a search query (with advanced syntax) and ranks the results.
+ * Shared by searchSongs and searchSongsSuggestions.
+ * 
+ * Songs containing every plain word are fetched from the repository,
+ * then narrowed by phrases, exclusions and field filters, and ranked
+ * by relevance. A query with only field filters or exclusions
+ * (e.g. `lang:ga`, `-yesu`) lists every matching song by title.
+ * 
+ * @param query - The search query string
+ * @returns All matching songs, best match first (empty if none found or error)
+ */
+async function searchRanked(query: string): Promise<Song[]> {
+    const parsed = parseSearchQuery(query);
+    const text = positiveText(parsed);
+    const words = tokenizeSearchText(normalizeForSearch(text));
+    const hasFilters =
+        parsed.artist !== undefined ||
+        parsed.language !== undefined ||
+        parsed.verified !== undefined ||
+        parsed.excluded.length > 0;
+
+    if (words.length === 0 && !hasFilters) return [];
 
-    return data;
+    try {
+        const repository = getSongRepository();
+        const candidates = words.length > 0
+            ? await repository.search(words, SEARCH_CANDIDATE_LIMIT)
+            : await repository.listAll();
+        const matches = candidates.filter((song) => isPublic(song) && matchesParsedQuery(song, parsed));
+
+        return words.length > 0
+            ? rankSongs(matches, text)
+            : matches.sort((a, b) => a.title.localeCompare(b.title));
+    } catch (error) {
+        console.error("Error searching songs:", error);
+        return [];
+    }
 }
 
 /**
- * Searches songs using the normalized search_text column.
- * Returns up to 20 results ordered by title.
+ * Searches songs using the normalized title, artist and lyrics,
+ * with optional filters and pagination.
  * 
  * The search is case-insensitive and matches partial text.
  * Twi characters are normalized (ɛ→e) for easier searching.
+ * Title matches rank above artist matches, which rank above matches
+ * in the opening line or chorus, then the rest of the lyrics.
+ * The query may use advanced syntax (see parseSearchQuery); its
+ * operators apply on top of the filters.
  * 
  * @param query - The search query string
- * @returns Array of matching songs (empty if none found or error)
+ * @param filters - Optional language / artist / verified-only filters
+ * @param page - 1-based page number (default: 1)
+ * @returns The requested page of results with totals and language counts
  * 
  * @example
- * const results = await searchSongs("aseda");
- * // Will find songs with "asɛda" in title, artist, or lyrics
+ * const { songs, total } = await searchSongs("yesu", { language: "Twi" }, 2);
+ * // Second page of Twi songs mentioning "Yesu"
  */
-export async function searchSongs(query: string): Promise<Song[]> {
-    const normalizedQuery = normalizeForSearch(query);
+export async function searchSongs(
+    query: string,
+    filters: SearchFilters = {},
+    page = 1
+): Promise<SearchResults> {
+    const artist = filters.artist ? artistSlug(filters.artist) : "";
 
-    const { data, error } = await supabase
-        .from("songs")
-        .select("*")
-        .ilike("search_text", `%${normalizedQuery}%`)
-        .order("title")
-        .limit(20);
+    // Apply every filter except language, so language facets can be counted
+    const matches = (await searchRanked(query)).filter(
+        (song) =>
+            (!filters.verifiedOnly || song.is_verified) &&
+            (!artist || artistSlug(song.artist ?? "") === artist)
+    );
 
-    if (error) {
-        console.error("Error searching songs:", error);
-        return [];
+    const languageCounts = countBy(matches, (song) => song.language);
+
+    const filtered = filters.language
+        ? matches.filter((song) => song.language === filters.language)
+        : matches;
+
+    return {
+        ...paginate(filtered, page, SEARCH_PAGE_SIZE),
+        languageCounts,
+        highlight: searchHighlightText(query),
+    };
+}
+
+/**
+ * Cuts one page out of a list of songs.
+ * Out-of-range page numbers are clamped to the first or last page.
+ */
+function paginate(songs: Song[], page: number, pageSize: number) {
+    const pageCount = Math.max(1, Math.ceil(songs.length / pageSize));
+    const currentPage = Math.min(Math.max(1, Math.floor(page) || 1), pageCount);
+    const start = (currentPage - 1) * pageSize;
+
+    return {
+        songs: songs.slice(start, start + pageSize),
+        total: songs.length,
+        page: currentPage,
+        pageCount,
+    };
+}
+
+/** Counts songs by a key (language, index letter, ...) */
+function countBy(songs: Song[], key: (song: Song) => string): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const song of songs) {
+        counts[key(song)] = (counts[key(song)] ?? 0) + 1;
     }
+    return counts;
+}
 
-    return data || [];
+/**
+ * Returns the A–Z index letter a title is filed under.
+ * Special letters and tone marks are folded first, so "Ɔdɔ" is under O
+ * and "Ɛberɛ" under E; titles starting with a digit go under "#".
+ * 
+ * @example
+ * titleLetter("Ɔdɔ a ɛkorɔn"); // "O"
+ * titleLetter("1 Corinthians"); // "#"
+ */
+export function titleLetter(title: string): string {
+    const first = tokenizeSearchText(normalizeForSearch(title))[0]?.[0]?.toUpperCase() ?? "";
+    return /^[A-Z]$/.test(first) ? first : "#";
+}
+
+/**
+ * Lists songs A–Z by title for the browse page.
+ * Titles are sorted on their normalized form, so "Ɔdɔ" sorts among the O's.
+ * 
+ * @param filters - Optional language / index letter filters
+ * @param page - 1-based page number (default: 1)
+ * @returns One page of songs plus language and letter counts
+ * 
+ * @example
+ * const { songs, letterCounts } = await browseSongs({ language: "Ga", letter: "N" });
+ */
+export async function browseSongs(filters: BrowseFilters = {}, page = 1): Promise<BrowseResults> {
+    const songs = (await getAllSongs())
+        .map((song) => ({ song, key: normalizeForSearch(song.title).trim() }))
+        .sort((a, b) => a.key.localeCompare(b.key) || a.song.title.localeCompare(b.song.title))
+        .map((entry) => entry.song);
+
+    const inLanguage = (song: Song) => !filters.language || song.language === filters.language;
+    const inLetter = (song: Song) => !filters.letter || titleLetter(song.title) === filters.letter;
+
+    return {
+        ...paginate(songs.filter((song) => inLanguage(song) && inLetter(song)), page, BROWSE_PAGE_SIZE),
+        languageCounts: countBy(songs.filter(inLetter), (song) => song.language),
+        letterCounts: countBy(songs.filter(inLanguage), (song) => titleLetter(song.title)),
+    };
 }
 
 /**
  * Searches songs for the suggestions dropdown (limited to 5 results).
  * Used by the SearchBar component for instant suggestions while typing.
+ * Uses the same relevance ranking as searchSongs.
  * 
  * @param query - The search query string
  * @returns Array of up to 5 matching songs
  */
 export async function searchSongsSuggestions(query: string): Promise<Song[]> {
-    const normalizedQuery = normalizeForSearch(query);
+    return (await searchRanked(query)).slice(0, 5);
+}
 
-    const { data, error } = await supabase
-        .from("songs")
-        .select("*")
-        .ilike("search_text", `%${normalizedQuery}%`)
-        .order("title")
-        .limit(5);
+/**
+ * Finds songs that nearly match a query, tolerating typos
+ * (missing, extra or swapped letters).
+ * Used for "Did you mean" suggestions when searchSongs finds nothing.
+ * 
+ * @param query - The search query string
+ * @param limit - Maximum number of suggestions (default: 5)
+ * @returns Closest songs first (empty if none are close enough or error)
+ * 
+ * @example
+ * const suggestions = await findSimilarSongs("Agyenkaw pa");
+ * // [{ title: "Agyenkwa Pa", ... }]
+ */
+export async function findSimilarSongs(query: string, limit = 5): Promise<Song[]> {
+    const text = searchHighlightText(query);
+    if (!text) return [];
 
-    if (error) {
-        console.error("Error searching songs:", error);
+    try {
+        const songs = await getSongRepository().listAll();
+        return findFuzzyMatches(songs.filter(isPublic), text, limit);
+    } catch (error) {
+        console.error("Error finding similar songs:", error);
         return [];
     }
+}
 
-    return data || [];
+/**
+ * Finds songs that a new submission probably duplicates
+ * (nearly the same title, or mostly the same lyrics).
+ * Songs still waiting for review count too, since resubmissions
+ * often arrive before the first copy has been approved.
+ * Used by the Add Song form while typing and again on submit.
+ * 
+ * @param draft - The title and lyrics being submitted
+ * @param limit - Maximum number of matches (default: 5)
+ * @returns Likely duplicates, closest first (empty if none or error)
+ */
+export async function findDuplicateSongs(draft: DuplicateDraft, limit = 5): Promise<DuplicateMatch[]> {
+    try {
+        const songs = await getSongRepository().listAll();
+        return findDuplicates(songs.filter(isPublic), draft, limit);
+    } catch (error) {
+        console.error("Error finding duplicate songs:", error);
+        return [];
+    }
+}
+
+/**
+ * Lists every song in the database except rejected ones, ordered by ID.
+ * Used by the sitemap, browse and artist pages and the CSV import.
+ * 
+ * @returns Array of all public songs (empty on error)
+ */
+export async function getAllSongs(): Promise<Song[]> {
+    try {
+        return (await getSongRepository().listAll()).filter(isPublic);
+    } catch (error) {
+        console.error("Error listing songs:", error);
+        return [];
+    }
+}
+
+/**
+ * Groups songs by artist, merging spelling variants under one slug.
+ * Songs without an artist are left out.
+ * 
+ * @returns Map from slug to the artist summary and their songs
+ */
+function groupByArtist(songs: Song[]): Map<string, { artist: Artist; songs: Song[] }> {
+    const groups = new Map<string, { songs: Song[]; spellings: Map<string, number> }>();
+
+    for (const song of songs) {
+        const name = song.artist?.trim().replace(/\s+/g, " ");
+        const slug = artistSlug(name ?? "");
+        if (!name || !slug) continue;
+
+        let group = groups.get(slug);
+        if (!group) {
+            group = { songs: [], spellings: new Map() };
+            groups.set(slug, group);
+        }
+        group.songs.push(song);
+        group.spellings.set(name, (group.spellings.get(name) ?? 0) + 1);
+    }
+
+    const artists = new Map<string, { artist: Artist; songs: Song[] }>();
+    for (const [slug, group] of groups) {
+        // Most common spelling wins; ties go to the shorter, then alphabetical
+        const [name] = [...group.spellings].sort(
+            ([a, countA], [b, countB]) => countB - countA || a.length - b.length || a.localeCompare(b)
+        )[0];
+
+        artists.set(slug, {
+            artist: {
+                slug,
+                name,
+                songCount: group.songs.length,
+                languages: [...new Set(group.songs.map((song) => song.language))].sort(),
+            },
+            songs: group.songs.sort((a, b) => a.title.localeCompare(b.title)),
+        });
+    }
+
+    return artists;
+}
+
+/**
+ * Lists every artist with their song count, alphabetically.
+ * Used by the /artists index.
+ * 
+ * @returns Array of artists (empty on error)
+ * 
+ * @example
+ * const artists = await getArtists();
+ * // [{ slug: "tagoe-sisters", name: "Tagoe Sisters", songCount: 4, ... }, ...]
+ */
+export async function getArtists(): Promise<Artist[]> {
+    const artists = [...groupByArtist(await getAllSongs()).values()].map((entry) => entry.artist);
+    return artists.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Fetches an artist and all their songs by slug.
+ * Used by the /artist/[slug] page.
+ * 
+ * @param slug - The artist slug (any spelling variant's slug works, see artistSlug)
+ * @returns The artist and their songs by title, or null if no songs match
+ * 
+ * @example
+ * const result = await getArtistBySlug("tagoe-sisters");
+ * // Songs credited to "Tagoe Sisters" and "The Tagoe Sisters"
+ */
+export async function getArtistBySlug(
+    slug: string
+): Promise<{ artist: Artist; songs: Song[] } | null> {
+    return groupByArtist(await getAllSongs()).get(artistSlug(slug.replace(/-/g, " "))) ?? null;
 }
 
 /**
  * Adds a new song to the database.
- * The song will be marked as unverified (is_verified: false) by default.
- * The search_text column is auto-generated by a database trigger.
+ * The song will be marked as unverified (is_verified: false) by default,
+ * so it waits in the moderation queue.
  * 
  * @param song - The song data to insert
  * @param song.title - Song title (required)
  * @param song.artist - Artist name (optional)
  * @param song.lyrics - Full lyrics text (required)
  * @param song.language - Song language (e.g., "Twi", "English")
+ * @param options.verified - Store the song as already approved (for trusted imports only)
  * @returns Object with success status and optional error message
  * 
  * @example
@@ -143,29 +620,31 @@ export async function searchSongsSuggestions(query: string): Promise<Song[]> {
  *   console.log("Song added!");
  * }
  */
-export async function addSong(song: {
-    title: string;
-    artist: string;
-    lyrics: string;
-    language: string;
-}): Promise<{ success: boolean; error?: string }> {
-    const { error } = await supabase.from("songs").insert([
-        {
+export async function addSong(
+    song: {
+        title: string;
+        artist: string;
+        lyrics: string;
+        language: string;
+    },
+    options: { verified?: boolean } = {}
+): Promise<{ success: boolean; error?: string }> {
+    try {
+        await getSongRepository().insert({
             title: song.title,
             artist: song.artist || null,
             lyrics: song.lyrics,
             language: song.language,
-            is_verified: false,
-        },
-    ]);
-
-    if (error) {
+            is_verified: options.verified ?? false,
+        });
+    } catch (error) {
         console.error("Error adding song:", error);
-        return { success: false, error: error.message };
+        return { success: false, error: errorMessage(error) };
     }
 
     return { success: true };
 }
 
-// Re-export Song type for convenience
+// Re-export for convenience
+export { normalizeForSearch };
 export type { Song };
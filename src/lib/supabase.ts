@@ -1,45 +1,49 @@
 /**
  * @file supabase.ts
- * @description Supabase client configuration and type definitions.
+ * @description Supabase client configuration.
  * 
- * This file initializes the Supabase client using environment variables
- * and exports the Song type that matches the database schema.
+ * This file lazily initializes the Supabase client using environment variables.
+ * The client is only created when the Supabase backend is in use, so the
+ * app can run on the local backend without these variables set.
  * 
- * Environment variables required:
+ * Environment variables required (Supabase backend only):
  * - NEXT_PUBLIC_SUPABASE_URL: Your Supabase project URL
  * - NEXT_PUBLIC_SUPABASE_ANON_KEY: Your Supabase anonymous/public key
+ * 
+ * Optional:
+ * - SUPABASE_SERVICE_ROLE_KEY: Server-only key used instead of the anon key.
+ *   Needed for moderation, since row level security only lets the public
+ *   read songs. Never prefix it with NEXT_PUBLIC_.
  */
 
-import { createClient } from "@supabase/supabase-js";
-
-// Load Supabase credentials from environment variables
-// These are prefixed with NEXT_PUBLIC_ to make them available client-side
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
 
-/**
- * Supabase client instance.
- * Used for all database operations (queries, inserts, etc.)
- */
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+/** Cached Supabase client instance */
+let client: SupabaseClient | null = null;
 
 /**
- * Song type definition matching the Supabase 'songs' table schema.
+ * Returns the Supabase client, creating it on first use.
+ * Used by the Supabase song repository for all database operations.
  * 
- * @property id - Unique identifier (auto-generated)
- * @property title - Song title (required)
- * @property artist - Artist or group name (optional)
- * @property lyrics - Full song lyrics (required)
- * @property language - Song language (defaults to 'Twi')
- * @property is_verified - Whether lyrics have been reviewed
- * @property created_at - Timestamp of when the song was added
+ * @throws Error if the Supabase environment variables are missing
  */
-export interface Song {
-    id: number;
-    title: string;
-    artist: string | null;
-    lyrics: string;
-    language: string;
-    is_verified: boolean;
-    created_at: string;
+export function getSupabaseClient(): SupabaseClient {
+    if (!client) {
+        // Load Supabase credentials from environment variables
+        // These are prefixed with NEXT_PUBLIC_ to make them available client-side
+        const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+        const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+        // The client only runs on the server, so it can use the service role key when available
+        const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || supabaseAnonKey;
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error(
+                "NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY must be set to use the Supabase backend"
+            );
+        }
+
+        client = createClient(supabaseUrl, supabaseKey);
+    }
+    return client;
 }
@@ -0,0 +1,207 @@
+/**
+ * @file supabaseRepository.ts
+ * @description SongRepository backed by the Supabase 'songs', 'song_revisions',
+ * 'song_arrangements' and 'setlists' tables.
+ * 
+ * Search runs against the search_text column, which a database trigger
+ * fills with the normalized title, artist and lyrics (see README).
+ */
+
+import { getSupabaseClient } from "./supabase";
+import type {
+    NewSetlist,
+    NewSong,
+    NewSongArrangement,
+    NewSongRevision,
+    Setlist,
+    SetlistUpdate,
+    Song,
+    SongArrangement,
+    SongRepository,
+    SongRevision,
+    SongRevisionUpdate,
+    SongUpdate,
+} from "./repository";
+
+/**
+ * Creates a repository that reads and writes the Supabase 'songs',
+ * 'song_revisions', 'song_arrangements' and 'setlists' tables.
+ * 
+ * @returns SongRepository implementation using the Supabase client
+ */
+export function createSupabaseRepository(): SongRepository {
+    return {
+        async getById(id) {
+            const { data, error } = await getSupabaseClient()
+                .from("songs")
+                .select("*")
+                .eq("id", id)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as Song | null;
+        },
+
+        async search(normalizedWords, limit) {
+            let query = getSupabaseClient().from("songs").select("*");
+
+            // One ilike filter per word; PostgREST combines them with AND
+            for (const word of normalizedWords) {
+                query = query.ilike("search_text", `%${word}%`);
+            }
+
+            const { data, error } = await query.order("title").limit(limit);
+
+            if (error) throw error;
+            return (data as Song[]) || [];
+        },
+
+        async listAll() {
+            const { data, error } = await getSupabaseClient()
+                .from("songs")
+                .select("*")
+                .order("id");
+
+            if (error) throw error;
+            return (data as Song[]) || [];
+        },
+
+        async insert(song: NewSong) {
+            const { data, error } = await getSupabaseClient()
+                .from("songs")
+                .insert([song])
+                .select()
+                .single();
+
+            if (error) throw error;
+            return data as Song;
+        },
+
+        async update(id: number, changes: SongUpdate) {
+            const { data, error } = await getSupabaseClient()
+                .from("songs")
+                .update(changes)
+                .eq("id", id)
+                .select()
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as Song | null;
+        },
+
+        async getRevision(id) {
+            const { data, error } = await getSupabaseClient()
+                .from("song_revisions")
+                .select("*")
+                .eq("id", id)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as SongRevision | null;
+        },
+
+        async listRevisions({ songId, status }) {
+            let query = getSupabaseClient().from("song_revisions").select("*");
+
+            if (songId !== undefined) query = query.eq("song_id", songId);
+            if (status !== undefined) query = query.eq("status", status);
+
+            const { data, error } = await query.order("id");
+
+            if (error) throw error;
+            return (data as SongRevision[]) || [];
+        },
+
+        async insertRevision(revision: NewSongRevision) {
+            const { data, error } = await getSupabaseClient()
+                .from("song_revisions")
+                .insert([revision])
+                .select()
+                .single();
+
+            if (error) throw error;
+            return data as SongRevision;
+        },
+
+        async updateRevision(id: number, changes: SongRevisionUpdate) {
+            const { data, error } = await getSupabaseClient()
+                .from("song_revisions")
+                .update(changes)
+                .eq("id", id)
+                .select()
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as SongRevision | null;
+        },
+
+        async listArrangements(songId) {
+            const { data, error } = await getSupabaseClient()
+                .from("song_arrangements")
+                .select("*")
+                .eq("song_id", songId)
+                .order("name");
+
+            if (error) throw error;
+            return (data as SongArrangement[]) || [];
+        },
+
+        async saveArrangement(arrangement: NewSongArrangement) {
+            // (song_id, name) is unique, so saving under an existing name replaces it
+            const { data, error } = await getSupabaseClient()
+                .from("song_arrangements")
+                .upsert([{ ...arrangement, updated_at: new Date().toISOString() }], { onConflict: "song_id,name" })
+                .select()
+                .single();
+
+            if (error) throw error;
+            return data as SongArrangement;
+        },
+
+        async deleteArrangement(songId, name) {
+            const { data, error } = await getSupabaseClient()
+                .from("song_arrangements")
+                .delete()
+                .eq("song_id", songId)
+                .eq("name", name)
+                .select();
+
+            if (error) throw error;
+            return ((data as SongArrangement[]) || []).length > 0;
+        },
+
+        async getSetlist(id) {
+            const { data, error } = await getSupabaseClient()
+                .from("setlists")
+                .select("*")
+                .eq("id", id)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as Setlist | null;
+        },
+
+        async insertSetlist(setlist: NewSetlist) {
+            const { data, error } = await getSupabaseClient()
+                .from("setlists")
+                .insert([setlist])
+                .select()
+                .single();
+
+            if (error) throw error;
+            return data as Setlist;
+        },
+
+        async updateSetlist(id: string, changes: SetlistUpdate) {
+            const { data, error } = await getSupabaseClient()
+                .from("setlists")
+                .update({ ...changes, updated_at: new Date().toISOString() })
+                .eq("id", id)
+                .select()
+                .maybeSingle();
+
+            if (error) throw error;
+            return data as Setlist | null;
+        },
+    };
+}
@@ -0,0 +1,52 @@
+/**
+ * @file arrangementKeys.ts
+ * @description Edit keys of the arrangements saved from this device.
+ * 
+ * Saving a new arrangement returns an edit key; only requests with that
+ * key (or from a moderator) can change or delete the arrangement later.
+ * 
+ * Uses localStorage (see localStore.ts), so this module is for client
+ * components only.
+ */
+
+import { createLocalStore } from "./localStore";
+
+/** Edit keys by song ID and arrangement name ("12/Short") */
+type ArrangementKeys = Record<string, string>;
+
+/** The keys, as JSON in localStorage */
+const store = createLocalStore<ArrangementKeys>(
+    "arrangementKeys",
+    (json) =>
+        json && typeof json === "object" && !Array.isArray(json)
+            ? Object.fromEntries(Object.entries(json).filter(([, key]) => typeof key === "string"))
+            : {},
+    {}
+);
+
+/** Where an arrangement's key is kept */
+function keyName(songId: number, name: string): string {
+    return `${songId}/${name}`;
+}
+
+/** Finds the edit key for an arrangement saved from this device */
+export function arrangementKey(songId: number, name: string): string | null {
+    return store.get()[keyName(songId, name)] ?? null;
+}
+
+/** Remembers the edit key of an arrangement saved from this device */
+export function rememberArrangementKey(songId: number, name: string, key: string): void {
+    store.set({ ...store.get(), [keyName(songId, name)]: key });
+}
+
+/** Forgets the edit key of a deleted arrangement */
+export function forgetArrangementKey(songId: number, name: string): void {
+    const keys = { ...store.get() };
+    delete keys[keyName(songId, name)];
+    store.set(keys);
+}
+
+/** Whether this device saved an arrangement, kept up to date as keys change */
+export function useHasArrangementKey(songId: number, name: string): boolean {
+    return keyName(songId, name) in store.useValue();
+}
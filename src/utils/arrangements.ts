@@ -0,0 +1,129 @@
+/**
+ * @file arrangements.ts
+ * @description Reads and writes song arrangements (the order sections are sung in).
+ * 
+ * Arrangements are typed as a list of section references, the way
+ * worship leaders write them on a setlist:
+ * 
+ *     V1 C V2 C C B C
+ *     V1 C x2 V2 C x2
+ * 
+ * - A reference is a section ID from parseLyrics (v1, c1, b1, ...), or a
+ *   section name ("Chorus", "Verse2"); without a number, the first
+ *   section of that kind is meant ("C" is c1)
+ * - "x2" (or "2x"), alone or attached ("Cx2"), sings the previous section again
+ * 
+ * Arrangements are stored expanded: ["v1", "c1", "c1", "v2"].
+ */
+
+import type { LyricsDocument } from "./lyricsParser";
+
+/** Most characters in an arrangement name */
+export const ARRANGEMENT_NAME_LIMIT = 40;
+
+/** Most sections an arrangement may have, repeats included */
+export const ARRANGEMENT_LENGTH_LIMIT = 100;
+
+/** Section ID prefix for each name that can start a reference */
+const REFERENCE_PREFIXES: Record<string, string> = {
+    v: "v",
+    verse: "v",
+    c: "c",
+    chorus: "c",
+    r: "c",
+    refrain: "c",
+    p: "p",
+    prechorus: "p",
+    "pre-chorus": "p",
+    b: "b",
+    bridge: "b",
+    i: "i",
+    intro: "i",
+    e: "e",
+    outro: "e",
+    ending: "e",
+    o: "o",
+    t: "o",
+    tag: "o",
+};
+
+/** A repeat on its own: "x2", "2x", "×3" */
+const REPEAT_TOKEN = /^(?:[x×*](\d+)|(\d+)[x×])$/i;
+
+/** A section reference with an optional attached repeat: "V1", "c", "Chorus", "Cx2" */
+const REFERENCE_TOKEN = /^([a-z-]+?)(\d*)(?:[x×*](\d+))?$/i;
+
+/**
+ * Parses a typed arrangement against a song's sections.
+ * 
+ * @param text - The arrangement as typed (e.g. "V1 C V2 C x2 B C")
+ * @param doc - The song's parsed lyrics
+ * @returns The section IDs in order, or an error naming the first bad reference
+ * 
+ * @example
+ * parseArrangement("V1 C x2 V2", parseLyrics(song.lyrics));
+ * // { sequence: ["v1", "c1", "c1", "v2"] }
+ */
+export function parseArrangement(text: string, doc: LyricsDocument): { sequence: string[] } | { error: string } {
+    const sequence: string[] = [];
+
+    /**
+     * Sings the last section `times` times in total. Stops one past the
+     * length limit, so a huge count is reported as too long without
+     * being written out.
+     */
+    const repeatLast = (times: number) => {
+        const last = sequence[sequence.length - 1];
+        const count = Math.min(times, ARRANGEMENT_LENGTH_LIMIT - sequence.length + 2);
+        for (let i = 1; i < count; i++) sequence.push(last);
+    };
+
+    for (const token of text.split(/[\s,]+/).filter(Boolean)) {
+        const repeat = token.match(REPEAT_TOKEN);
+        if (repeat) {
+            if (sequence.length === 0) return { error: `"${token}" must follow a section` };
+            repeatLast(parseInt(repeat[1] ?? repeat[2]));
+            continue;
+        }
+
+        const reference = token.match(REFERENCE_TOKEN);
+        const prefix = reference && REFERENCE_PREFIXES[reference[1].toLowerCase()];
+        const id = prefix && (reference[2]
+            ? `${prefix}${parseInt(reference[2])}`
+            : doc.sections.find((section) => section.id.startsWith(prefix))?.id);
+        if (!reference || !id || !doc.sections.some((section) => section.id === id)) {
+            return { error: `This song has no section "${token}"` };
+        }
+
+        sequence.push(id);
+        if (reference[3]) repeatLast(parseInt(reference[3]));
+
+        if (sequence.length > ARRANGEMENT_LENGTH_LIMIT) break;
+    }
+
+    if (sequence.length === 0) return { error: "The arrangement is empty" };
+    if (sequence.length > ARRANGEMENT_LENGTH_LIMIT) {
+        return { error: `The arrangement is too long (limit ${ARRANGEMENT_LENGTH_LIMIT} sections)` };
+    }
+
+    return { sequence };
+}
+
+/**
+ * Writes an arrangement back out in its short form.
+ * Consecutive repeats are collapsed ("C1 x2").
+ * 
+ * @example
+ * arrangementText(["v1", "c1", "c1", "v2"]); // "V1 C1 x2 V2"
+ */
+export function arrangementText(sequence: string[]): string {
+    const parts: string[] = [];
+    for (let i = 0; i < sequence.length; ) {
+        let times = 1;
+        while (sequence[i + times] === sequence[i]) times++;
+
+        parts.push(times > 1 ? `${sequence[i].toUpperCase()} x${times}` : sequence[i].toUpperCase());
+        i += times;
+    }
+    return parts.join(" ");
+}
@@ -0,0 +1,49 @@
+/**
+ * @file artists.ts
+ * @description Groups free-text artist names into artists with URL slugs.
+ * 
+ * Song.artist is typed in by whoever added the song, so the same artist
+ * shows up spelled several ways: "The Tagoe Sisters", "Tagoe Sisters",
+ * "tagoe  sisters". All spellings that reduce to the same slug are
+ * treated as one artist with one page at /artist/[slug].
+ */
+
+import { normalizeForSearch, tokenizeSearchText } from "./normalize";
+
+/** Leading words ignored when grouping ("The Tagoe Sisters" = "Tagoe Sisters") */
+const IGNORED_PREFIXES = ["the"];
+
+/**
+ * Builds the URL slug for an artist name.
+ * Spelling variants of the same artist produce the same slug.
+ * 
+ * @param name - The artist name as stored on the song
+ * @returns Lowercase, hyphen-separated slug (empty if the name has no letters)
+ * 
+ * @example
+ * artistSlug("The Tagoe Sisters"); // "tagoe-sisters"
+ * artistSlug("Joyce Blɛssing");    // "joyce-blessing"
+ */
+export function artistSlug(name: string): string {
+    const words = tokenizeSearchText(normalizeForSearch(name))
+        .map((word) => word.replace(/'/g, ""))
+        .filter(Boolean);
+
+    // Drop "the" only when something is left after it
+    if (words.length > 1 && IGNORED_PREFIXES.includes(words[0])) {
+        words.shift();
+    }
+
+    return words.join("-");
+}
+
+/**
+ * Builds the link to an artist's page.
+ * 
+ * @param name - The artist name as stored on the song
+ * @returns The /artist/[slug] path, or null if the name can't form a slug
+ */
+export function artistHref(name: string | null): string | null {
+    const slug = artistSlug(name ?? "");
+    return slug ? `/artist/${encodeURIComponent(slug)}` : null;
+}
@@ -0,0 +1,96 @@
+/**
+ * @file csv.ts
+ * @description Minimal RFC 4180 CSV parser.
+ * 
+ * Used to read the curated song list in data/songs.csv, where the
+ * lyrics column contains quoted, multi-line fields such as:
+ * 
+ *   "Agyenkwa Pa","Traditional Hymn","Twi","[Verse 1]
+ *   Agyenkwa pa, Agyenkwa pa
+ *   ..."
+ * 
+ * Handles quoted fields, escaped quotes ("") and both LF and CRLF line endings.
+ */
+
+/**
+ * Parses CSV text into an array of rows, each row being an array of fields.
+ * 
+ * @param text - The raw CSV text
+ * @returns Array of rows (blank lines are skipped)
+ * 
+ * @example
+ * parseCsv('a,b\n"1","two\nlines"');
+ * // [["a", "b"], ["1", "two\nlines"]]
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    // Strip a UTF-8 byte order mark if the file was saved by a spreadsheet app
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                // A doubled quote inside a quoted field is a literal quote
+                if (input[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === ",") {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            // Treat CRLF as a single line break
+            if (char === "\r" && input[i + 1] === "\n") i++;
+            row.push(field);
+            field = "";
+            if (row.some((value) => value !== "")) rows.push(row);
+            row = [];
+        } else {
+            field += char;
+        }
+    }
+
+    // Flush the last row if the file doesn't end with a newline
+    row.push(field);
+    if (row.some((value) => value !== "")) rows.push(row);
+
+    return rows;
+}
+
+/**
+ * Parses CSV text with a header row into an array of records.
+ * Header names are trimmed and lowercased so "Title" and "title" both work.
+ * 
+ * @param text - The raw CSV text (first row is the header)
+ * @returns Array of records keyed by header name
+ * 
+ * @example
+ * parseCsvRecords('title,artist\n"Aseda","DOGJ"');
+ * // [{ title: "Aseda", artist: "DOGJ" }]
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return [];
+
+    const keys = header.map((name) => name.trim().toLowerCase());
+
+    return rows.map((row) =>
+        Object.fromEntries(keys.map((key, index) => [key, row[index] ?? ""]))
+    );
+}
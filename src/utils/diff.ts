@@ -0,0 +1,100 @@
+/**
+ * @file diff.ts
+ * @description Line-by-line text diff for comparing lyric revisions.
+ * 
+ * Uses the longest common subsequence of lines, so a corrected line
+ * shows up as one removed line followed by one added line, and
+ * everything else is marked unchanged.
+ * 
+ * The LCS table is quadratic, which is cheap for real lyrics (a few
+ * hundred lines) but not for a crafted submission of thousands of short
+ * lines. Lines the texts start and end with are matched first; if what
+ * is left between them is still too big, it is shown as replaced whole.
+ */
+
+/** Most cells in the LCS table (changed old lines × changed new lines) */
+export const DIFF_TABLE_LIMIT = 250_000;
+
+/** One line of a diff */
+export interface DiffLine {
+    /** "same" = in both texts, "removed" = only in the old text, "added" = only in the new text */
+    type: "same" | "removed" | "added";
+    text: string;
+}
+
+/**
+ * Compares two texts line by line.
+ * 
+ * @param oldText - The current text
+ * @param newText - The proposed text
+ * @returns Every line of both texts in order, marked same / removed / added
+ *   (the changed part as removed then added, when it is over DIFF_TABLE_LIMIT)
+ * 
+ * @example
+ * diffLines("Aseda\nYɛ wo de", "Aseda\nYɛ wo dea");
+ * // [{ type: "same", text: "Aseda" },
+ * //  { type: "removed", text: "Yɛ wo de" },
+ * //  { type: "added", text: "Yɛ wo dea" }]
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+    const allOld = oldText.split("\n");
+    const allNew = newText.split("\n");
+
+    // Lines both texts start and end with need no table
+    let start = 0;
+    while (start < allOld.length && start < allNew.length && allOld[start] === allNew[start]) start++;
+    let end = 0;
+    while (
+        end < allOld.length - start &&
+        end < allNew.length - start &&
+        allOld[allOld.length - 1 - end] === allNew[allNew.length - 1 - end]
+    ) {
+        end++;
+    }
+
+    const oldLines = allOld.slice(start, allOld.length - end);
+    const newLines = allNew.slice(start, allNew.length - end);
+    const diff: DiffLine[] = allOld.slice(0, start).map((text) => ({ type: "same", text }));
+    const suffix: DiffLine[] = allOld.slice(allOld.length - end).map((text) => ({ type: "same", text }));
+
+    // Too big to compare line by line: show the changed part replaced whole
+    if (oldLines.length * newLines.length > DIFF_TABLE_LIMIT) {
+        return [
+            ...diff,
+            ...oldLines.map((text): DiffLine => ({ type: "removed", text })),
+            ...newLines.map((text): DiffLine => ({ type: "added", text })),
+            ...suffix,
+        ];
+    }
+
+    // common[i][j] = length of the LCS of oldLines[i..] and newLines[j..]
+    const common: number[][] = Array.from({ length: oldLines.length + 1 }, () =>
+        new Array<number>(newLines.length + 1).fill(0)
+    );
+    for (let i = oldLines.length - 1; i >= 0; i--) {
+        for (let j = newLines.length - 1; j >= 0; j--) {
+            common[i][j] = oldLines[i] === newLines[j]
+                ? common[i + 1][j + 1] + 1
+                : Math.max(common[i + 1][j], common[i][j + 1]);
+        }
+    }
+
+    // Walk the table, preferring removals before additions for changed lines
+    let i = 0;
+    let j = 0;
+    while (i < oldLines.length && j < newLines.length) {
+        if (oldLines[i] === newLines[j]) {
+            diff.push({ type: "same", text: oldLines[i] });
+            i++;
+            j++;
+        } else if (common[i + 1][j] >= common[i][j + 1]) {
+            diff.push({ type: "removed", text: oldLines[i++] });
+        } else {
+            diff.push({ type: "added", text: newLines[j++] });
+        }
+    }
+    while (i < oldLines.length) diff.push({ type: "removed", text: oldLines[i++] });
+    while (j < newLines.length) diff.push({ type: "added", text: newLines[j++] });
+
+    return [...diff, ...suffix];
+}
@@ -0,0 +1,40 @@
+/**
+ * @file download.ts
+ * @description Saves generated text as a file download in the browser.
+ */
+
+/**
+ * Turns a song title into a file name: spaces become underscores.
+ * 
+ * @example
+ * fileNameFor("Aseda Yɛ Wo De", "xml"); // "Aseda_Yɛ_Wo_De.xml"
+ */
+export function fileNameFor(title: string, extension: string): string {
+    return `${title.replace(/\s+/g, "_")}.${extension}`;
+}
+
+/**
+ * Starts a download of the given text.
+ * 
+ * @param fileName - Name the file is saved under
+ * @param content - The file contents
+ * @param type - MIME type (e.g. "application/xml")
+ */
+export function downloadFile(fileName: string, content: string, type: string): void {
+    // Create a blob for the download
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+
+    // Create a temporary anchor element to trigger download
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+
+    // Trigger download and cleanup
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+
+    // Release the blob URL
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,18 @@
+/**
+ * @file errors.ts
+ * @description Helpers for turning thrown values into messages for the UI.
+ */
+
+/**
+ * Extracts a readable message from a thrown value.
+ * Supabase errors are plain objects with a message, not Error instances.
+ * 
+ * @param error - The caught value
+ * @returns The error's message, or "Unknown error"
+ */
+export function errorMessage(error: unknown): string {
+    if (error && typeof error === "object" && "message" in error) {
+        return String((error as { message: unknown }).message);
+    }
+    return "Unknown error";
+}
@@ -9,38 +9,114 @@
  * - 2 lines per slide
  * - 4 lines per slide
  * - Full verse per slide
+ * - Custom layouts (see SlideLayout): any number of lines per slide, long
+ *   lines wrapped at a maximum width, labels on every slide, a title slide
  * 
- * Also provides OpenLyrics XML export for maximum compatibility.
+ * Slides are cut within the song's sections (see lyricsParser) and
+ * labelled with them, never across a section boundary.
+ * 
+ * Also provides OpenLyrics 0.9 XML export (one verse per section)
+ * for maximum compatibility.
  */
 
-import { Song } from "@/lib/songs";
+import type { Song } from "@/lib/songs";
+import { findLanguage, LANGUAGE_CODES } from "@/lib/languages";
+import { parseLyrics, sectionLabel, sectionsInOrder, stanzaLines } from "./lyricsParser";
 
 /** Available slide format options */
 export type SlideFormat = "2-lines" | "4-lines" | "full-verse";
 
+/** How lyrics are laid out on slides */
+export interface SlideLayout {
+  /** Lines per slide, or null for a whole stanza per slide */
+  linesPerSlide: number | null;
+  /** Longest line in characters; longer lines are wrapped between words (null: never wrap) */
+  maxLineLength: number | null;
+  /** Label every slide with its section, not just the first slide of each section */
+  labelEverySlide: boolean;
+  /** Start with a slide showing the song's title and artist */
+  titleSlide: boolean;
+}
+
+/** The layout of each built-in slide format */
+export const SLIDE_FORMAT_LAYOUTS: Record<SlideFormat, SlideLayout> = {
+  "2-lines": { linesPerSlide: 2, maxLineLength: null, labelEverySlide: false, titleSlide: false },
+  "4-lines": { linesPerSlide: 4, maxLineLength: null, labelEverySlide: false, titleSlide: false },
+  "full-verse": { linesPerSlide: null, maxLineLength: null, labelEverySlide: false, titleSlide: false },
+};
+
 /**
- * Splits lyrics into slides based on the selected format.
+ * Wraps a line so no part is longer than maxLength, breaking between words.
+ * A single word longer than maxLength is kept whole.
  * 
- * @param lyrics - The raw lyrics text
- * @param format - The slide format to use
- * @returns Array of slide strings, each representing one slide
+ * @example
+ * wrapLine("Meda wo ase, Awurade", 12); // ["Meda wo ase,", "Awurade"]
  */
-export function splitIntoSlides(lyrics: string, format: SlideFormat): string[] {
-  // Get all non-empty lines (ignoring blank lines for counting)
-  const allLines = lyrics.split("\n").filter(l => l.trim());
+export function wrapLine(line: string, maxLength: number): string[] {
+  const wrapped: string[] = [];
+  let current = "";
 
-  if (format === "full-verse") {
-    // Split by paragraphs for full-verse mode
-    return lyrics.split(/\n\n+/).filter(p => p.trim());
+  for (const word of line.split(/\s+/).filter(Boolean)) {
+    if (current && current.length + 1 + word.length > maxLength) {
+      wrapped.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
   }
+  if (current) wrapped.push(current);
 
-  const slides: string[] = [];
-  const linesPerSlide = format === "2-lines" ? 2 : 4;
+  return wrapped;
+}
+
+/** One slide of a song */
+export interface Slide {
+  /** ID of the section the slide belongs to (see LyricSection) */
+  sectionId: string;
+  /** Heading of that section ("Verse 1", "Chorus") */
+  label: string;
+  /** The slide's lines, without section markers */
+  text: string;
+  /** Whether this is the first slide of the section (each time it is sung) */
+  startsSection: boolean;
+}
 
-  // Group all lines by the specified count
-  for (let i = 0; i < allLines.length; i += linesPerSlide) {
-    const slideLines = allLines.slice(i, i + linesPerSlide);
-    slides.push(slideLines.join("\n"));
+/**
+ * Splits lyrics into slides based on the selected format.
+ * 
+ * The lyrics are parsed into sections (see parseLyrics) and the slides
+ * follow the order the sections are sung in, so a repeated chorus is
+ * projected each time. A slide never runs from one section into the
+ * next or across a stanza break; in line-count formats the last slide
+ * of a stanza may be shorter. Section markers are left out.
+ * 
+ * @param lyrics - The raw lyrics text
+ * @param format - The slide format, or a custom layout, to use
+ * @param order - Section IDs to follow instead of the written order (an arrangement)
+ * @returns Array of slides, each representing one slide
+ */
+export function splitIntoSlides(lyrics: string, format: SlideFormat | SlideLayout, order?: string[]): Slide[] {
+  const layout = typeof format === "string" ? SLIDE_FORMAT_LAYOUTS[format] : format;
+  const linesPerSlide = layout.linesPerSlide ?? Infinity;
+  const slides: Slide[] = [];
+
+  const doc = parseLyrics(lyrics);
+  for (const section of sectionsInOrder(doc, order ?? doc.order)) {
+    const label = sectionLabel(section);
+
+    section.stanzas.forEach((stanza, s) => {
+      const lines = layout.maxLineLength
+        ? stanzaLines(stanza).flatMap((line) => wrapLine(line, layout.maxLineLength!))
+        : stanzaLines(stanza);
+      for (let i = 0; i < lines.length; i += linesPerSlide) {
+        slides.push({
+          sectionId: section.id,
+          label,
+          text: lines.slice(i, i + linesPerSlide).join("\n"),
+          startsSection: s === 0 && i === 0,
+        });
+      }
+    });
   }
 
   return slides;
@@ -50,95 +126,127 @@ export function splitIntoSlides(lyrics: string, format: SlideFormat): string[] {
  * Formats a song's lyrics for projection software.
  * 
  * Output format:
- * - Header with title and author
  * - Each slide separated by double blank lines
- * - Compatible with FreeShow, EasyWorship, and similar software
+ * - The first slide of each section starts with its label in brackets
+ *   ("[Chorus]"), which FreeShow and EasyWorship use to group the slides;
+ *   layouts with labelEverySlide label every slide
+ * - Layouts with titleSlide start with a "[Title]" slide
  * 
  * @param song - The song object to format
- * @param format - The slide format to use (default: "full-verse")
+ * @param format - The slide format, or a custom layout, to use (default: "full-verse")
+ * @param order - Section IDs to follow instead of the written order (an arrangement)
  * @returns Formatted string ready to paste into projection software
  * 
  * @example
  * const formatted = formatForProjection(song, "2-lines");
  * navigator.clipboard.writeText(formatted);
  */
-export function formatForProjection(song: Song, format: SlideFormat = "full-verse"): string {
+export function formatForProjection(
+  song: Song,
+  format: SlideFormat | SlideLayout = "full-verse",
+  order?: string[]
+): string {
+  const layout = typeof format === "string" ? SLIDE_FORMAT_LAYOUTS[format] : format;
+
   // Split lyrics into slides
-  const slides = splitIntoSlides(song.lyrics, format);
+  const slides = splitIntoSlides(song.lyrics, layout, order);
+
+  // Label the first slide of each section (or every slide)
+  const labelled = slides.map((slide) =>
+    slide.startsSection || layout.labelEverySlide ? `[${slide.label}]\n${slide.text}` : slide.text
+  );
+  if (layout.titleSlide) {
+    labelled.unshift(["[Title]", song.title, song.artist].filter(Boolean).join("\n"));
+  }
 
   // Join slides with double blank lines (slide separator for FreeShow)
-  return slides.join("\n\n\n");
+  return labelled.join("\n\n\n");
 }
 
 /**
- * Parses lyrics to identify verse/chorus sections.
- * Looks for markers like [Verse 1], [Chorus], [Bridge], etc.
+ * Formats a whole setlist for projection software, song after song.
+ * Each song starts with a "[Title]" slide so the songs can be told apart,
+ * and uses its own slide format and arrangement.
  * 
- * @param lyrics - The raw lyrics text
- * @returns Array of sections with type and content
+ * @param entries - The songs in order, each with its format and section order
+ * @returns Formatted string ready to paste into projection software
  */
-export function parseLyricsSections(lyrics: string): Array<{ type: string; content: string }> {
-  const sections: Array<{ type: string; content: string }> = [];
-
-  // Regex to match section markers like [Verse 1], [Chorus], etc.
-  const sectionRegex = /\[(Verse\s*\d*|Chorus|Bridge|Pre-Chorus|Intro|Outro|Tag)\]/gi;
-
-  // Split by section markers while keeping the markers
-  const parts = lyrics.split(sectionRegex);
-
-  let currentType = "Verse";
-
-  for (let i = 0; i < parts.length; i++) {
-    const part = parts[i].trim();
-    if (!part) continue;
-
-    // Check if this part is a section marker
-    if (sectionRegex.test(`[${part}]`)) {
-      currentType = part;
-    } else {
-      sections.push({
-        type: currentType,
-        content: part
-      });
-    }
-  }
-
-  // If no sections were found, treat entire lyrics as one section
-  if (sections.length === 0 && lyrics.trim()) {
-    sections.push({ type: "Verse", content: lyrics.trim() });
-  }
-
-  return sections;
+export function formatSetlist(
+  entries: Array<{ song: Song; format: SlideFormat | SlideLayout; order?: string[] }>
+): string {
+  return entries
+    .map(({ song, format, order }) => {
+      const layout = typeof format === "string" ? SLIDE_FORMAT_LAYOUTS[format] : format;
+      return formatForProjection(song, { ...layout, titleSlide: true }, order);
+    })
+    .join("\n\n\n");
 }
 
+/** Application name recorded in exported OpenLyrics files */
+const OPENLYRICS_APP = "1co18";
+
 /**
- * Generates an OpenLyrics XML file for a song.
+ * Generates an OpenLyrics 0.9 XML file for a song.
  * 
  * OpenLyrics is an open standard for sharing worship lyrics.
  * See: http://openlyrics.org/
  * 
+ * Each distinct section of the lyrics (see parseLyrics) becomes its own
+ * verse element, named by its section ID (v1, c1, b1, ...), and the verse
+ * order lists the sections as they are sung, repeats included. Stanzas
+ * inside a section become separate <lines> elements, which projection
+ * software shows as separate slides.
+ * 
+ * The schema needs at least one verse and no empty verse order, so
+ * lyrics without any text get one empty v1 verse, and the verse order
+ * is left out when it would be empty.
+ * 
  * @param song - The song object to convert to XML
+ * @param modifiedDate - When the song was last changed (default: when it was added)
+ * @param order - Section IDs for the verse order instead of the written order
+ *   (an arrangement); IDs the lyrics no longer have are left out
  * @returns XML string in OpenLyrics format
  */
-export function generateOpenLyricsXML(song: Song): string {
-  const escapedTitle = escapeXml(song.title);
-  const escapedArtist = escapeXml(song.artist || "Unknown");
-  const escapedLyrics = escapeXml(song.lyrics);
+export function generateOpenLyricsXML(song: Song, modifiedDate: string = song.created_at, order?: string[]): string {
+  const doc = parseLyrics(song.lyrics);
+  const verseOrder = sectionsInOrder(doc, order ?? doc.order).map((section) => section.id);
+
+  // Language code for lang attributes (left out for unknown languages)
+  const language = findLanguage(song.language);
+  const lang = language ? ` lang="${LANGUAGE_CODES[language]}"` : "";
+
+  const authors = song.artist
+    ? `
+    <authors>
+      <author>${escapeXml(song.artist)}</author>
+    </authors>`
+    : "";
+
+  const verseElements = doc.sections.length > 0
+    ? doc.sections
+      .map((section) => {
+        const lines = section.stanzas
+          .map((stanza) => `      <lines>${stanzaLines(stanza).map(escapeXml).join("<br/>")}</lines>`)
+          .join("\n");
+        return `    <verse name="${section.id}"${lang}>\n${lines}\n    </verse>`;
+      })
+      .join("\n")
+    : `    <verse name="v1"${lang}>\n      <lines></lines>\n    </verse>`;
+
+  const verseOrderElement = verseOrder.length > 0
+    ? `
+    <verseOrder>${verseOrder.join(" ")}</verseOrder>`
+    : "";
 
   return `<?xml version="1.0" encoding="UTF-8"?>
-<song xmlns="http://openlyrics.info/namespace/2009/song" version="0.8">
+<song xmlns="http://openlyrics.info/namespace/2009/song" version="0.9" createdIn="${OPENLYRICS_APP}" modifiedIn="${OPENLYRICS_APP}" modifiedDate="${escapeXml(new Date(modifiedDate).toISOString())}">
   <properties>
     <titles>
-      <title>${escapedTitle}</title>
-    </titles>
-    <authors>
-      <author>${escapedArtist}</author>
-    </authors>
+      <title${lang}>${escapeXml(song.title)}</title>
+    </titles>${authors}${verseOrderElement}
   </properties>
   <lyrics>
-    <verse name="v1">
-      <lines>${escapedLyrics.replace(/\n/g, "<br/>")}</lines>
-    </verse>
+${verseElements}
   </lyrics>
 </song>`;
 }
@@ -0,0 +1,155 @@
+/**
+ * @file highlight.ts
+ * @description Locates search matches in original (un-normalized) text.
+ * 
+ * Matching happens on normalized text ("asɛda" → "aseda"), but the UI
+ * highlights the original characters. Normalization can change the
+ * length of the text (e.g. a tone mark typed as a separate combining
+ * character disappears), so matches are mapped back character by
+ * character rather than by reusing the same indices.
+ * 
+ * Used by the HighlightMatch component and the search result snippets.
+ */
+
+import { normalizeForSearch, tokenizeSearchText } from "./normalize";
+import { parseHeader } from "./lyricsParser";
+
+/** A highlighted span of the original text: [start, end) */
+export interface HighlightRange {
+    start: number;
+    end: number;
+}
+
+/** Normalized text plus, for each normalized character, where it came from */
+interface NormalizedText {
+    text: string;
+    /** Original start index of each normalized character */
+    starts: number[];
+    /** Original end index (exclusive) of each normalized character */
+    ends: number[];
+}
+
+/**
+ * Normalizes text one character at a time, remembering the original
+ * position of every normalized character.
+ */
+function normalizeWithMap(text: string): NormalizedText {
+    const result: NormalizedText = { text: "", starts: [], ends: [] };
+    let index = 0;
+
+    // for...of walks code points, so surrogate pairs stay together
+    for (const char of text) {
+        const normalized = normalizeForSearch(char);
+        for (const normalizedChar of normalized) {
+            result.text += normalizedChar;
+            result.starts.push(index);
+            result.ends.push(index + char.length);
+        }
+        index += char.length;
+    }
+
+    return result;
+}
+
+/**
+ * Finds every occurrence of the query's words in the text.
+ * 
+ * Each word is matched on its own, then matches separated only by
+ * spaces or punctuation are merged, so a phrase that spans several
+ * words ("agyenkwa pa") is highlighted as one continuous span, while
+ * scattered words are highlighted individually.
+ * 
+ * @param text - The original text to search in
+ * @param query - The raw search query
+ * @returns Non-overlapping ranges in the original text, in order
+ * 
+ * @example
+ * findHighlightRanges("Asɛda yɛ wo de", "aseda ye");
+ * // [{ start: 0, end: 8 }]  → "Asɛda yɛ"
+ */
+export function findHighlightRanges(text: string, query: string): HighlightRange[] {
+    const words = tokenizeSearchText(normalizeForSearch(query));
+    if (words.length === 0 || !text) return [];
+
+    const normalized = normalizeWithMap(text);
+    const ranges: HighlightRange[] = [];
+
+    for (const word of new Set(words)) {
+        let from = normalized.text.indexOf(word);
+        while (from !== -1) {
+            const last = from + word.length - 1;
+            ranges.push({ start: normalized.starts[from], end: normalized.ends[last] });
+            from = normalized.text.indexOf(word, from + word.length);
+        }
+    }
+
+    ranges.sort((a, b) => a.start - b.start);
+
+    // Merge overlapping ranges and ranges separated only by spaces/punctuation
+    const merged: HighlightRange[] = [];
+    for (const range of ranges) {
+        const previous = merged[merged.length - 1];
+        const gap = previous ? text.slice(previous.end, range.start) : "";
+        if (previous && (range.start <= previous.end || /^[^\p{L}\p{N}\n]+$/u.test(gap))) {
+            previous.end = Math.max(previous.end, range.end);
+        } else {
+            merged.push({ ...range });
+        }
+    }
+
+    // Keep any combining marks that follow a match inside the highlight
+    for (const range of merged) {
+        while (range.end < text.length && normalizeForSearch(text[range.end]) === "") {
+            range.end++;
+        }
+    }
+
+    return merged;
+}
+
+/**
+ * Picks the lyric lines that best explain why a song matched the query.
+ * 
+ * Lines are scored by how many different query words they contain,
+ * with a bonus when the words appear together as a phrase. Section
+ * headers ([Chorus], "Verse 1:", "CHORUS x2"; see parseHeader) are
+ * skipped, keeping only lyrics written on the same line ("Chorus: Yesu ye").
+ * 
+ * @param lyrics - The song lyrics
+ * @param query - The raw search query
+ * @param limit - Maximum number of lines to return (default: 2)
+ * @returns Matching lines in their original order (empty if none match)
+ * 
+ * @example
+ * findMatchingLines(song.lyrics, "meda wo ase");
+ * // ["Meda wo ase, meda wo ase", "Meda wo ase, Awurade"]
+ */
+export function findMatchingLines(lyrics: string, query: string, limit = 2): string[] {
+    const words = [...new Set(tokenizeSearchText(normalizeForSearch(query)))];
+    if (words.length === 0) return [];
+
+    const phrase = words.join(" ");
+
+    const lines = lyrics.replace(/\r\n?/g, "\n").split("\n");
+
+    return lines
+        .map((line, index) => {
+            // Numbered headers ("2.") only count at the start of a stanza, as in parseLyrics
+            const atStanzaStart = index === 0 || !lines[index - 1].trim();
+            const header = parseHeader(line.trim(), atStanzaStart);
+            const trimmed = header ? header.text.trim() : line.trim();
+            // Skip blank lines and headers without lyrics
+            if (!trimmed) return { line: trimmed, index, score: 0 };
+
+            const normalizedLine = tokenizeSearchText(normalizeForSearch(trimmed)).join(" ");
+            const wordCount = words.filter((word) => normalizedLine.includes(word)).length;
+            const phraseBonus = words.length > 1 && normalizedLine.includes(phrase) ? words.length : 0;
+
+            return { line: trimmed, index, score: wordCount + phraseBonus };
+        })
+        .filter((entry) => entry.score > 0)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .slice(0, limit)
+        .sort((a, b) => a.index - b.index)
+        .map((entry) => entry.line);
+}
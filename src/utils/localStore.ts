@@ -0,0 +1,79 @@
+/**
+ * @file localStore.ts
+ * @description A value kept in localStorage that React components can follow.
+ * 
+ * Used for things saved on this device only (slide layouts, the setlist
+ * being built). Components read the value with the store's useValue() hook and
+ * re-render when it changes, in this tab or another one.
+ * 
+ * Uses localStorage, so this module is for client components only.
+ */
+
+import { useSyncExternalStore } from "react";
+
+/** A JSON value saved in localStorage under one key */
+export interface LocalStore<T> {
+    /** Reads the value; the same object is returned until it changes */
+    get(): T;
+    /** Saves a new value */
+    set(value: T): void;
+    /** The value, kept up to date as it changes (the fallback during server rendering) */
+    useValue(): T;
+}
+
+/**
+ * Creates a store for one localStorage key.
+ * 
+ * @param key - The localStorage key
+ * @param parse - Turns the stored JSON (or null when nothing is stored) into a
+ *   valid value; it should not throw, and must handle data from older versions
+ * @param fallback - The value used while rendering on the server
+ * 
+ * @example
+ * const counter = createLocalStore("counter", (json) => Number(json) || 0, 0);
+ * counter.set(counter.get() + 1);
+ */
+export function createLocalStore<T>(key: string, parse: (json: unknown) => T, fallback: T): LocalStore<T> {
+    // Event fired in this tab when the value changes (other tabs get "storage")
+    const changeEvent = `localstore:${key}`;
+
+    // The value parsed from the last stored JSON, so each read is the same object
+    let cached: { json: string | null; value: T } | null = null;
+
+    const get = (): T => {
+        const json = localStorage.getItem(key);
+        if (!cached || json !== cached.json) {
+            let stored: unknown = null;
+            try {
+                stored = json ? JSON.parse(json) : null;
+            } catch {
+                // Unreadable data: treat as nothing stored
+            }
+            cached = { json, value: parse(stored) };
+        }
+        return cached.value;
+    };
+
+    const set = (value: T) => {
+        localStorage.setItem(key, JSON.stringify(value));
+        window.dispatchEvent(new Event(changeEvent));
+    };
+
+    const subscribe = (onChange: () => void) => {
+        const onStorage = (e: StorageEvent) => {
+            if (e.key === key || e.key === null) onChange();
+        };
+        window.addEventListener(changeEvent, onChange);
+        window.addEventListener("storage", onStorage);
+        return () => {
+            window.removeEventListener(changeEvent, onChange);
+            window.removeEventListener("storage", onStorage);
+        };
+    };
+
+    return {
+        get,
+        set,
+        useValue: () => useSyncExternalStore(subscribe, get, () => fallback),
+    };
+}
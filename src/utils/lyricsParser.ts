@@ -0,0 +1,382 @@
+/**
+ * @file lyricsParser.ts
+ * @description Parses lyrics text into a structured document of sections.
+ * 
+ * Contributors mark up lyrics in many ways; all of these are understood:
+ * - Bracketed headers: [Verse 1], [Chorus], [Pre-Chorus], or any custom
+ *   name such as [Response] or [Ending Tag]
+ * - Colon headers: "Verse 1:", "Chorus:", "Refrain:", optionally followed
+ *   by the first line ("Chorus: Yesu ye")
+ * - Bare headers: "Verse 2", "CHORUS", "V1", "(Chorus)"
+ * - Numbered stanzas: "1." / "2)" at the start of a stanza, as in hymn books
+ * - Repeats: "(x2)", "x3", "2x", "(repeat)" after a header or on a line of
+ *   their own repeat the section; after a lyric line they repeat the line
+ * - A header with no lyrics under it ("[Chorus]" again after verse 2)
+ *   means "sing that section again"
+ * - Call and response: "Leader:" / "All:" (also Call, Response, Solo,
+ *   Choir, Congregation, Men, Women) label the lines that follow,
+ *   until the next label or blank line
+ * 
+ * Only known section names are recognised without brackets, so a lyric
+ * line that happens to end with a colon isn't mistaken for a header.
+ * 
+ * The resulting LyricsDocument is shared by the song page, the
+ * projection and OpenLyrics exporters and search ranking.
+ */
+
+/** What kind of section a header names; custom names are "other" */
+export type SectionKind = "verse" | "chorus" | "pre-chorus" | "bridge" | "intro" | "outro" | "tag" | "other";
+
+/** One lyric line */
+export interface LyricLine {
+    /** The words, without part label or repeat marker */
+    text: string;
+    /** Who sings it in call-and-response songs ("Leader", "All"), if labelled */
+    part: string | null;
+    /** How many times the line is sung in a row (1 unless marked "(x2)" etc.) */
+    repeat: number;
+}
+
+/** One section of a song (a verse, the chorus, ...) */
+export interface LyricSection {
+    /**
+     * Unique name within the song, in OpenLyrics style: v1, v2, c1, p1,
+     * b1, i1, e1 (outro), o1 (tag or custom)
+     */
+    id: string;
+    kind: SectionKind;
+    /** Heading to display ("Verse 1", "Chorus", "Response"), or null if none was written */
+    label: string | null;
+    /** Groups of lines separated by blank lines */
+    stanzas: LyricLine[][];
+}
+
+/** A song's lyrics, parsed */
+export interface LyricsDocument {
+    /** Each distinct section once, in the order first written */
+    sections: LyricSection[];
+    /** Section IDs in the order they are sung, with repeats expanded */
+    order: string[];
+}
+
+/** Section names recognised outside brackets, with their kind and display name */
+const SECTION_NAMES: Record<string, { kind: SectionKind; label: string }> = {
+    verse: { kind: "verse", label: "Verse" },
+    stanza: { kind: "verse", label: "Verse" },
+    v: { kind: "verse", label: "Verse" },
+    chorus: { kind: "chorus", label: "Chorus" },
+    c: { kind: "chorus", label: "Chorus" },
+    refrain: { kind: "chorus", label: "Refrain" },
+    "pre-chorus": { kind: "pre-chorus", label: "Pre-Chorus" },
+    "pre chorus": { kind: "pre-chorus", label: "Pre-Chorus" },
+    prechorus: { kind: "pre-chorus", label: "Pre-Chorus" },
+    bridge: { kind: "bridge", label: "Bridge" },
+    intro: { kind: "intro", label: "Intro" },
+    outro: { kind: "outro", label: "Outro" },
+    ending: { kind: "outro", label: "Ending" },
+    tag: { kind: "tag", label: "Tag" },
+    coda: { kind: "tag", label: "Coda" },
+};
+
+/** Heading for sections written without one, by kind */
+const DEFAULT_LABELS: Record<SectionKind, string> = {
+    verse: "Verse",
+    chorus: "Chorus",
+    "pre-chorus": "Pre-Chorus",
+    bridge: "Bridge",
+    intro: "Intro",
+    outro: "Outro",
+    tag: "Tag",
+    other: "Section",
+};
+
+/** OpenLyrics-style ID prefix for each kind */
+const ID_PREFIXES: Record<SectionKind, string> = {
+    verse: "v",
+    chorus: "c",
+    "pre-chorus": "p",
+    bridge: "b",
+    intro: "i",
+    outro: "e",
+    tag: "o",
+    other: "o",
+};
+
+/** Call-and-response labels ("Leader: ...", "All: ...") */
+const PART_LABEL =
+    /^(leader|lead|call|solo|cantor|all|response|congregation|choir|everyone|men|women)\s*:\s*(.*)$/i;
+
+/**
+ * Most times a section or line is sung, however many a marker says
+ * ("[Chorus x5000000]"). Lyrics come from public submissions and are
+ * parsed on every page that shows them, so repeats are capped.
+ */
+export const LYRICS_REPEAT_LIMIT = 10;
+
+/** Most entries in a song's order, repeats included */
+export const LYRICS_ORDER_LIMIT = 200;
+
+/** A repeat marker at the end of a line: "(x2)", "(2x)", "(repeat)", " x2", " 2x", "×3" */
+const REPEAT_SUFFIX = /(?:^|\s+)(?:\(\s*(?:[x×]\s*(\d+)|(\d+)\s*[x×]|(repeat|rpt\.?))\s*\)|[x×](\d+)|(\d+)[x×])$/i;
+
+/** A section header found on a line */
+export interface Header {
+    kind: SectionKind;
+    label: string;
+    /** Verse number written in the header ("Verse 2", "2.") */
+    number: number | null;
+    /** Times the section is sung ("Chorus x2") */
+    repeat: number;
+    /** Lyric text on the same line ("Chorus: Yesu ye", "1. To God be the glory") */
+    text: string;
+}
+
+/**
+ * Splits a trailing repeat marker off a line.
+ * 
+ * @example
+ * splitRepeat("Hallelujah (x3)"); // { text: "Hallelujah", repeat: 3 }
+ * splitRepeat("(repeat)");        // { text: "", repeat: 2 }
+ * splitRepeat("Amen x99");        // { text: "Amen", repeat: 10 } (LYRICS_REPEAT_LIMIT)
+ */
+function splitRepeat(text: string): { text: string; repeat: number } {
+    const match = text.match(REPEAT_SUFFIX);
+    if (!match) return { text, repeat: 1 };
+
+    const count = match[1] ?? match[2] ?? match[4] ?? match[5];
+    return {
+        text: text.slice(0, match.index).trim(),
+        repeat: count ? Math.min(LYRICS_REPEAT_LIMIT, Math.max(1, parseInt(count))) : 2,
+    };
+}
+
+/**
+ * Recognises a known section name with an optional number ("Verse 2", "V2", "Chorus").
+ * Single-letter names need a number, so a line reading just "C" isn't a header.
+ */
+function knownSection(name: string): { kind: SectionKind; label: string; number: number | null } | null {
+    const match = name.trim().toLowerCase().replace(/\s+/g, " ").match(/^(.+?)\.?\s*(\d+)?$/);
+    const known = match && SECTION_NAMES[match[1]];
+    if (!match || !known || (match[1].length === 1 && !match[2])) return null;
+
+    const number = match[2] ? parseInt(match[2]) : null;
+    return { kind: known.kind, label: number ? `${known.label} ${number}` : known.label, number };
+}
+
+/**
+ * Recognises a section header line.
+ * Also used to leave headers out of search result snippets.
+ * 
+ * @param line - The trimmed line
+ * @param atStanzaStart - Whether the line starts a stanza (numbered stanzas only count there)
+ * @returns The header, or null for a lyric line
+ */
+export function parseHeader(line: string, atStanzaStart: boolean): Header | null {
+    // [Verse 1], [Chorus x2], [Chorus] (x2), [Any Custom Name], [Chorus] First line
+    const bracketed = line.match(/^\[([^\]]+)\](.*)$/);
+    if (bracketed) {
+        const inner = splitRepeat(bracketed[1].trim());
+        const after = splitRepeat(bracketed[2].trim());
+        const known = knownSection(inner.text) ?? { kind: "other" as const, label: inner.text, number: null };
+
+        // Text after the brackets is the first line, unless it's only a repeat marker
+        return after.text
+            ? { ...known, repeat: inner.repeat, text: bracketed[2].trim() }
+            : { ...known, repeat: Math.min(LYRICS_REPEAT_LIMIT, inner.repeat * after.repeat), text: "" };
+    }
+
+    // (Chorus)
+    const parenthesized = line.match(/^\(([^)]+)\)$/);
+    if (parenthesized) {
+        const known = knownSection(parenthesized[1]);
+        return known ? { ...known, repeat: 1, text: "" } : null;
+    }
+
+    // Verse 1:  Chorus (x2):  Chorus: first line  Verse 2  CHORUS x2
+    const colon = line.match(/^([^:]+?)\s*:\s*(.*)$/);
+    const name = splitRepeat(colon ? colon[1] : line);
+    const known = knownSection(name.text);
+    if (known) {
+        return { ...known, repeat: name.repeat, text: colon ? colon[2] : "" };
+    }
+
+    // 1.  2)  3. First line of the third verse
+    const numbered = atStanzaStart && line.match(/^(\d{1,2})(?:[.)](?:\s+(.*))?)?$/);
+    if (numbered) {
+        const number = parseInt(numbered[1]);
+        return { kind: "verse", label: `Verse ${number}`, number, repeat: 1, text: numbered[2] ?? "" };
+    }
+
+    return null;
+}
+
+/** Whether two sections have the same lines */
+function sameStanzas(a: LyricLine[][], b: LyricLine[][]): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Parses lyrics into sections and the order they are sung in.
+ * 
+ * @param lyrics - The raw lyrics text
+ * @returns The parsed document (no sections for empty lyrics)
+ * 
+ * @example
+ * parseLyrics("Verse 1:\nAseda\n\nChorus (x2):\nYesu ye\n\nVerse 2:\nMeda wo ase\n\n[Chorus]");
+ * // sections: v1 "Verse 1", c1 "Chorus", v2 "Verse 2"
+ * // order: ["v1", "c1", "c1", "v2", "c1"]
+ */
+export function parseLyrics(lyrics: string): LyricsDocument {
+    const sections: LyricSection[] = [];
+    const order: string[] = [];
+
+    // The section being read, and how many times in a row it is sung
+    let current: { header: Header | null; stanzas: LyricLine[][]; repeat: number } | null = null;
+    let part: string | null = null;
+    let atStanzaStart = true;
+
+    /** Sings a section `times` more times, up to LYRICS_ORDER_LIMIT entries in all */
+    const sing = (id: string, times: number) => {
+        for (let i = 0; i < times && order.length < LYRICS_ORDER_LIMIT; i++) order.push(id);
+    };
+
+    /** Picks the ID for a new section: v{number} when free, else the next free number */
+    const nextId = (kind: SectionKind, number: number | null): string => {
+        const prefix = ID_PREFIXES[kind];
+        const taken = (n: number) => sections.some((section) => section.id === `${prefix}${n}`);
+        if (number && !taken(number)) return `${prefix}${number}`;
+
+        let n = 1;
+        while (taken(n)) n++;
+        return `${prefix}${n}`;
+    };
+
+    /** Adds the section being read to the document */
+    const finish = () => {
+        if (!current) return;
+        const { header, repeat } = current;
+        const stanzas = current.stanzas.filter((stanza) => stanza.length > 0);
+        const label = header?.label ?? null;
+        current = null;
+
+        // A header with no lyrics sings an earlier section again: the last one
+        // with that name, or for a chorus, bridge etc. the last of that kind
+        // ("[Chorus]" after a "Refrain:")
+        const existing = stanzas.length === 0
+            ? sections.findLast((section) => label !== null && section.label?.toLowerCase() === label.toLowerCase()) ??
+              (header && header.kind !== "verse" && header.kind !== "other"
+                  ? sections.findLast((section) => section.kind === header.kind)
+                  : undefined)
+            : sections.find((section) => section.label === label && sameStanzas(section.stanzas, stanzas));
+        if (stanzas.length === 0 && !existing) return;
+
+        let id = existing?.id;
+        if (!id) {
+            id = nextId(header?.kind ?? "verse", header?.number ?? null);
+            sections.push({ id, kind: header?.kind ?? "verse", label, stanzas });
+        }
+        sing(id, repeat);
+    };
+
+    /** Adds a lyric line to the section being read */
+    const addLine = (line: string) => {
+        const { text, repeat } = splitRepeat(line);
+
+        // "(x2)" on its own after an unlabelled stanza repeats that stanza
+        if (!text && !current && order.length > 0) {
+            sing(order[order.length - 1], repeat - 1);
+            return;
+        }
+        current ??= { header: null, stanzas: [[]], repeat: 1 };
+
+        if (text) {
+            current.stanzas[current.stanzas.length - 1].push({ text, part, repeat });
+        } else {
+            // "(x2)" on its own line repeats the whole section
+            current.repeat = Math.min(LYRICS_REPEAT_LIMIT, current.repeat * repeat);
+        }
+    };
+
+    for (const rawLine of lyrics.replace(/\r\n?/g, "\n").split("\n")) {
+        const line = rawLine.trim();
+
+        // Blank line: end of stanza (and of any call-and-response label).
+        // A section with a header runs on to the next header; without
+        // headers, each stanza is a verse of its own.
+        if (!line) {
+            const stanzas = current?.stanzas;
+            if (current && !current.header) finish();
+            else if (stanzas && stanzas[stanzas.length - 1].length > 0) stanzas.push([]);
+            part = null;
+            atStanzaStart = true;
+            continue;
+        }
+
+        const header = parseHeader(line, atStanzaStart);
+        atStanzaStart = false;
+        if (header) {
+            finish();
+            current = { header, stanzas: [[]], repeat: header.repeat };
+            part = null;
+            if (header.text) addLine(header.text);
+            continue;
+        }
+
+        const partLabel = line.match(PART_LABEL);
+        if (partLabel) {
+            part = partLabel[1].charAt(0).toUpperCase() + partLabel[1].slice(1).toLowerCase();
+            if (partLabel[2]) addLine(partLabel[2]);
+            continue;
+        }
+
+        addLine(line);
+    }
+    finish();
+
+    return { sections, order };
+}
+
+/**
+ * Lists a document's sections in the order they are sung.
+ * A section sung twice appears twice.
+ * 
+ * @param doc - The parsed lyrics
+ * @param order - Section IDs to follow instead of the written order (e.g. an
+ *   arrangement's sequence); IDs the lyrics no longer have are skipped
+ */
+export function sectionsInOrder(doc: LyricsDocument, order: string[] = doc.order): LyricSection[] {
+    return order
+        .map((id) => doc.sections.find((section) => section.id === id))
+        .filter((section): section is LyricSection => section !== undefined);
+}
+
+/**
+ * Gets the heading of a section: its own label, or for a section written
+ * without a header, one made from its kind and number ("Verse 2").
+ */
+export function sectionLabel(section: LyricSection): string {
+    if (section.label) return section.label;
+    const number = section.id.match(/\d+$/)?.[0];
+    return section.kind === "verse" ? `Verse ${number}` : DEFAULT_LABELS[section.kind];
+}
+
+/**
+ * Writes a stanza back out as text lines.
+ * Part labels are written where the part changes ("Leader: ..."),
+ * and repeated lines keep their "(x2)" marker.
+ */
+export function stanzaLines(stanza: LyricLine[]): string[] {
+    return stanza.map((line, i) => {
+        const label = line.part && line.part !== stanza[i - 1]?.part ? `${line.part}: ` : "";
+        const repeat = line.repeat > 1 ? ` (x${line.repeat})` : "";
+        return `${label}${line.text}${repeat}`;
+    });
+}
+
+/**
+ * Writes a section's lyrics back out as text, without its header.
+ * Stanzas are separated by a blank line.
+ */
+export function sectionText(section: LyricSection): string {
+    return section.stanzas.map((stanza) => stanzaLines(stanza).join("\n")).join("\n\n");
+}
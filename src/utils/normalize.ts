@@ -0,0 +1,75 @@
+/**
+ * @file normalize.ts
+ * @description Text normalization shared by search on the server and in the browser.
+ * 
+ * Kept free of any database imports so client components (like the
+ * SearchBar's match highlighting) can use it without pulling in the
+ * song repository.
+ * 
+ * The same rules are compiled into the database's normalize_search()
+ * function by scripts/generate-search-sql.ts, so stored search_text
+ * and typed queries are always normalized identically.
+ */
+
+import { ORTHOGRAPHY } from "@/lib/languages";
+
+/**
+ * Combining accents removed during normalization (tone marks, nasal
+ * tilde, etc.). Applied after Unicode NFD decomposition, so "á" (one
+ * precomposed character) becomes "a" + U+0301 and then "a".
+ */
+export const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+/**
+ * Special letter → plain letter mappings for every supported language,
+ * including uppercase forms.
+ * 
+ * Queries don't say which language they're in, so search folds every
+ * language's letters; the mappings never conflict.
+ */
+export const SEARCH_FOLDS: Record<string, string> = Object.fromEntries(
+    Object.values(ORTHOGRAPHY).flatMap((letters) =>
+        Object.entries(letters).flatMap(([letter, plain]) => [
+            [letter, plain],
+            [letter.toUpperCase(), plain],
+        ])
+    )
+);
+
+/** Matches any letter in SEARCH_FOLDS */
+const FOLD_PATTERN = new RegExp(`[${Object.keys(SEARCH_FOLDS).join("")}]`, "g");
+
+/**
+ * Normalizes special letters and accents for search matching.
+ * This allows users to type "aseda" and find "asɛda", or "agbe"
+ * and find the Ewe "agbè".
+ * 
+ * Steps:
+ * 1. Lowercase
+ * 2. Strip tone and nasal marks (á → a, è → e, ɔ̃ → ɔ)
+ * 3. Fold special letters (ɛ → e, ɔ → o, ŋ → n, ɖ → d, ƒ → f, ʋ → v, ɣ → g, ʒ → z)
+ * 
+ * @param text - The text to normalize
+ * @returns Normalized lowercase text with special characters replaced
+ */
+export function normalizeForSearch(text: string): string {
+    return text
+        .toLowerCase()
+        .normalize("NFD")
+        .replace(COMBINING_MARKS, "")
+        .replace(FOLD_PATTERN, (letter) => SEARCH_FOLDS[letter]);
+}
+
+/**
+ * Splits normalized text into search words.
+ * Punctuation is dropped, apostrophes inside words are kept ("m'aseda").
+ * 
+ * @param normalizedText - Text already passed through normalizeForSearch
+ * @returns Array of non-empty words
+ */
+export function tokenizeSearchText(normalizedText: string): string[] {
+    return normalizedText
+        .split(/[^\p{L}\p{N}']+/u)
+        .map((word) => word.replace(/^'+|'+$/g, ""))
+        .filter(Boolean);
+}
@@ -0,0 +1,193 @@
+/**
+ * @file presentation.ts
+ * @description Slides for presenting songs in the browser.
+ * 
+ * Presenter mode (/song/[id]/present, /setlist/[id]/present) shows one
+ * slide at a time from a deck: every song's slides from splitIntoSlides,
+ * one song after another, each in its own arrangement and slide format.
+ * 
+ * Operators jump to a section by typing its code, as used in
+ * arrangements: "V2" for verse 2, "C" for the chorus, "B" for the bridge.
+ * 
+ * Screens that follow the presenter (the stage display, phones in a live
+ * session) are sent a PresenterPosition rather than the deck itself.
+ */
+
+import type { Song } from "@/lib/songs";
+import { SLIDE_FORMAT_LAYOUTS, SlideFormat, SlideLayout, splitIntoSlides } from "./formatLyrics";
+
+/** A song to present, in its chosen slide format and arrangement */
+export interface PresentationItem {
+    song: Song;
+    format: SlideFormat;
+    /** Section IDs to follow (the chosen arrangement); default: as written */
+    order?: string[];
+}
+
+/** One slide of the deck */
+export interface PresentationSlide {
+    /** Which song (index into the presented items) the slide belongs to */
+    songIndex: number;
+    /** The section the slide belongs to, or null for a title slide */
+    sectionId: string | null;
+    /** The section's heading ("Verse 1"), or null for a title slide */
+    label: string | null;
+    /** The slide's lines */
+    text: string;
+    /** Whether this is the first slide of the section (each time it is sung) */
+    startsSection: boolean;
+}
+
+/** First letters of section IDs (see LyricSection), which start a jump code */
+export const SECTION_KEYS = "vcpbieo";
+
+/**
+ * Builds the deck: every song's slides in order.
+ * 
+ * @param items - The songs to present
+ * @param layout - A layout to use for every song instead of each song's format
+ * @returns The slides, one song after another
+ */
+export function buildDeck(items: PresentationItem[], layout: SlideLayout | null = null): PresentationSlide[] {
+    return items.flatMap(({ song, format, order }, songIndex) => {
+        const songLayout = layout ?? SLIDE_FORMAT_LAYOUTS[format];
+        const slides: PresentationSlide[] = splitIntoSlides(song.lyrics, songLayout, order).map((slide) => ({
+            songIndex,
+            sectionId: slide.sectionId,
+            label: slide.label,
+            text: slide.text,
+            startsSection: slide.startsSection,
+        }));
+
+        if (songLayout.titleSlide) {
+            const title = [song.title, song.artist].filter(Boolean).join("\n");
+            slides.unshift({ songIndex, sectionId: null, label: null, text: title, startsSection: false });
+        }
+        return slides;
+    });
+}
+
+/**
+ * The first slide of a song in the deck.
+ * 
+ * @returns The slide's index, or -1 if the song has no slides
+ */
+export function songStart(deck: PresentationSlide[], songIndex: number): number {
+    return deck.findIndex((slide) => slide.songIndex === songIndex);
+}
+
+/**
+ * Finds where to jump for a section code typed by the operator.
+ * 
+ * Only the current song is searched. A section sung more than once
+ * (a repeated chorus) is found at its next start after the current
+ * slide, wrapping round to the first.
+ * 
+ * @param deck - The deck being presented
+ * @param from - The current slide
+ * @param code - A section code such as "V2", "c" or "B" (no number means 1)
+ * @returns The index of the slide to show, or -1 if the song has no such section
+ * 
+ * @example
+ * findSectionSlide(deck, current, "C"); // the next chorus
+ */
+export function findSectionSlide(deck: PresentationSlide[], from: number, code: string): number {
+    const match = code.trim().toLowerCase().match(/^([a-z])(\d*)$/);
+    if (!match || !deck[from]) return -1;
+
+    const id = `${match[1]}${match[2] || "1"}`;
+    const { songIndex } = deck[from];
+
+    // Every slide that starts the section (each time it is sung)
+    const starts = deck.flatMap((slide, i) =>
+        slide.songIndex === songIndex && slide.sectionId === id && slide.startsSection ? [i] : []
+    );
+    return starts.find((i) => i > from) ?? starts[0] ?? -1;
+}
+
+/**
+ * CSS font size for a slide: the given size, shrunk so that slides with
+ * many or long lines still fit on the screen (assuming a line height of 1.25).
+ * 
+ * @param text - The slide's lines
+ * @param size - The largest size wanted (any CSS length, e.g. "8vmin")
+ * @param height - How much of the screen's height the text may fill, in percent
+ * 
+ * @example
+ * fitTextSize("Meda wo ase\nAwurade", "8vmin", 85); // "min(8vmin, 34.00vh, 15.45vw)"
+ */
+export function fitTextSize(text: string, size: string, height: number): string {
+    const lines = text.split("\n");
+    const longest = Math.max(1, ...lines.map((line) => line.length));
+    return `min(${size}, ${(height / (lines.length * 1.25)).toFixed(2)}vh, ${(170 / longest).toFixed(2)}vw)`;
+}
+
+/** What a slide shows, for screens that follow the presenter */
+export interface PositionSlide {
+    /** The song the slide belongs to */
+    songId: number;
+    /** The song's place in the presentation (the same song can be in a setlist twice) */
+    songIndex: number;
+    songTitle: string;
+    /** The section's heading, or null for a title slide */
+    label: string | null;
+    text: string;
+}
+
+/**
+ * Where the presenter is, as sent to the stage display and other
+ * followers: enough to show the current and next slides without the
+ * songs themselves.
+ */
+export interface PresenterPosition {
+    /** What is being presented (a song or setlist name) */
+    title: string;
+    /** The slide on screen, or null if there are no slides */
+    current: PositionSlide | null;
+    /** The slide after it, or null at the end */
+    next: PositionSlide | null;
+    /** The current slide's number (from 1), and how many there are */
+    slideNumber: number;
+    slideCount: number;
+    /** Whether the screen is blacked out, or the text cleared */
+    black: boolean;
+    clear: boolean;
+}
+
+/**
+ * Describes the presenter's position for the screens that follow it.
+ * 
+ * @param title - What is being presented
+ * @param items - The songs being presented
+ * @param deck - The deck built from them
+ * @param index - The slide on screen
+ * @param screen - Whether the screen is blacked out or cleared
+ */
+export function presenterPosition(
+    title: string,
+    items: PresentationItem[],
+    deck: PresentationSlide[],
+    index: number,
+    screen: { black: boolean; clear: boolean }
+): PresenterPosition {
+    const describe = (slide: PresentationSlide | undefined): PositionSlide | null => {
+        if (!slide) return null;
+        const { song } = items[slide.songIndex];
+        return {
+            songId: song.id,
+            songIndex: slide.songIndex,
+            songTitle: song.title,
+            label: slide.label,
+            text: slide.text,
+        };
+    };
+
+    return {
+        title,
+        current: describe(deck[index]),
+        next: describe(deck[index + 1]),
+        slideNumber: deck.length > 0 ? index + 1 : 0,
+        slideCount: deck.length,
+        ...screen,
+    };
+}
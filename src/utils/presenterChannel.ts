@@ -0,0 +1,70 @@
+/**
+ * @file presenterChannel.ts
+ * @description Sends the presenter's position to other windows of this browser.
+ * 
+ * The stage display (/stage) is usually a second window on the laptop that
+ * runs presenter mode, dragged to the screen facing the singers. The
+ * presenter posts its position on a BroadcastChannel whenever it changes;
+ * a stage display that opens later asks for the current position.
+ * 
+ * Uses BroadcastChannel, so this module is for client components only.
+ */
+
+import { useSyncExternalStore } from "react";
+import type { PresenterPosition } from "./presentation";
+
+/** Name of the channel shared by the presenter and its followers */
+const CHANNEL_NAME = "presenter";
+
+/** Messages on the channel */
+type PresenterMessage =
+    | { type: "position"; position: PresenterPosition }
+    /** Sent by a follower that has just opened */
+    | { type: "request" };
+
+/**
+ * Opens the presenter's side of the channel.
+ * 
+ * @param current - Returns the position to send when a follower asks for it
+ * @returns Functions to post a new position and to close the channel
+ * 
+ * @example
+ * const channel = openPresenterChannel(() => latest);
+ * channel.post(position);
+ * channel.close();
+ */
+export function openPresenterChannel(current: () => PresenterPosition) {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    const post = (position: PresenterPosition) =>
+        channel.postMessage({ type: "position", position } satisfies PresenterMessage);
+
+    channel.onmessage = (e: MessageEvent<PresenterMessage>) => {
+        if (e.data?.type === "request") post(current());
+    };
+
+    return { post, close: () => channel.close() };
+}
+
+/** The last position received, shared by every follower in this window */
+let latest: PresenterPosition | null = null;
+
+/** Listens to the channel, asking the presenter for its position first */
+function subscribe(onChange: () => void) {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e: MessageEvent<PresenterMessage>) => {
+        if (e.data?.type === "position") {
+            latest = e.data.position;
+            onChange();
+        }
+    };
+    channel.postMessage({ type: "request" } satisfies PresenterMessage);
+    return () => channel.close();
+}
+
+/**
+ * The presenter's position, kept up to date as it moves.
+ * Null until a presenter in this browser answers (and during server rendering).
+ */
+export function usePresenterPosition(): PresenterPosition | null {
+    return useSyncExternalStore(subscribe, () => latest, () => null);
+}
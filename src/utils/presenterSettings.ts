@@ -0,0 +1,60 @@
+/**
+ * @file presenterSettings.ts
+ * @description Presenter mode display settings, saved on this device.
+ * 
+ * Each projector is different, so text size and colours are set per
+ * device and kept apart from the site's light/dark theme.
+ * 
+ * Uses localStorage (see localStore.ts), so this module is for client
+ * components only.
+ */
+
+import { createLocalStore } from "./localStore";
+
+/** How presented slides look */
+export interface PresenterSettings {
+    /** Largest text size, in percent of the screen's shorter side */
+    textSize: number;
+    /** Background colour (#rrggbb) */
+    background: string;
+    /** Text colour (#rrggbb) */
+    color: string;
+}
+
+/** Limits on textSize, also used by the settings slider */
+export const TEXT_SIZE_LIMITS = { min: 3, max: 15 };
+
+/** The settings used until the operator changes them */
+export const DEFAULT_PRESENTER_SETTINGS: PresenterSettings = { textSize: 8, background: "#000000", color: "#ffffff" };
+
+/** Keeps a colour if it is a #rrggbb value */
+function colorOr(value: unknown, fallback: string): string {
+    return typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value) ? value : fallback;
+}
+
+/** The settings, as JSON in localStorage */
+const store = createLocalStore<PresenterSettings>(
+    "presenterSettings",
+    (json) => {
+        const record = (json && typeof json === "object" ? json : {}) as Record<string, unknown>;
+        const textSize = Number(record.textSize);
+        return {
+            textSize: Number.isFinite(textSize)
+                ? Math.min(TEXT_SIZE_LIMITS.max, Math.max(TEXT_SIZE_LIMITS.min, textSize))
+                : DEFAULT_PRESENTER_SETTINGS.textSize,
+            background: colorOr(record.background, DEFAULT_PRESENTER_SETTINGS.background),
+            color: colorOr(record.color, DEFAULT_PRESENTER_SETTINGS.color),
+        };
+    },
+    DEFAULT_PRESENTER_SETTINGS
+);
+
+/** Saves changes to the settings */
+export function updatePresenterSettings(changes: Partial<PresenterSettings>): void {
+    store.set({ ...store.get(), ...changes });
+}
+
+/** The settings, kept up to date as they change */
+export function usePresenterSettings(): PresenterSettings {
+    return store.useValue();
+}
@@ -0,0 +1,139 @@
+/**
+ * @file setlistDraft.ts
+ * @description The setlist being built, and the setlists saved, on this device.
+ * 
+ * Songs are added to the draft from song pages and search results, then
+ * arranged on the setlist builder (/setlist). Saving a draft stores it on
+ * the server (see lib/setlists.ts); the returned edit key is remembered
+ * here so the setlist can be changed again from this device.
+ * 
+ * Uses localStorage (see localStore.ts), so this module is for client
+ * components only.
+ */
+
+import type { SetlistItem } from "@/lib/repository";
+import { SETLIST_FORMATS, SETLIST_LIMITS } from "@/lib/setlistSubmission";
+import { createLocalStore } from "./localStore";
+
+/** A song in the draft, with what's needed to list it before it's looked up */
+export interface DraftItem extends SetlistItem {
+    title: string;
+    artist: string | null;
+}
+
+/** How to change a saved setlist */
+export interface SavedSetlist {
+    id: string;
+    editKey: string;
+    name: string;
+    service_date: string | null;
+}
+
+/** The setlist being built */
+export interface SetlistDraft {
+    name: string;
+    /** YYYY-MM-DD, or "" */
+    service_date: string;
+    items: DraftItem[];
+    /** The saved setlist this draft changes, or null for a new one */
+    saved: { id: string; editKey: string } | null;
+}
+
+/** An empty draft */
+export const EMPTY_DRAFT: SetlistDraft = { name: "", service_date: "", items: [], saved: null };
+
+/** Cleans up a draft item read from storage */
+function draftItem(value: Record<string, unknown>): DraftItem | null {
+    if (!Number.isInteger(value?.song_id)) return null;
+    return {
+        song_id: value.song_id as number,
+        title: String(value.title ?? ""),
+        artist: typeof value.artist === "string" ? value.artist : null,
+        arrangement: typeof value.arrangement === "string" ? value.arrangement : null,
+        format: SETLIST_FORMATS.find((format) => format === value.format) ?? "full-verse",
+    };
+}
+
+/** The draft, as JSON in localStorage */
+const draftStore = createLocalStore<SetlistDraft>(
+    "setlistDraft",
+    (json) => {
+        if (!json || typeof json !== "object") return EMPTY_DRAFT;
+        const record = json as Record<string, unknown>;
+        const saved = record.saved as Record<string, unknown> | null;
+        return {
+            name: String(record.name ?? ""),
+            service_date: String(record.service_date ?? ""),
+            items: (Array.isArray(record.items) ? record.items : [])
+                .map(draftItem)
+                .filter((item): item is DraftItem => item !== null),
+            saved: typeof saved?.id === "string" && typeof saved?.editKey === "string"
+                ? { id: saved.id, editKey: saved.editKey }
+                : null,
+        };
+    },
+    EMPTY_DRAFT
+);
+
+/** Setlists saved from this device, as JSON in localStorage */
+const savedStore = createLocalStore<SavedSetlist[]>(
+    "savedSetlists",
+    (json) => (Array.isArray(json) ? json.filter((saved) => typeof saved?.id === "string") : []),
+    []
+);
+
+/** Reads the draft */
+export function getSetlistDraft(): SetlistDraft {
+    return draftStore.get();
+}
+
+/** Replaces the draft */
+export function setSetlistDraft(draft: SetlistDraft): void {
+    draftStore.set(draft);
+}
+
+/** The draft, kept up to date as it changes */
+export function useSetlistDraft(): SetlistDraft {
+    return draftStore.useValue();
+}
+
+/**
+ * Adds a song to the end of the draft.
+ * 
+ * @param song - The song to add
+ * @param arrangement - The arrangement to use, or null for the written order
+ * @returns False if the song is already in the draft or the draft is full
+ */
+export function addToSetlistDraft(
+    song: { id: number; title: string; artist: string | null },
+    arrangement: string | null = null
+): boolean {
+    const draft = getSetlistDraft();
+    if (draft.items.some((item) => item.song_id === song.id) || draft.items.length >= SETLIST_LIMITS.items) {
+        return false;
+    }
+
+    setSetlistDraft({
+        ...draft,
+        items: [
+            ...draft.items,
+            { song_id: song.id, title: song.title, artist: song.artist, arrangement, format: "full-verse" },
+        ],
+    });
+    return true;
+}
+
+/** The setlists saved from this device, newest first, kept up to date */
+export function useSavedSetlists(): SavedSetlist[] {
+    return savedStore.useValue();
+}
+
+/** Remembers a saved setlist (replacing an older entry for the same ID) */
+export function rememberSavedSetlist(saved: SavedSetlist): void {
+    savedStore.set([saved, ...savedStore.get().filter((s) => s.id !== saved.id)]);
+}
+
+/** Finds the edit key for a setlist saved from this device */
+export function savedSetlistKey(id: string): string | null {
+    return savedStore.get().find((saved) => saved.id === id)?.editKey ?? null;
+}
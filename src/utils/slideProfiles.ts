@@ -0,0 +1,89 @@
+/**
+ * @file slideProfiles.ts
+ * @description Custom slide layout profiles, saved on this device.
+ * 
+ * A profile is a named SlideLayout (lines per slide, line width, labels,
+ * title slide) made for a particular screen. Profiles are kept in
+ * localStorage, so each device has its own; they are offered next to the
+ * built-in slide formats wherever lyrics are copied.
+ * 
+ * Uses localStorage (see localStore.ts), so this module is for client
+ * components only.
+ */
+
+import type { SlideLayout } from "./formatLyrics";
+import { createLocalStore } from "./localStore";
+
+/** A named slide layout */
+export interface SlideProfile extends SlideLayout {
+    /** Unique ID on this device */
+    id: string;
+    name: string;
+}
+
+/** Limits on profile values, also used by the profile editor's inputs */
+export const SLIDE_PROFILE_LIMITS = {
+    name: 40,
+    linesPerSlide: 12,
+    /** Shortest allowed maxLineLength, so wrapping stays readable */
+    minLineLength: 10,
+    maxLineLength: 200,
+};
+
+/** Keeps a number within limits; anything that isn't a positive number becomes null */
+function clampOrNull(value: unknown, min: number, max: number): number | null {
+    const number = Math.round(Number(value));
+    return Number.isFinite(number) && number > 0 ? Math.min(max, Math.max(min, number)) : null;
+}
+
+/**
+ * Cleans up a profile read from storage or typed into the editor.
+ * Missing or out-of-range values fall back to safe ones.
+ */
+export function normalizeSlideProfile(profile: Partial<SlideProfile>): SlideProfile {
+    return {
+        id: String(profile.id || `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`),
+        name: String(profile.name ?? "").trim().slice(0, SLIDE_PROFILE_LIMITS.name) || "Untitled layout",
+        linesPerSlide: clampOrNull(profile.linesPerSlide, 1, SLIDE_PROFILE_LIMITS.linesPerSlide),
+        maxLineLength: clampOrNull(
+            profile.maxLineLength,
+            SLIDE_PROFILE_LIMITS.minLineLength,
+            SLIDE_PROFILE_LIMITS.maxLineLength
+        ),
+        labelEverySlide: Boolean(profile.labelEverySlide),
+        titleSlide: Boolean(profile.titleSlide),
+    };
+}
+
+/** The profiles, as JSON in localStorage */
+const store = createLocalStore<SlideProfile[]>(
+    "slideProfiles",
+    (json) => (Array.isArray(json) ? json.map(normalizeSlideProfile) : []),
+    []
+);
+
+/**
+ * Reads the saved profiles.
+ * Returns the same array until the stored profiles change.
+ */
+export function loadSlideProfiles(): SlideProfile[] {
+    return store.get();
+}
+
+/**
+ * Saves the profiles, replacing the stored list.
+ */
+export function saveSlideProfiles(profiles: SlideProfile[]): void {
+    store.set(profiles.map(normalizeSlideProfile));
+}
+
+/**
+ * The saved profiles, kept up to date as they change.
+ * Empty during server rendering.
+ * 
+ * @example
+ * const profiles = useSlideProfiles();
+ */
+export function useSlideProfiles(): SlideProfile[] {
+    return store.useValue();
+}
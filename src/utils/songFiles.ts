@@ -0,0 +1,155 @@
+/**
+ * @file songFiles.ts
+ * @description Reads songs from files exported by other worship software.
+ * 
+ * Supported files:
+ * - OpenLyrics XML (.xml), as exported by OpenLP, FreeShow and others;
+ *   this is the inverse of generateOpenLyricsXML
+ * - Plain text (.txt): the file name is the title, the contents the lyrics
+ * 
+ * OpenLyrics verses are turned into our section markers ([Verse 1],
+ * [Chorus], ...) and written out in the song's verseOrder, so a chorus
+ * sung after every verse appears after every verse.
+ * 
+ * XML is parsed with the browser's DOMParser, so this module is for
+ * client components only.
+ */
+
+import { findLanguage } from "@/lib/languages";
+
+/** Section marker for each OpenLyrics verse type (see generateOpenLyricsXML) */
+const SECTION_MARKERS: Record<string, string> = {
+    v: "Verse",
+    c: "Chorus",
+    p: "Pre-Chorus",
+    b: "Bridge",
+    i: "Intro",
+    e: "Outro",
+    o: "Tag",
+};
+
+/** A song read from a file, ready to be submitted */
+export interface ImportedSong {
+    title: string;
+    artist: string;
+    lyrics: string;
+    /** Language found in the file, or null if it didn't say (or isn't supported) */
+    language: string | null;
+}
+
+/**
+ * Reads the text of a <lines> element.
+ * <br/> becomes a line break, as does the end of each <line> (used by
+ * files older than OpenLyrics 0.8); chords and tags keep their text,
+ * and comments are left out.
+ */
+function linesText(element: Element): string {
+    let text = "";
+    for (const node of Array.from(element.childNodes)) {
+        if (node.nodeType === Node.TEXT_NODE) {
+            // Line breaks in the XML source are only formatting
+            text += (node.textContent ?? "").replace(/\s*\n\s*/g, " ");
+        } else if (node instanceof Element) {
+            if (node.localName === "br") text += "\n";
+            else if (node.localName === "line") text += `${linesText(node)}\n`;
+            else if (node.localName !== "comment") text += linesText(node);
+        }
+    }
+    return text;
+}
+
+/**
+ * Builds the section marker for an OpenLyrics verse name.
+ * 
+ * @example
+ * sectionMarker("v2");  // "[Verse 2]"
+ * sectionMarker("c1");  // "[Chorus]"
+ */
+function sectionMarker(name: string): string {
+    const marker = SECTION_MARKERS[name.charAt(0).toLowerCase()] ?? "Verse";
+    const number = name.match(/\d+/)?.[0];
+
+    // Only verses are numbered in our convention
+    return marker === "Verse" && number ? `[Verse ${number}]` : `[${marker}]`;
+}
+
+/**
+ * Parses an OpenLyrics XML document.
+ * 
+ * @param xml - The file contents
+ * @returns The song, or an error message if the file isn't OpenLyrics
+ */
+export function parseOpenLyrics(xml: string): { song: ImportedSong } | { error: string } {
+    const doc = new DOMParser().parseFromString(xml, "application/xml");
+    if (doc.getElementsByTagName("parsererror").length > 0) {
+        return { error: "Not a valid XML file" };
+    }
+    if (doc.documentElement.localName !== "song") {
+        return { error: "Not an OpenLyrics song (expected a <song> element)" };
+    }
+
+    const title = doc.getElementsByTagName("title")[0]?.textContent?.trim() ?? "";
+    const authors = Array.from(doc.getElementsByTagName("author"))
+        .map((author) => author.textContent?.trim() ?? "")
+        .filter(Boolean);
+
+    // A verse may be given in several languages; keep the first of each name
+    const verses = new Map<string, Element>();
+    for (const verse of Array.from(doc.getElementsByTagName("verse"))) {
+        const name = verse.getAttribute("name") ?? `v${verses.size + 1}`;
+        if (!verses.has(name)) verses.set(name, verse);
+    }
+    if (!title || verses.size === 0) {
+        return { error: "The file has no title or no lyrics" };
+    }
+
+    // Sing the verses in verseOrder when given, otherwise in file order
+    const verseOrder = doc.getElementsByTagName("verseOrder")[0]?.textContent?.trim();
+    const order = verseOrder
+        ? verseOrder.split(/\s+/).filter((name) => verses.has(name))
+        : [...verses.keys()];
+
+    const sections = order.map((name) => {
+        // Each <lines> is a slide; separate them with a blank line
+        const blocks = Array.from(verses.get(name)!.getElementsByTagName("lines"))
+            .map((lines) => linesText(lines).split("\n").map((line) => line.trim()).join("\n").trim())
+            .filter(Boolean);
+        return `${sectionMarker(name)}\n${blocks.join("\n\n")}`;
+    });
+
+    const langCode =
+        doc.getElementsByTagName("verse")[0]?.getAttribute("lang") ??
+        doc.getElementsByTagName("title")[0]?.getAttribute("lang");
+
+    return {
+        song: {
+            title,
+            artist: [...new Set(authors)].join(", "),
+            lyrics: sections.join("\n\n"),
+            language: langCode ? findLanguage(langCode.split("-")[0]) : null,
+        },
+    };
+}
+
+/**
+ * Reads a song from an uploaded file, choosing the parser by extension.
+ * 
+ * @param fileName - The file's name (e.g. "Aseda.xml")
+ * @param text - The file contents
+ * @returns The song, or an error message
+ */
+export function parseSongFile(fileName: string, text: string): { song: ImportedSong } | { error: string } {
+    const extension = fileName.split(".").pop()?.toLowerCase();
+
+    if (extension === "xml") return parseOpenLyrics(text);
+
+    if (extension === "txt") {
+        const lyrics = text.replace(/\r\n?/g, "\n").trim();
+        const title = fileName.replace(/\.txt$/i, "").replace(/_+/g, " ").trim();
+        return lyrics
+            ? { song: { title, artist: "", lyrics, language: null } }
+            : { error: "The file is empty" };
+    }
+
+    return { error: "Unsupported file type (expected .xml or .txt)" };
+}
@@ -0,0 +1,23 @@
+-- Generated by scripts/generate-search-sql.ts from src/lib/languages.ts.
+-- Do not edit by hand: change ORTHOGRAPHY and run `npm run generate-search-sql`.
+-- Requires PostgreSQL 13+ (for normalize()).
+
+create or replace function normalize_search(input text)
+returns text as $$
+  select translate(
+    regexp_replace(normalize(lower(input), NFD), '[\u0300-\u036f]', '', 'g'),
+    'ɛƐɔƆŋŊɖƉƒƑɣƔʋƲʒƷ',
+    'eeoonnddffggvvzz'
+  );
+$$ language sql immutable;
+
+create or replace function update_search_text()
+returns trigger as $$
+begin
+  new.search_text := normalize_search(new.title || ' ' || coalesce(new.artist, '') || ' ' || new.lyrics);
+  return new;
+end;
+$$ language plpgsql;
+
+-- Recompute search_text for songs stored before this version
+update songs set search_text = normalize_search(title || ' ' || coalesce(artist, '') || ' ' || lyrics);